@@ -0,0 +1,37 @@
+// mock-server/jwt.js
+// Minimal HS256 JWT helpers so the mock issues tokens shaped like the real backend's.
+
+import crypto from 'node:crypto';
+
+const SECRET = process.env.MOCK_JWT_SECRET || 'sabbpe-bank-mock-secret';
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+
+const sign = (data) => crypto.createHmac('sha256', SECRET).update(data).digest('base64url');
+
+export const signToken = (claims, expiresInSeconds) => {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify({ ...claims, iat: now, exp: now + expiresInSeconds }));
+    return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+};
+
+// Returns the decoded claims, or null when the token is malformed, tampered with or expired.
+export const verifyToken = (token) => {
+    const parts = (token || '').split('.');
+    if (parts.length !== 3) return null;
+
+    const [header, payload, signature] = parts;
+    const expected = sign(`${header}.${payload}`);
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+        return null;
+    }
+
+    try {
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return null;
+        return claims;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,104 @@
+// mock-server/seed.js
+// Seed data for the local bank mock. Application rows mirror what the real
+// /api/bank backend returns from merchant_profiles once support has approved KYC.
+
+export const BANK_STAFF = [
+    { userId: 'bank-usr-001', email: 'bank@nsdlb.com', password: 'bank123', name: 'NSDL Bank Officer', role: 'bank_officer', bankStaffId: 'NSDLB-0001' },
+    { userId: 'bank-usr-002', email: 'officer2@nsdlb.com', password: 'bank123', name: 'Second Officer', role: 'bank_officer', bankStaffId: 'NSDLB-0002' },
+    { userId: 'bank-usr-100', email: 'manager@nsdlb.com', password: 'manager123', name: 'Branch Manager', role: 'bank_manager', bankStaffId: 'NSDLB-0100' },
+    { userId: 'bank-usr-200', email: 'viewer@nsdlb.com', password: 'viewer123', name: 'Audit Viewer', role: 'viewer', bankStaffId: 'NSDLB-0900' },
+    { userId: 'bank-usr-900', email: 'admin@nsdlb.com', password: 'admin123', name: 'Portal Admin', role: 'admin', bankStaffId: 'NSDLB-0999' }
+];
+
+// Two-factor enrolments the mock starts with, so the code step can be tried without enrolling
+// first. Add the secret to any authenticator app; each backup code works once per mock run.
+export const SEEDED_MFA = [
+    { userId: 'bank-usr-900', secret: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP', backupCodes: ['nsdl-0001', 'nsdl-0002', 'nsdl-0003'] }
+];
+
+// Lifecycle of merchant_profiles.onboarding_status once an application reaches the bank.
+// Keys are the current state; values map a decision to the next state.
+export const STATUS_TRANSITIONS = {
+    pending_bank_approval: { approve: 'bank_approved', reject: 'bank_rejected' }
+};
+
+const APPLICATIONS = [
+    { id: 'app-2001', merchant_id: 'mer-0901', full_name: 'Kiran Patel', email: 'kiran@patelpharma.in', business_name: 'Patel Pharma', hoursAgo: 70 },
+    { id: 'app-2002', merchant_id: 'mer-0902', full_name: 'Deepa Menon', email: 'deepa.menon@example.com', business_name: 'Menon Spices Exports', hoursAgo: 52 },
+    { id: 'app-2003', merchant_id: 'mer-0903', full_name: 'Arjun Reddy', email: 'arjun@reddymotors.in', business_name: 'Reddy Motors', hoursAgo: 30 },
+    { id: 'app-2004', merchant_id: 'mer-0904', full_name: 'Neha Gupta', email: 'neha.gupta@example.com', business_name: 'Gupta Book Depot', hoursAgo: 20 },
+    { id: 'app-2005', merchant_id: 'mer-0905', full_name: 'Harpreet Singh', email: 'harpreet@punjabdhaba.in', business_name: 'Punjab Da Dhaba', hoursAgo: 9 },
+    { id: 'app-2006', merchant_id: 'mer-0906', full_name: 'Sunita Rao', email: 'sunita.rao@example.com', business_name: 'Rao Tailoring', hoursAgo: 4 },
+    { id: 'app-2007', merchant_id: 'mer-0907', full_name: 'Mohammed Irfan', email: 'irfan@irfanmobiles.in', business_name: 'Irfan Mobiles', hoursAgo: 96, decided: { decision: 'approve', by: 'NSDLB-0001', notes: 'Documents verified with CKYC' } },
+    { id: 'app-2008', merchant_id: 'mer-0908', full_name: 'Geeta Das', email: 'geeta.das@example.com', business_name: 'Das Fish Market', hoursAgo: 80, decided: { decision: 'reject', by: 'NSDLB-0002', notes: 'Current account not in merchant name', reasonCodes: ['ACCOUNT_NAME_MISMATCH'] } }
+];
+
+const FIRST_NAMES = ['Asha', 'Vikram', 'Meera', 'Rahul', 'Kavya', 'Suresh', 'Pooja', 'Imran', 'Lakshmi', 'Manoj'];
+const LAST_NAMES = ['Iyer', 'Joshi', 'Nair', 'Khan', 'Bose', 'Pillai', 'Desai', 'Chopra', 'Yadav', 'Shetty'];
+const TRADES = ['Kirana', 'Medicals', 'Hardware', 'Sweets', 'Textiles', 'Mobiles', 'Bakery'];
+
+// Synthetic pending applications for exercising pagination and the virtualized list.
+// Only used when the data file is (re)created: MOCK_BULK_APPLICATIONS=5000 with a reset.
+const bulkApplications = (count, firstNumber = 50000) => Array.from({ length: count }, (_, index) => {
+    const first = FIRST_NAMES[index % FIRST_NAMES.length];
+    const last = LAST_NAMES[Math.floor(index / FIRST_NAMES.length) % LAST_NAMES.length];
+    return {
+        id: `app-${firstNumber + index}`,
+        merchant_id: `mer-${firstNumber + index}`,
+        full_name: `${first} ${last}`,
+        email: `${first}.${last}.${index}@example.com`.toLowerCase(),
+        business_name: `${last} ${TRADES[index % TRADES.length]} #${index + 1}`,
+        hoursAgo: 1 + (index % 240)
+    };
+});
+
+const isoHoursAgo = (hours) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+const toApplication = (seed) => {
+    const createdAt = isoHoursAgo(seed.hoursAgo);
+    return {
+        id: seed.id,
+        merchant_id: seed.merchant_id,
+        full_name: seed.full_name,
+        email: seed.email,
+        business_name: seed.business_name,
+        onboarding_status: 'pending_bank_approval',
+        created_at: createdAt,
+        updated_at: createdAt
+    };
+};
+
+// A freshly KYC-approved application arriving at the bank, for POST /__mock/applications.
+export const createApplication = (sequence) => toApplication({ ...bulkApplications(sequence + 1, 60000)[sequence], hoursAgo: 0 });
+
+export const createSeed = ({ bulkCount = Number(process.env.MOCK_BULK_APPLICATIONS || 0) } = {}) => {
+    const applications = [];
+    const decisions = [];
+
+    for (const seed of [...APPLICATIONS, ...bulkApplications(bulkCount)]) {
+        const application = toApplication(seed);
+
+        if (seed.decided) {
+            const decidedAt = isoHoursAgo(seed.hoursAgo - 6);
+            const staff = BANK_STAFF.find((s) => s.bankStaffId === seed.decided.by);
+            decisions.push({
+                id: `dec-${decisions.length + 1}`,
+                application_id: seed.id,
+                from_status: application.onboarding_status,
+                to_status: STATUS_TRANSITIONS.pending_bank_approval[seed.decided.decision],
+                decision: seed.decided.decision,
+                notes: seed.decided.notes,
+                reason_codes: seed.decided.reasonCodes || [],
+                bank_staff_id: staff.bankStaffId,
+                decided_by: staff.name,
+                decided_at: decidedAt
+            });
+            application.onboarding_status = STATUS_TRANSITIONS.pending_bank_approval[seed.decided.decision];
+            application.updated_at = decidedAt;
+        }
+
+        applications.push(application);
+    }
+
+    return { applications, decisions };
+};
@@ -0,0 +1,601 @@
+// mock-server/server.js
+// Stand-in for the SabbPe /api/bank backend with a file-backed application lifecycle.
+//
+//   npm run mock                              # http://localhost:5001
+//   MOCK_DB_FILE=/tmp/bank.json npm run mock  # keep the data somewhere else
+//   MOCK_NO_PUSH=1 npm run mock               # refuse the live updates stream (tests polling)
+//
+// Decisions survive restarts; POST /__mock/reset restores the seed data and
+// POST /__mock/applications {count} adds new pending applications.
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+import { BANK_STAFF, SEEDED_MFA, STATUS_TRANSITIONS, createApplication } from './seed.js';
+import { DB_FILE, loadDb, resetDb, saveDb } from './store.js';
+import { signToken, verifyToken } from './jwt.js';
+import { generateSecret, matchTotp, otpauthUrl, generateBackupCodes, hashBackupCode } from './totp.js';
+
+const PORT = Number(process.env.MOCK_PORT || 5001);
+const API_PREFIX = '/api/bank';
+const TOKEN_TTL_SECONDS = Number(process.env.MOCK_TOKEN_TTL || 8 * 60 * 60);
+const REFRESH_TTL_SECONDS = Number(process.env.MOCK_REFRESH_TTL || 7 * 24 * 60 * 60);
+// Time between a correct password and the authentication code before the password is asked again.
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+const MFA_MAX_ATTEMPTS = 5;
+const MFA_ISSUER = 'NSDL Bank Portal';
+const NO_PUSH = process.env.MOCK_NO_PUSH === '1';
+const HEARTBEAT_MS = 25 * 1000;
+
+let db = loadDb();
+
+class HttpError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const sendJson = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req) => {
+    const chunks = [];
+    for await (const chunk of req) chunks.push(chunk);
+    if (chunks.length === 0) return {};
+    let body;
+    try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'Request body is not valid JSON');
+    }
+    // Handlers destructure the body, so null, arrays and bare values are refused here.
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new HttpError(400, 'Request body must be a JSON object');
+    }
+    return body;
+};
+
+// EventSource cannot send headers, so the events stream (the only `stream` route) also accepts
+// ?access_token=. Other routes take the Authorization header only, keeping tokens out of URLs.
+const requireStaff = (req, url, allowQueryToken = false) => {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : allowQueryToken ? url.searchParams.get('access_token') : null;
+    const claims = verifyToken(token);
+    if (!claims) throw new HttpError(401, 'Invalid or expired token');
+    const staff = BANK_STAFF.find((s) => s.userId === claims.sub);
+    if (!staff) throw new HttpError(401, 'Unknown bank staff');
+    return staff;
+};
+
+// Open GET /events streams. Every application change is pushed to all of them.
+const eventClients = new Set();
+
+const broadcast = (type, appId, staff, extra = {}) => {
+    const event = {
+        type,
+        applicationId: appId,
+        actor: staff ? { id: staff.userId, name: staff.name } : null,
+        at: new Date().toISOString(),
+        ...extra
+    };
+    const frame = `event: ${type}\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const client of eventClients) client.write(frame);
+};
+
+const publicStaff = ({ password: _password, ...staff }) => staff;
+
+// Same table as src/lib/permissions.ts. Roles missing from it get no permissions.
+const VIEWER_PERMISSIONS = ['applications:view', 'data:export'];
+const OFFICER_PERMISSIONS = [...VIEWER_PERMISSIONS, 'applications:decide'];
+const MANAGER_PERMISSIONS = [...OFFICER_PERMISSIONS, 'data:export_unmasked'];
+const ROLE_PERMISSIONS = {
+    viewer: VIEWER_PERMISSIONS,
+    bank_officer: OFFICER_PERMISSIONS,
+    bank_manager: MANAGER_PERMISSIONS,
+    admin: MANAGER_PERMISSIONS
+};
+
+const requirePermission = (staff, permission, message) => {
+    if (!ROLE_PERMISSIONS[staff.role]?.includes(permission)) throw new HttpError(403, message);
+};
+
+// Refresh tokens are opaque and held in memory, so they do not survive a restart. Each one is
+// single-use: POST /auth/refresh swaps it for a new access and refresh token pair.
+const refreshTokens = new Map();
+
+const issueSession = (staff) => {
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    refreshTokens.set(refreshToken, { userId: staff.userId, expiresAt: Date.now() + REFRESH_TTL_SECONDS * 1000 });
+    return {
+        token: signToken({ sub: staff.userId, bankStaffId: staff.bankStaffId, role: staff.role }, TOKEN_TTL_SECONDS),
+        refreshToken,
+        user: publicStaff(staff)
+    };
+};
+
+// Two-factor enrolments by staff user id. Like refresh tokens they live in memory rather than in the
+// data file, so enrolments made while the mock runs are lost on restart; SEEDED_MFA is enrolled
+// again each time.
+const mfaEnrolments = new Map(SEEDED_MFA.map(({ userId, secret, backupCodes }) => [
+    userId,
+    { secret, backupCodeHashes: backupCodes.map(hashBackupCode), lastStep: null }
+]));
+// Secrets handed out by POST /auth/mfa/enroll that have not been confirmed with a code yet.
+const pendingMfaSecrets = new Map();
+// Logins that passed the password check and wait for the code, keyed by an opaque single-use token.
+const mfaChallenges = new Map();
+
+// True when `code` is a current authenticator code or an unused backup code. Both work once: an
+// authenticator code cannot be replayed within its window and a backup code is struck off.
+const checkSecondFactor = (enrolment, code) => {
+    const value = String(code || '').trim();
+    const step = matchTotp(enrolment.secret, value.replace(/\s/g, ''));
+    if (step !== null) {
+        if (enrolment.lastStep !== null && step <= enrolment.lastStep) return false;
+        enrolment.lastStep = step;
+        return true;
+    }
+    const index = enrolment.backupCodeHashes.indexOf(hashBackupCode(value));
+    if (index === -1) return false;
+    enrolment.backupCodeHashes.splice(index, 1);
+    return true;
+};
+
+// For the account's own MFA settings. A wrong code here is a 400, not a 401, because the session
+// itself is fine.
+const requireSecondFactor = (staff, code) => {
+    const enrolment = mfaEnrolments.get(staff.userId);
+    if (!enrolment) throw new HttpError(409, 'Two-factor authentication is not turned on');
+    if (!checkSecondFactor(enrolment, code)) throw new HttpError(400, 'Incorrect authentication code');
+    return enrolment;
+};
+
+const mfaStatus = (staff) => {
+    const enrolment = mfaEnrolments.get(staff.userId);
+    return { enabled: Boolean(enrolment), backupCodesRemaining: enrolment ? enrolment.backupCodeHashes.length : 0 };
+};
+
+const issueBackupCodes = (enrolment) => {
+    const backupCodes = generateBackupCodes();
+    enrolment.backupCodeHashes = backupCodes.map(hashBackupCode);
+    return backupCodes;
+};
+
+const findApplication = (appId) => {
+    const application = db.applications.find((a) => a.id === appId);
+    if (!application) throw new HttpError(404, `Application ${appId} not found`);
+    return application;
+};
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const SORT_FIELDS = ['created_at', 'updated_at', 'business_name', 'full_name'];
+
+const parsePositiveInt = (value, fallback, name) => {
+    if (value === null || value === '') return fallback;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) throw new HttpError(400, `${name} must be a positive integer`);
+    return number;
+};
+
+const parseDate = (value, name) => {
+    if (!value) return null;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) throw new HttpError(400, `${name} must be a YYYY-MM-DD date`);
+    return value;
+};
+
+const parseTimestamp = (value, name) => {
+    if (!value) return null;
+    if (Number.isNaN(Date.parse(value))) throw new HttpError(400, `${name} must be an ISO timestamp`);
+    return new Date(value).toISOString();
+};
+
+// Filters, sorts and pages `applications` following the
+// ?page=&pageSize=&sortBy=&sortDir=&search=&createdBefore= query parameters.
+const paginate = (applications, url) => {
+    const page = parsePositiveInt(url.searchParams.get('page'), 1, 'page');
+    const pageSize = Math.min(parsePositiveInt(url.searchParams.get('pageSize'), DEFAULT_PAGE_SIZE, 'pageSize'), MAX_PAGE_SIZE);
+    const sortBy = url.searchParams.get('sortBy') || 'created_at';
+    const sortDir = url.searchParams.get('sortDir') || 'asc';
+    const search = (url.searchParams.get('search') || '').trim().toLowerCase();
+    const createdBefore = parseTimestamp(url.searchParams.get('createdBefore'), 'createdBefore');
+    if (!SORT_FIELDS.includes(sortBy)) throw new HttpError(400, `sortBy must be one of ${SORT_FIELDS.join(', ')}`);
+    if (sortDir !== 'asc' && sortDir !== 'desc') throw new HttpError(400, 'sortDir must be asc or desc');
+
+    const direction = sortDir === 'asc' ? 1 : -1;
+    const matches = applications
+        .filter((a) => !search || [a.full_name, a.email, a.business_name].some((value) => value.toLowerCase().includes(search)))
+        .filter((a) => !createdBefore || a.created_at < createdBefore)
+        .sort((a, b) => {
+            const left = String(a[sortBy]).toLowerCase();
+            const right = String(b[sortBy]).toLowerCase();
+            return (left < right ? -1 : left > right ? 1 : 0) * direction || a.id.localeCompare(b.id);
+        });
+
+    const data = matches.slice((page - 1) * pageSize, page * pageSize);
+    return {
+        success: true,
+        count: data.length,
+        total: matches.length,
+        page,
+        pageSize,
+        hasMore: page * pageSize < matches.length,
+        data
+    };
+};
+
+// Decision history for GET /applications/decisions, newest first, with the applicant joined in.
+// ?from=&to= are inclusive YYYY-MM-DD dates on decided_at.
+const listDecisions = (url) => {
+    const page = parsePositiveInt(url.searchParams.get('page'), 1, 'page');
+    const pageSize = Math.min(parsePositiveInt(url.searchParams.get('pageSize'), DEFAULT_PAGE_SIZE, 'pageSize'), MAX_PAGE_SIZE);
+    const from = parseDate(url.searchParams.get('from'), 'from');
+    const to = parseDate(url.searchParams.get('to'), 'to');
+    const matches = db.decisions
+        .filter((d) => (!from || d.decided_at.slice(0, 10) >= from) && (!to || d.decided_at.slice(0, 10) <= to))
+        .sort((a, b) => b.decided_at.localeCompare(a.decided_at) || b.id.localeCompare(a.id));
+    const data = matches.slice((page - 1) * pageSize, page * pageSize).map((decision) => {
+        const application = findApplication(decision.application_id);
+        return { ...decision, merchant_id: application.merchant_id, full_name: application.full_name, email: application.email, business_name: application.business_name };
+    });
+    return { success: true, count: data.length, total: matches.length, page, pageSize, hasMore: page * pageSize < matches.length, data };
+};
+
+const MAX_BATCH_SIZE = 100;
+
+// Same codes as REASON_CODES in src/data/reasonCodes.ts, the catalogue the ReasonCodePicker
+// offers, split by the decision they belong to.
+const REASON_CODES = {
+    approve: new Set(['DOCS_VERIFIED', 'CKYC_VERIFIED', 'ACCOUNT_VERIFIED', 'LOW_RISK']),
+    reject: new Set([
+        'DOC_MISMATCH', 'DOC_BLURRY', 'ACCOUNT_NAME_MISMATCH',
+        'PAN_INVALID', 'CKYC_MISMATCH',
+        'LOCATION_MISMATCH',
+        'NEGATIVE_LIST', 'HIGH_RISK_CATEGORY', 'SUSPECTED_FRAUD',
+        'OTHER'
+    ])
+};
+
+const validateDecision = (decision, notes, reasonCodes) => {
+    if (decision !== 'approve' && decision !== 'reject') {
+        throw new HttpError(400, "decision must be 'approve' or 'reject'");
+    }
+    if (!Array.isArray(reasonCodes) || reasonCodes.some((code) => typeof code !== 'string' || !code)) {
+        throw new HttpError(400, 'reasonCodes must be an array of codes');
+    }
+    const unknown = reasonCodes.filter((code) => !REASON_CODES[decision].has(code));
+    if (unknown.length > 0) throw new HttpError(400, `Unknown reason code for ${decision}: ${unknown.join(', ')}`);
+    if (decision === 'reject' && reasonCodes.length === 0 && !String(notes || '').trim()) {
+        throw new HttpError(400, 'A reason code or notes are required when rejecting');
+    }
+};
+
+// Moves one application on and records the decision. The caller saves the db.
+const decide = (application, staff, { decision, notes, reasonCodes }) => {
+    const fromStatus = application.onboarding_status;
+    const toStatus = STATUS_TRANSITIONS[fromStatus]?.[decision];
+    if (!toStatus) {
+        throw new HttpError(409, `Application ${application.id} is ${fromStatus} and cannot be decided`);
+    }
+
+    const decidedAt = new Date().toISOString();
+    application.onboarding_status = toStatus;
+    application.updated_at = decidedAt;
+    const record = {
+        id: `dec-${db.decisions.length + 1}`,
+        application_id: application.id,
+        from_status: fromStatus,
+        to_status: toStatus,
+        decision,
+        notes: notes || '',
+        reason_codes: reasonCodes,
+        bank_staff_id: staff.bankStaffId,
+        decided_by: staff.name,
+        decided_at: decidedAt
+    };
+    db.decisions.push(record);
+    broadcast('application.decided', application.id, staff, { decision, status: toStatus });
+    return record;
+};
+
+const routes = [
+    {
+        method: 'POST',
+        path: /^\/auth\/login$/,
+        handler: async ({ req }) => {
+            const { email, password } = await readJsonBody(req);
+            if (!email || !password) throw new HttpError(400, 'Email and password are required');
+
+            const staff = BANK_STAFF.find((s) => s.email === String(email).toLowerCase() && s.password === password);
+            if (!staff) throw new HttpError(401, 'Invalid email or password');
+
+            // With two-factor on, the password only earns a challenge; the session comes from /auth/mfa/verify.
+            if (mfaEnrolments.has(staff.userId)) {
+                const mfaToken = crypto.randomBytes(32).toString('base64url');
+                const expiresAt = Date.now() + MFA_CHALLENGE_TTL_SECONDS * 1000;
+                mfaChallenges.set(mfaToken, { userId: staff.userId, expiresAt, attempts: 0 });
+                return { success: true, message: 'Enter your authentication code', mfaRequired: true, mfaToken, expiresAt: new Date(expiresAt).toISOString() };
+            }
+
+            return {
+                success: true,
+                message: 'Login successful',
+                ...issueSession(staff)
+            };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/verify$/,
+        handler: async ({ req }) => {
+            const { mfaToken, code } = await readJsonBody(req);
+            const challenge = mfaChallenges.get(mfaToken);
+            if (!challenge || challenge.expiresAt <= Date.now()) {
+                mfaChallenges.delete(mfaToken);
+                throw new HttpError(401, 'Sign-in timed out, please enter your password again');
+            }
+            const staff = BANK_STAFF.find((s) => s.userId === challenge.userId);
+            const enrolment = mfaEnrolments.get(challenge.userId);
+            if (!staff || !enrolment) throw new HttpError(401, 'Unknown bank staff');
+
+            if (!checkSecondFactor(enrolment, code)) {
+                challenge.attempts += 1;
+                if (challenge.attempts >= MFA_MAX_ATTEMPTS) {
+                    mfaChallenges.delete(mfaToken);
+                    throw new HttpError(401, 'Too many incorrect codes, please sign in again');
+                }
+                throw new HttpError(400, 'Incorrect authentication code');
+            }
+            mfaChallenges.delete(mfaToken);
+            return {
+                success: true,
+                message: 'Login successful',
+                ...issueSession(staff),
+                backupCodesRemaining: enrolment.backupCodeHashes.length
+            };
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/auth\/mfa$/,
+        auth: true,
+        handler: async ({ staff }) => ({ success: true, data: mfaStatus(staff) })
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/enroll$/,
+        auth: true,
+        handler: async ({ staff }) => {
+            if (mfaEnrolments.has(staff.userId)) throw new HttpError(409, 'Two-factor authentication is already on');
+            // Starting again replaces any secret from an enrolment that was never finished.
+            const secret = generateSecret();
+            pendingMfaSecrets.set(staff.userId, secret);
+            return { success: true, data: { secret, otpauthUrl: otpauthUrl({ issuer: MFA_ISSUER, account: staff.email, secret }) } };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/activate$/,
+        auth: true,
+        handler: async ({ req, staff }) => {
+            const { code } = await readJsonBody(req);
+            const secret = pendingMfaSecrets.get(staff.userId);
+            if (!secret) throw new HttpError(409, 'Start two-factor setup before confirming it');
+            const step = matchTotp(secret, String(code || '').replace(/\s/g, ''));
+            if (step === null) throw new HttpError(400, 'Incorrect authentication code');
+
+            const enrolment = { secret, backupCodeHashes: [], lastStep: step };
+            const backupCodes = issueBackupCodes(enrolment);
+            mfaEnrolments.set(staff.userId, enrolment);
+            pendingMfaSecrets.delete(staff.userId);
+            console.log(`[mock] ${staff.email} turned on two-factor authentication`);
+            return { success: true, message: 'Two-factor authentication is on', data: { backupCodes } };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/backup-codes$/,
+        auth: true,
+        handler: async ({ req, staff }) => {
+            const { code } = await readJsonBody(req);
+            const backupCodes = issueBackupCodes(requireSecondFactor(staff, code));
+            return { success: true, message: 'New backup codes issued; the old ones no longer work', data: { backupCodes } };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/disable$/,
+        auth: true,
+        handler: async ({ req, staff }) => {
+            const { code } = await readJsonBody(req);
+            requireSecondFactor(staff, code);
+            mfaEnrolments.delete(staff.userId);
+            console.log(`[mock] ${staff.email} turned off two-factor authentication`);
+            return { success: true, message: 'Two-factor authentication is off' };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/refresh$/,
+        handler: async ({ req }) => {
+            const { refreshToken } = await readJsonBody(req);
+            const session = refreshTokens.get(refreshToken);
+            refreshTokens.delete(refreshToken);
+            if (!session || session.expiresAt <= Date.now()) throw new HttpError(401, 'Session expired, please log in again');
+
+            const staff = BANK_STAFF.find((s) => s.userId === session.userId);
+            if (!staff) throw new HttpError(401, 'Unknown bank staff');
+            return { success: true, message: 'Session refreshed', ...issueSession(staff) };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/logout$/,
+        handler: async ({ req }) => {
+            const { refreshToken } = await readJsonBody(req);
+            refreshTokens.delete(refreshToken);
+            return { success: true, message: 'Logged out' };
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/applications\/pending$/,
+        auth: true,
+        handler: async ({ url }) => paginate(db.applications.filter((a) => STATUS_TRANSITIONS[a.onboarding_status]), url)
+    },
+    {
+        method: 'GET',
+        path: /^\/applications\/decisions$/,
+        auth: true,
+        handler: async ({ url }) => listDecisions(url)
+    },
+    {
+        // After the fixed /applications/* paths, which would otherwise match as ids.
+        method: 'GET',
+        path: /^\/applications\/(?<appId>[^/]+)$/,
+        auth: true,
+        handler: async ({ params }) => ({ success: true, data: findApplication(params.appId) })
+    },
+    {
+        method: 'POST',
+        path: /^\/applications\/decide\/(?<appId>[^/]+)$/,
+        auth: true,
+        handler: async ({ req, params, staff }) => {
+            const { decision, notes, reasonCodes = [] } = await readJsonBody(req);
+            requirePermission(staff, 'applications:decide', 'Your role can view applications but not approve or reject them');
+            validateDecision(decision, notes, reasonCodes);
+            const application = findApplication(params.appId);
+            const record = decide(application, staff, { decision, notes, reasonCodes });
+            saveDb(db);
+
+            return {
+                success: true,
+                message: decision === 'approve' ? 'Application approved' : 'Application rejected',
+                application,
+                decision: record
+            };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/applications\/decide-batch$/,
+        auth: true,
+        handler: async ({ req, staff }) => {
+            const { applicationIds, decision, notes, reasonCodes = [] } = await readJsonBody(req);
+            requirePermission(staff, 'applications:decide', 'Your role can view applications but not approve or reject them');
+            if (!Array.isArray(applicationIds) || applicationIds.length === 0 || applicationIds.some((id) => typeof id !== 'string' || !id)) {
+                throw new HttpError(400, 'applicationIds must be a non-empty array of ids');
+            }
+            if (applicationIds.length > MAX_BATCH_SIZE) throw new HttpError(400, `At most ${MAX_BATCH_SIZE} applications can be decided at once`);
+            if (new Set(applicationIds).size !== applicationIds.length) throw new HttpError(400, 'applicationIds must not repeat');
+            validateDecision(decision, notes, reasonCodes);
+            if (!String(notes || '').trim()) throw new HttpError(400, 'A shared note is required for bulk decisions');
+            if (reasonCodes.length === 0) throw new HttpError(400, 'A reason code is required for bulk decisions');
+
+            // Each application succeeds or fails on its own; one bad id does not undo the rest.
+            const results = applicationIds.map((applicationId) => {
+                try {
+                    const record = decide(findApplication(applicationId), staff, { decision, notes, reasonCodes });
+                    return { applicationId, success: true, onboardingStatus: record.to_status, decisionId: record.id };
+                } catch (err) {
+                    if (!(err instanceof HttpError)) throw err;
+                    return { applicationId, success: false, statusCode: err.status, message: err.message };
+                }
+            });
+            saveDb(db);
+            const succeeded = results.filter((result) => result.success).length;
+            console.log(`[mock] ${staff.email} bulk ${decision}: ${succeeded}/${results.length} succeeded`);
+
+            return {
+                success: true,
+                message: `${succeeded} of ${results.length} applications ${decision === 'approve' ? 'approved' : 'rejected'}`,
+                results
+            };
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/events$/,
+        auth: true,
+        stream: true,
+        handler: async ({ req, res, staff }) => {
+            if (NO_PUSH) throw new HttpError(503, 'Live updates are unavailable (MOCK_NO_PUSH)');
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive'
+            });
+            res.write(`retry: 5000\nevent: ready\ndata: ${JSON.stringify({ type: 'ready', at: new Date().toISOString() })}\n\n`);
+            eventClients.add(res);
+            const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+            req.on('close', () => {
+                clearInterval(heartbeat);
+                eventClients.delete(res);
+                console.log(`[mock] events stream closed for ${staff.email}`);
+            });
+        }
+    }
+];
+
+const handleMockControl = async (req, res, pathname) => {
+    if (pathname === '/__mock/reset' && req.method === 'POST') {
+        db = resetDb();
+        broadcast('queue.reset', null, null);
+        console.log('[mock] data reset to seed');
+        return sendJson(res, 200, { success: true, message: 'Mock data reset' });
+    }
+    if (pathname === '/__mock/applications' && req.method === 'POST') {
+        const { count = 1 } = await readJsonBody(req);
+        if (!Number.isInteger(count) || count < 1 || count > 100) throw new HttpError(400, 'count must be an integer from 1 to 100');
+        const created = Array.from({ length: count }, () => {
+            const application = createApplication(db.applications.length);
+            db.applications.push(application);
+            return application;
+        });
+        saveDb(db);
+        created.forEach((application) => broadcast('application.submitted', application.id, null, { status: application.onboarding_status }));
+        return sendJson(res, 200, { success: true, data: created });
+    }
+    throw new HttpError(404, 'Unknown mock control route');
+};
+
+const server = http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        return res.end();
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    res.on('finish', () => console.log(`[mock] ${req.method} ${url.pathname} -> ${res.statusCode}`));
+
+    try {
+        if (url.pathname.startsWith('/__mock/')) return await handleMockControl(req, res, url.pathname);
+        if (!url.pathname.startsWith(API_PREFIX)) throw new HttpError(404, 'Not found');
+
+        const routePath = url.pathname.slice(API_PREFIX.length);
+        const route = routes.find((r) => r.method === req.method && r.path.test(routePath));
+        if (!route) throw new HttpError(404, `No mock route for ${req.method} ${url.pathname}`);
+
+        const staff = route.auth ? requireStaff(req, url, Boolean(route.stream)) : null;
+        const params = routePath.match(route.path).groups || {};
+        if (route.stream) return await route.handler({ req, res, url, params, staff });
+        const body = await route.handler({ req, url, params, staff });
+        sendJson(res, 200, body);
+    } catch (err) {
+        const status = err instanceof HttpError ? err.status : 500;
+        if (status === 500) console.error('[mock] unhandled error', err);
+        sendJson(res, status, { success: false, message: err.message || 'Internal server error' });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`[mock] SabbPe bank mock listening on http://localhost:${PORT}${API_PREFIX}`);
+    console.log(`[mock] data file: ${DB_FILE}`);
+    if (NO_PUSH) console.log('[mock] live updates stream disabled');
+    console.log(`[mock] logins: ${BANK_STAFF.map((s) => `${s.email} / ${s.password} (${s.bankStaffId})`).join(', ')}`);
+});
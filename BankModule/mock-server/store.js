@@ -0,0 +1,39 @@
+// mock-server/store.js
+// JSON-file persistence for the bank mock. The whole database is small enough to
+// load once at startup and rewrite after every mutation.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createSeed } from './seed.js';
+
+const DEFAULT_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'bank-db.json');
+
+export const DB_FILE = process.env.MOCK_DB_FILE || DEFAULT_FILE;
+
+export const saveDb = (db) => {
+    fs.mkdirSync(path.dirname(DB_FILE), { recursive: true });
+    // Write-then-rename so a crash mid-write never leaves a truncated file behind.
+    const tmpFile = `${DB_FILE}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(db, null, 2));
+    fs.renameSync(tmpFile, DB_FILE);
+};
+
+export const loadDb = () => {
+    if (fs.existsSync(DB_FILE)) {
+        try {
+            return JSON.parse(fs.readFileSync(DB_FILE, 'utf8'));
+        } catch (err) {
+            console.error(`[mock] ${DB_FILE} is unreadable, reseeding:`, err.message);
+        }
+    }
+    const db = createSeed();
+    saveDb(db);
+    return db;
+};
+
+export const resetDb = () => {
+    const db = createSeed();
+    saveDb(db);
+    return db;
+};
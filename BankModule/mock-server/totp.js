@@ -0,0 +1,71 @@
+// mock-server/totp.js
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30-second steps), the defaults every
+// authenticator app understands, plus the single-use backup codes issued alongside them.
+
+import crypto from 'node:crypto';
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted to allow for clock drift.
+const DRIFT_STEPS = 1;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const BACKUP_CODE_COUNT = 10;
+
+const base32Encode = (buffer) => {
+    let bits = '';
+    for (const byte of buffer) bits += byte.toString(2).padStart(8, '0');
+    let output = '';
+    for (let i = 0; i < bits.length; i += 5) output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+    return output;
+};
+
+const base32Decode = (input) => {
+    let bits = '';
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+        bits += index.toString(2).padStart(5, '0');
+    }
+    const bytes = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    return Buffer.from(bytes);
+};
+
+// 160 bits, the key length RFC 4226 recommends for SHA-1.
+export const generateSecret = () => base32Encode(crypto.randomBytes(20));
+
+const hotp = (secret, counter) => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+    const digest = crypto.createHmac('sha1', base32Decode(secret)).update(message).digest();
+    const offset = digest[digest.length - 1] & 0x0f;
+    const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+export const totp = (secret, now = Date.now()) => hotp(secret, Math.floor(now / 1000 / STEP_SECONDS));
+
+// The time step the code belongs to, or null when it does not match. Callers remember the step
+// so the same code cannot be replayed within its window.
+export const matchTotp = (secret, code, now = Date.now()) => {
+    if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) return null;
+    const current = Math.floor(now / 1000 / STEP_SECONDS);
+    for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+        if (crypto.timingSafeEqual(Buffer.from(hotp(secret, step)), Buffer.from(code))) return step;
+    }
+    return null;
+};
+
+// Algorithm, digits and period are left at their defaults, which keeps the QR code small.
+export const otpauthUrl = ({ issuer, account, secret }) =>
+    `otpauth://totp/${encodeURIComponent(`${issuer}:${account}`)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}`;
+
+// Backup codes look like "k7qz-2m9x"; only their hashes are kept.
+export const generateBackupCodes = () =>
+    Array.from({ length: BACKUP_CODE_COUNT }, () => {
+        const raw = base32Encode(crypto.randomBytes(5)).toLowerCase();
+        return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+    });
+
+export const hashBackupCode = (code) =>
+    crypto.createHash('sha256').update(String(code).trim().toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
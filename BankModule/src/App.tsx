@@ -1,11 +1,17 @@
 import React from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { BankAuthProvider, useBankAuth } from './context/BankAuthContext';
+import { NotificationProvider } from './context/NotificationContext';
 import { BankLogin } from './pages/BankLogin';
 import { BankDashboard } from './pages/BankDashboard';
+import { AccountSecurity } from './pages/AccountSecurity';
+import { AccessDenied } from './components/AccessDenied';
+import { Permission, deniedReason } from './lib/permissions';
 
-const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const { isAuthenticated, loading } = useBankAuth();
+// Without a permission the route only needs a signed-in user, e.g. the officer's own account settings.
+const ProtectedRoute: React.FC<{ permission?: Permission; children: React.ReactNode }> = ({ permission, children }) => {
+    const { user, isAuthenticated, loading } = useBankAuth();
+    const location = useLocation();
 
     if (loading) {
         return (
@@ -16,7 +22,13 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     }
 
     if (!isAuthenticated) {
-        return <Navigate to="/login" replace />;
+        // Remember where the officer was going so a shared application link survives the login.
+        return <Navigate to="/login" replace state={{ from: location }} />;
+    }
+
+    const denied = permission ? deniedReason(user, permission) : null;
+    if (denied) {
+        return <AccessDenied reason={denied} />;
     }
 
     return <>{children}</>;
@@ -26,7 +38,9 @@ function AppContent() {
     return (
         <Routes>
             <Route path="/login" element={<BankLogin />} />
-            <Route path="/dashboard" element={<ProtectedRoute><BankDashboard /></ProtectedRoute>} />
+            <Route path="/dashboard" element={<ProtectedRoute permission="applications:view"><BankDashboard /></ProtectedRoute>} />
+            <Route path="/applications/:appId" element={<ProtectedRoute permission="applications:view"><BankDashboard /></ProtectedRoute>} />
+            <Route path="/account/security" element={<ProtectedRoute><AccountSecurity /></ProtectedRoute>} />
             <Route path="/" element={<Navigate to="/dashboard" replace />} />
             <Route path="*" element={<div className="min-h-screen flex items-center justify-center"><h1 className="text-4xl font-bold">404</h1></div>} />
         </Routes>
@@ -37,7 +51,9 @@ function App() {
     return (
         <BrowserRouter>
             <BankAuthProvider>
-                <AppContent />
+                <NotificationProvider>
+                    <AppContent />
+                </NotificationProvider>
             </BankAuthProvider>
         </BrowserRouter>
     );
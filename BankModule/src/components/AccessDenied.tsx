@@ -0,0 +1,25 @@
+// src/components/AccessDenied.tsx
+
+import React from 'react';
+import { useBankAuth } from '../context/BankAuthContext';
+import { ShieldAlert } from 'lucide-react';
+
+interface AccessDeniedProps {
+    reason: string;
+}
+
+// Shown in place of a page the signed-in user's role does not allow.
+export const AccessDenied: React.FC<AccessDeniedProps> = ({ reason }) => {
+    const { logout } = useBankAuth();
+
+    return (
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+            <div className="text-center space-y-4 max-w-md">
+                <ShieldAlert className="w-12 h-12 text-gray-400 mx-auto" />
+                <h1 className="text-xl font-semibold text-gray-900">Access denied</h1>
+                <p className="text-gray-700">{reason}. Ask an administrator if you need access.</p>
+                <button onClick={logout} className="px-6 py-2 bg-purple-600 text-white rounded-lg">Log out</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,154 @@
+// src/components/BulkDecisionDialog.tsx
+
+import React, { useState } from 'react';
+import { useBankAuth } from '../context/BankAuthContext';
+import { decideApplications, Application, ApplicationDecision, BatchDecisionResult, handleError } from '../lib/bankApi';
+import { ReasonCodePicker } from './ReasonCodePicker';
+import { CheckCircle, Loader2, X, XCircle } from 'lucide-react';
+
+interface BulkDecisionDialogProps {
+    // The currently selected applications; after a partial failure this shrinks to the ones left to retry.
+    applications: Application[];
+    onDecided: (results: BatchDecisionResult[]) => void;
+    onClose: () => void;
+}
+
+export const BulkDecisionDialog: React.FC<BulkDecisionDialogProps> = ({ applications, onDecided, onClose }) => {
+    const { token } = useBankAuth();
+    const [decision, setDecision] = useState<ApplicationDecision['decision']>('approve');
+    const [notes, setNotes] = useState('');
+    const [reasonCodes, setReasonCodes] = useState<string[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState('');
+    // Results of the last submission, labelled with the applications as they were when it was sent.
+    const [outcome, setOutcome] = useState<{ submitted: Application[]; results: BatchDecisionResult[] } | null>(null);
+
+    const blockReason = !notes.trim()
+        ? 'Add a note shared by every application'
+        : reasonCodes.length === 0
+            ? `Select at least one ${decision === 'approve' ? 'approval' : 'rejection'} reason`
+            : '';
+
+    const handleSubmit = async () => {
+        try {
+            setSubmitting(true);
+            setError('');
+            if (!token) throw new Error('No token');
+            const submitted = applications;
+            const results = await decideApplications(token, {
+                applicationIds: submitted.map((app) => app.id),
+                decision,
+                notes: notes.trim(),
+                reasonCodes
+            });
+            setOutcome({ submitted, results });
+            onDecided(results);
+        } catch (err) {
+            setError(handleError(err));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const failed = outcome ? outcome.results.filter((result) => !result.success) : [];
+    const nameOf = (id: string) => outcome?.submitted.find((app) => app.id === id)?.business_name || id;
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+                <div className="p-6 border-b flex justify-between items-center">
+                    <h2 className="text-xl font-bold">
+                        {outcome ? 'Bulk decision results' : `Decide ${applications.length} ${applications.length === 1 ? 'application' : 'applications'}`}
+                    </h2>
+                    <button onClick={onClose} disabled={submitting}><X className="w-5 h-5" /></button>
+                </div>
+
+                {outcome ? (
+                    <>
+                        <div className="p-6 space-y-4 overflow-y-auto">
+                            <p className="text-sm text-gray-700">
+                                {outcome.results.length - failed.length} of {outcome.results.length} {decision === 'approve' ? 'approved' : 'rejected'}.
+                                {failed.length > 0 && ' Failed applications are still selected so you can retry them.'}
+                            </p>
+                            <ul className="divide-y border rounded-lg">
+                                {outcome.results.map((result) => (
+                                    <li key={result.applicationId} className="p-3 flex items-start gap-3 text-sm">
+                                        {result.success
+                                            ? <CheckCircle className="w-5 h-5 text-green-600 shrink-0" />
+                                            : <XCircle className="w-5 h-5 text-red-600 shrink-0" />}
+                                        <div className="min-w-0">
+                                            <p className="font-medium truncate">{nameOf(result.applicationId)} <span className="text-gray-500">({result.applicationId})</span></p>
+                                            <p className={result.success ? 'text-gray-600' : 'text-red-700'}>
+                                                {result.success ? `Now ${result.onboardingStatus}` : result.message || 'Decision failed'}
+                                            </p>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                        <div className="p-6 border-t bg-gray-50 flex justify-end gap-3">
+                            {failed.length > 0 && applications.length > 0 && (
+                                <button onClick={() => setOutcome(null)} className="px-6 py-3 border rounded-lg">Retry {applications.length} selected</button>
+                            )}
+                            <button onClick={onClose} className="px-6 py-3 bg-purple-600 text-white rounded-lg">Done</button>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div className="p-6 space-y-5 overflow-y-auto">
+                            <div className="flex gap-2">
+                                {(['approve', 'reject'] as const).map((option) => (
+                                    <button
+                                        key={option}
+                                        onClick={() => {
+                                            // Approval and rejection reasons are separate lists, so a switch starts over.
+                                            if (option !== decision) setReasonCodes([]);
+                                            setDecision(option);
+                                        }}
+                                        disabled={submitting}
+                                        className={`px-4 py-2 rounded-lg border ${decision === option ? (option === 'approve' ? 'bg-green-600 border-green-600' : 'bg-red-600 border-red-600') + ' text-white' : 'bg-white hover:bg-gray-100'}`}
+                                    >
+                                        {option === 'approve' ? 'Approve all' : 'Reject all'}
+                                    </button>
+                                ))}
+                            </div>
+
+                            <div>
+                                <p className="text-sm font-semibold mb-2">Applications</p>
+                                <ul className="text-sm text-gray-700 max-h-32 overflow-y-auto border rounded-lg divide-y">
+                                    {applications.map((app) => (
+                                        <li key={app.id} className="px-3 py-2 truncate">{app.business_name} • {app.full_name}</li>
+                                    ))}
+                                </ul>
+                            </div>
+
+                            <div>
+                                <h3 className="font-semibold mb-2">🏷️ {decision === 'approve' ? 'Approval' : 'Rejection'} Reasons</h3>
+                                <ReasonCodePicker selected={reasonCodes} onChange={setReasonCodes} decision={decision} disabled={submitting} />
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-semibold mb-2">📝 Shared Note</label>
+                                <textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Recorded on every application in this batch..." rows={4} className="w-full px-4 py-3 border rounded-lg" disabled={submitting} />
+                            </div>
+
+                            {error && <p className="text-sm text-red-700">{error}</p>}
+                        </div>
+                        <div className="p-6 border-t bg-gray-50 flex justify-end items-center gap-3">
+                            {blockReason && <p className="text-sm text-gray-600 mr-auto">{blockReason}</p>}
+                            <button onClick={onClose} className="px-6 py-3 border rounded-lg" disabled={submitting}>Cancel</button>
+                            <button
+                                onClick={handleSubmit}
+                                disabled={submitting || Boolean(blockReason) || applications.length === 0}
+                                className={`px-6 py-3 text-white rounded-lg disabled:opacity-50 flex items-center gap-2 ${decision === 'approve' ? 'bg-green-600' : 'bg-red-600'}`}
+                            >
+                                {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                                {decision === 'approve' ? 'Approve' : 'Reject'} {applications.length}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
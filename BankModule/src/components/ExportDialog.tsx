@@ -0,0 +1,170 @@
+// src/components/ExportDialog.tsx
+
+import React, { useState } from 'react';
+import { useBankAuth } from '../context/BankAuthContext';
+import { getDecisionLog, DecisionLogEntry, PagedResult, Application, handleError } from '../lib/bankApi';
+import { ExportColumn, ExportFormat, exportRows, exportFilename, fetchAllPages, loadColumnSelection, storeColumnSelection, MAX_EXPORT_ROWS } from '../lib/dataExport';
+import { APPLICATION_COLUMNS, DECISION_COLUMNS } from '../lib/exportColumns';
+import { deniedReason } from '../lib/permissions';
+import { Download, Loader2, ShieldAlert, X } from 'lucide-react';
+
+type Dataset = 'applications' | 'decisions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The last `days` days up to today, as inclusive YYYY-MM-DD dates.
+const lastDays = (days: number) => ({
+    from: new Date(Date.now() - (days - 1) * DAY_MS).toISOString().slice(0, 10),
+    to: new Date().toISOString().slice(0, 10)
+});
+
+interface ExportDialogProps {
+    // Fetches one page of pending applications with the dashboard's current search and sort.
+    fetchApplicationsPage: (page: number, pageSize: number) => Promise<PagedResult<Application>>;
+    onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ fetchApplicationsPage, onClose }) => {
+    const { user, token } = useBankAuth();
+    const userId = user?.userId || 'anonymous';
+    const [dataset, setDataset] = useState<Dataset>('applications');
+    const [format, setFormat] = useState<ExportFormat>('xlsx');
+    const [masked, setMasked] = useState(true);
+    const unmaskDenied = deniedReason(user, 'data:export_unmasked');
+    const [range, setRange] = useState(lastDays(30));
+    const [selection, setSelection] = useState<Record<Dataset, string[]>>(() => ({
+        applications: loadColumnSelection(userId, 'applications', APPLICATION_COLUMNS),
+        decisions: loadColumnSelection(userId, 'decisions', DECISION_COLUMNS)
+    }));
+    const [exporting, setExporting] = useState(false);
+    const [error, setError] = useState('');
+
+    const columns: ExportColumn<Application>[] | ExportColumn<DecisionLogEntry>[] = dataset === 'applications' ? APPLICATION_COLUMNS : DECISION_COLUMNS;
+    const selectedOf = <T,>(all: ExportColumn<T>[]) => all.filter((column) => selection[dataset].includes(column.id));
+    const selected = dataset === 'applications' ? selectedOf(APPLICATION_COLUMNS) : selectedOf(DECISION_COLUMNS);
+    const revealsSensitive = !masked && selected.some((column) => column.sensitive);
+
+    const toggleColumn = (id: string) => {
+        const current = selection[dataset];
+        // Keep the column order of the definitions, not the order of clicks.
+        const next = current.includes(id)
+            ? current.filter((item) => item !== id)
+            : columns.map((column) => column.id).filter((columnId) => columnId === id || current.includes(columnId));
+        setSelection({ ...selection, [dataset]: next });
+    };
+
+    const handleExport = async () => {
+        try {
+            setExporting(true);
+            setError('');
+            if (!token) throw new Error('No authentication token');
+            // Each dataset pairs its rows with its own columns, so accessors are checked against the row type.
+            if (dataset === 'applications') {
+                const rows = await fetchAllPages(fetchApplicationsPage);
+                storeColumnSelection(userId, dataset, selection[dataset]);
+                exportRows(rows, selectedOf(APPLICATION_COLUMNS), {
+                    format,
+                    masked,
+                    filename: exportFilename('pending-applications'),
+                    sheetName: 'Pending applications'
+                });
+            } else {
+                const rows = await fetchAllPages((page, pageSize) => getDecisionLog(token, { page, pageSize, from: range.from, to: range.to }));
+                storeColumnSelection(userId, dataset, selection[dataset]);
+                exportRows(rows, selectedOf(DECISION_COLUMNS), {
+                    format,
+                    masked,
+                    filename: exportFilename(`bank-decisions-${range.from}-to-${range.to}`),
+                    sheetName: 'Decision log'
+                });
+            }
+            onClose();
+        } catch (err) {
+            setError(handleError(err));
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+                <div className="p-6 border-b flex justify-between items-center">
+                    <h2 className="text-xl font-bold flex items-center gap-2"><Download className="w-5 h-5" /> Export</h2>
+                    <button onClick={onClose} disabled={exporting}><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-6 space-y-5 overflow-y-auto">
+                    <div className="flex gap-2">
+                        {([['applications', 'Pending applications (current search)'], ['decisions', 'Decision log']] as const).map(([id, label]) => (
+                            <button
+                                key={id}
+                                onClick={() => setDataset(id)}
+                                className={`px-4 py-2 rounded-lg border ${dataset === id ? 'bg-purple-600 text-white border-purple-600' : 'bg-white hover:bg-gray-100'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {dataset === 'decisions' && (
+                        <div className="flex gap-4">
+                            <label className="flex items-center gap-2 text-sm">
+                                From
+                                <input type="date" value={range.from} max={range.to} onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })} className="px-3 py-2 border rounded-lg" />
+                            </label>
+                            <label className="flex items-center gap-2 text-sm">
+                                To
+                                <input type="date" value={range.to} min={range.from} onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })} className="px-3 py-2 border rounded-lg" />
+                            </label>
+                        </div>
+                    )}
+
+                    <div>
+                        <p className="text-sm font-semibold mb-2">Columns</p>
+                        <div className="grid grid-cols-3 gap-2">
+                            {columns.map((column) => (
+                                <label key={column.id} className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" checked={selection[dataset].includes(column.id)} onChange={() => toggleColumn(column.id)} />
+                                    {column.label}
+                                    {column.sensitive && <span className="text-xs text-amber-700">(sensitive)</span>}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex gap-6 items-center">
+                        <label className="flex items-center gap-2 text-sm">
+                            Format
+                            <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className="px-3 py-2 border rounded-lg">
+                                <option value="xlsx">Excel (.xlsx)</option>
+                                <option value="csv">CSV (.csv)</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 text-sm" title={unmaskDenied || undefined}>
+                            <input type="checkbox" checked={masked} onChange={(e) => setMasked(e.target.checked)} disabled={Boolean(unmaskDenied)} />
+                            Mask sensitive fields (email)
+                        </label>
+                    </div>
+
+                    {unmaskDenied && <p className="text-xs text-gray-500">{unmaskDenied}; sensitive columns are always masked.</p>}
+                    {revealsSensitive && (
+                        <p className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800 flex items-start gap-2">
+                            <ShieldAlert className="w-5 h-5 shrink-0" />
+                            This export will contain unmasked personal data. Handle the file under the bank's data protection policy.
+                        </p>
+                    )}
+                    <p className="text-xs text-gray-500">Exports include every matching row, up to {MAX_EXPORT_ROWS.toLocaleString()}.</p>
+                    {error && <p className="text-sm text-red-700">{error}</p>}
+                </div>
+
+                <div className="p-6 border-t bg-gray-50 flex justify-end gap-3">
+                    <button onClick={onClose} className="px-6 py-3 border rounded-lg" disabled={exporting}>Cancel</button>
+                    <button onClick={handleExport} className="px-6 py-3 bg-purple-600 text-white rounded-lg disabled:opacity-50 flex items-center gap-2" disabled={exporting || selected.length === 0}>
+                        {exporting && <Loader2 className="w-4 h-4 animate-spin" />} Export
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,29 @@
+// src/components/QrCode.tsx
+
+import React, { useMemo } from 'react';
+import { encodeQr } from '../lib/qrCode';
+
+interface QrCodeProps {
+    value: string;
+    // Rendered width and height in pixels.
+    size?: number;
+    label: string;
+}
+
+// Scanners need a light border of four modules around the code.
+const QUIET_ZONE = 4;
+
+export const QrCode: React.FC<QrCodeProps> = ({ value, size = 200, label }) => {
+    const modules = useMemo(() => encodeQr(value), [value]);
+    const extent = modules.length + QUIET_ZONE * 2;
+    const path = modules
+        .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '')))
+        .join('');
+
+    return (
+        <svg role="img" aria-label={label} width={size} height={size} viewBox={`0 0 ${extent} ${extent}`} shapeRendering="crispEdges" className="bg-white">
+            <rect width={extent} height={extent} fill="#fff" />
+            <path d={path} fill="#000" />
+        </svg>
+    );
+};
@@ -0,0 +1,50 @@
+// src/components/ReasonCodePicker.tsx
+
+import React from 'react';
+import { REASON_CATEGORIES, REASON_CODES } from '../data/reasonCodes';
+
+interface ReasonCodePickerProps {
+    selected: string[];
+    // Which half of the catalogue to offer; rejection reasons unless set.
+    decision?: 'approve' | 'reject';
+    onChange: (codes: string[]) => void;
+    disabled?: boolean;
+}
+
+export const ReasonCodePicker: React.FC<ReasonCodePickerProps> = ({ selected, onChange, decision = 'reject', disabled }) => {
+    const toggle = (code: string) => {
+        onChange(selected.includes(code) ? selected.filter((c) => c !== code) : [...selected, code]);
+    };
+
+    return (
+        <div className="space-y-3">
+            {REASON_CATEGORIES.filter((category) => category.decision === decision).map((category) => {
+                const codes = REASON_CODES.filter((reason) => reason.category === category.id);
+                if (codes.length === 0) return null;
+                return (
+                    <div key={category.id}>
+                        <p className="text-xs text-gray-600 mb-1">{category.label}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {codes.map((reason) => {
+                                const active = selected.includes(reason.code);
+                                return (
+                                    <button
+                                        key={reason.code}
+                                        type="button"
+                                        onClick={() => toggle(reason.code)}
+                                        disabled={disabled}
+                                        aria-pressed={active}
+                                        title={reason.merchantMessage}
+                                        className={`px-3 py-1 rounded-full text-sm border ${active ? (decision === 'approve' ? 'bg-green-600 text-white border-green-600' : 'bg-red-600 text-white border-red-600') : 'bg-white hover:bg-gray-100'}`}
+                                    >
+                                        {reason.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { bankLogin, handleError } from '../lib/bankApi';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { bankLogin, verifyMfaCode, refreshSession, revokeSession, isMfaChallenge, MfaChallengeExpiredError, BankLoginResponse, handleError } from '../lib/bankApi';
+import { refreshAccessToken, setSessionHandlers } from '../lib/authFetch';
+import { isTokenExpired, refreshDelay } from '../lib/jwt';
 
 export interface BankUser {
     userId: string;
@@ -9,48 +11,154 @@ export interface BankUser {
     bankStaffId: string;
 }
 
+// The password was accepted and the account has two-factor on, so a code is needed before there
+// is a session. Held in memory only: a reload starts the sign-in again.
+export interface PendingMfa {
+    email: string;
+    expiresAt: string;
+}
+
 interface BankAuthContextType {
     user: BankUser | null;
     token: string | null;
     isAuthenticated: boolean;
+    mfaPending: PendingMfa | null;
     loading: boolean;
     error: string | null;
-    login: (email: string, password: string) => Promise<void>;
+    // Resolves 'mfa_required' when verifyMfa must follow before the user is signed in.
+    login: (email: string, password: string) => Promise<'authenticated' | 'mfa_required'>;
+    verifyMfa: (code: string) => Promise<void>;
+    cancelMfa: () => void;
     logout: () => void;
     clearError: () => void;
 }
 
 const BankAuthContext = createContext<BankAuthContextType | undefined>(undefined);
 
+const TOKEN_KEY = 'bank_token';
+const REFRESH_TOKEN_KEY = 'bank_refresh_token';
+const USER_KEY = 'bank_user';
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please log in again.';
+
+const storeSession = (session: BankLoginResponse) => {
+    localStorage.setItem(TOKEN_KEY, session.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+    localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+};
+
+const clearStoredSession = () => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+};
+
+// The saved session, unless its token has expired with no refresh token to renew it.
+const readStoredSession = (): { token: string; user: BankUser } | null => {
+    const storedToken = localStorage.getItem(TOKEN_KEY);
+    const storedUser = localStorage.getItem(USER_KEY);
+    if (!storedToken || !storedUser) return null;
+    if (isTokenExpired(storedToken) && !localStorage.getItem(REFRESH_TOKEN_KEY)) {
+        clearStoredSession();
+        return null;
+    }
+    try {
+        return { token: storedToken, user: JSON.parse(storedUser) };
+    } catch (err) {
+        clearStoredSession();
+        return null;
+    }
+};
+
 export const BankAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const [user, setUser] = useState<BankUser | null>(null);
-    const [token, setToken] = useState<string | null>(null);
+    // Read synchronously, so a reload renders the page it was on instead of bouncing through login.
+    const [initialSession] = useState(readStoredSession);
+    const [user, setUser] = useState<BankUser | null>(initialSession?.user || null);
+    const [token, setToken] = useState<string | null>(initialSession?.token || null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [mfaPending, setMfaPending] = useState<PendingMfa | null>(null);
+    const mfaTokenRef = useRef<string | null>(null);
+    const tokenRef = useRef(token);
+    tokenRef.current = token;
 
-    useEffect(() => {
-        const storedToken = localStorage.getItem('bank_token');
-        const storedUser = localStorage.getItem('bank_user');
-        if (storedToken && storedUser) {
-            try {
-                setToken(storedToken);
-                setUser(JSON.parse(storedUser));
-            } catch (err) {
-                localStorage.removeItem('bank_token');
-                localStorage.removeItem('bank_user');
-            }
+    const endSession = (message: string | null) => {
+        setUser(null);
+        setToken(null);
+        setError(message);
+        clearStoredSession();
+    };
+
+    // Swaps the stored refresh token for a new pair. Refresh tokens are single-use, so when another
+    // tab got there first its fresh token is adopted instead.
+    const refresh = async (): Promise<string | null> => {
+        const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+        if (!refreshToken) return null;
+        try {
+            const session = await refreshSession(refreshToken);
+            storeSession(session);
+            setToken(session.token);
+            setUser(session.user);
+            return session.token;
+        } catch {
+            const stored = localStorage.getItem(TOKEN_KEY);
+            if (!stored || stored === tokenRef.current || isTokenExpired(stored)) return null;
+            setToken(stored);
+            return stored;
         }
+    };
+
+    useEffect(() => {
+        setSessionHandlers({ refresh, onSessionExpired: () => endSession(SESSION_EXPIRED_MESSAGE) });
+        return () => setSessionHandlers(null);
+    }, []);
+
+    // Renew the token shortly before it expires; if that fails, log out before requests start failing.
+    useEffect(() => {
+        if (!token) return;
+        const delay = refreshDelay(token);
+        if (delay === null) return;
+        const timer = window.setTimeout(async () => {
+            if (!(await refreshAccessToken())) endSession(SESSION_EXPIRED_MESSAGE);
+        }, delay);
+        return () => window.clearTimeout(timer);
+    }, [token]);
+
+    // Follow logins, logouts and renewals made in other tabs.
+    useEffect(() => {
+        const onStorage = (event: StorageEvent) => {
+            if (event.key !== null && event.key !== TOKEN_KEY) return;
+            const stored = readStoredSession();
+            setToken(stored?.token || null);
+            setUser(stored?.user || null);
+        };
+        window.addEventListener('storage', onStorage);
+        return () => window.removeEventListener('storage', onStorage);
     }, []);
 
+    const startSession = (session: BankLoginResponse) => {
+        setToken(session.token);
+        setUser(session.user);
+        storeSession(session);
+    };
+
+    const cancelMfa = () => {
+        mfaTokenRef.current = null;
+        setMfaPending(null);
+    };
+
     const login = async (email: string, password: string) => {
         try {
             setLoading(true);
             setError(null);
+            cancelMfa();
             const response = await bankLogin({ email, password });
-            setToken(response.token);
-            setUser(response.user);
-            localStorage.setItem('bank_token', response.token);
-            localStorage.setItem('bank_user', JSON.stringify(response.user));
+            if (isMfaChallenge(response)) {
+                mfaTokenRef.current = response.mfaToken;
+                setMfaPending({ email, expiresAt: response.expiresAt });
+                return 'mfa_required';
+            }
+            startSession(response);
+            return 'authenticated';
         } catch (err) {
             const errorMessage = handleError(err);
             setError(errorMessage);
@@ -60,18 +168,34 @@ export const BankAuthProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         }
     };
 
+    const verifyMfa = async (code: string) => {
+        try {
+            setLoading(true);
+            setError(null);
+            if (!mfaTokenRef.current) throw new MfaChallengeExpiredError('Please enter your password again');
+            const session = await verifyMfaCode(mfaTokenRef.current, code);
+            cancelMfa();
+            startSession(session);
+        } catch (err) {
+            // Back to the password step; a wrong code keeps the challenge for another try.
+            if (err instanceof MfaChallengeExpiredError) cancelMfa();
+            setError(handleError(err));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const logout = () => {
-        setUser(null);
-        setToken(null);
-        setError(null);
-        localStorage.removeItem('bank_token');
-        localStorage.removeItem('bank_user');
+        const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+        if (refreshToken) revokeSession(refreshToken).catch(() => undefined);
+        endSession(null);
     };
 
     const clearError = () => setError(null);
 
     return (
-        <BankAuthContext.Provider value={{ user, token, isAuthenticated: !!token, loading, error, login, logout, clearError }}>
+        <BankAuthContext.Provider value={{ user, token, isAuthenticated: !!token, mfaPending, loading, error, login, verifyMfa, cancelMfa, logout, clearError }}>
             {children}
         </BankAuthContext.Provider>
     );
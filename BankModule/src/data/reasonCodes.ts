@@ -0,0 +1,53 @@
+// src/data/reasonCodes.ts
+// Catalogue of structured reasons for bank decisions: rejection reasons, plus the
+// approval grounds a bulk approval records. Edit this list (and REASON_CODES in
+// mock-server/server.js, which refuses other codes) to add, retire or reword codes;
+// codes are stored with each decision, so never reuse a retired code for a
+// different meaning.
+
+export interface ReasonCategory {
+    id: string;
+    label: string;
+    // The decision whose reason picker lists this category.
+    decision: 'approve' | 'reject';
+}
+
+export interface ReasonCode {
+    code: string;
+    category: string;
+    label: string;
+    // Wording used when the reason is passed on to the merchant.
+    merchantMessage: string;
+}
+
+export const REASON_CATEGORIES: ReasonCategory[] = [
+    { id: 'approval', label: 'Approved because', decision: 'approve' },
+    { id: 'documents', label: 'Documents', decision: 'reject' },
+    { id: 'identity', label: 'Identity', decision: 'reject' },
+    { id: 'location', label: 'Location', decision: 'reject' },
+    { id: 'risk', label: 'Risk & Compliance', decision: 'reject' },
+    { id: 'other', label: 'Other', decision: 'reject' }
+];
+
+export const REASON_CODES: ReasonCode[] = [
+    { code: 'DOCS_VERIFIED', category: 'approval', label: 'Documents verified', merchantMessage: 'Your documents have been verified.' },
+    { code: 'CKYC_VERIFIED', category: 'approval', label: 'CKYC record matches', merchantMessage: 'Your details match your Central KYC record.' },
+    { code: 'ACCOUNT_VERIFIED', category: 'approval', label: 'Settlement account verified', merchantMessage: 'Your settlement bank account has been verified.' },
+    { code: 'LOW_RISK', category: 'approval', label: 'Low-risk business category', merchantMessage: 'Your application has been approved.' },
+    { code: 'DOC_MISMATCH', category: 'documents', label: 'Document details mismatch', merchantMessage: 'The details on your documents do not match the details you entered.' },
+    { code: 'DOC_BLURRY', category: 'documents', label: 'Blurry or unreadable image', merchantMessage: 'One or more documents are blurry or unreadable. Please upload a clear photo.' },
+    { code: 'ACCOUNT_NAME_MISMATCH', category: 'documents', label: 'Bank account not in merchant name', merchantMessage: 'The settlement bank account must be in your or your business’s name.' },
+    { code: 'PAN_INVALID', category: 'identity', label: 'PAN invalid', merchantMessage: 'The PAN you provided could not be verified.' },
+    { code: 'CKYC_MISMATCH', category: 'identity', label: 'CKYC record mismatch', merchantMessage: 'Your details do not match your Central KYC record.' },
+    { code: 'LOCATION_MISMATCH', category: 'location', label: 'Location does not match business address', merchantMessage: 'Your captured location does not match your business address.' },
+    { code: 'NEGATIVE_LIST', category: 'risk', label: 'Merchant on negative list', merchantMessage: 'Your application could not be approved.' },
+    { code: 'HIGH_RISK_CATEGORY', category: 'risk', label: 'High-risk business category', merchantMessage: 'We are unable to onboard businesses in this category.' },
+    { code: 'SUSPECTED_FRAUD', category: 'risk', label: 'Suspected fraud', merchantMessage: 'Your application could not be approved.' },
+    { code: 'OTHER', category: 'other', label: 'Other (see notes)', merchantMessage: 'Your application needs attention. Please contact support.' }
+];
+
+const BY_CODE = new Map(REASON_CODES.map((reason) => [reason.code, reason]));
+
+// Unknown codes (e.g. retired ones on old decisions) fall back to the raw code.
+export const getReasonCode = (code: string): ReasonCode =>
+    BY_CODE.get(code) || { code, category: 'other', label: code, merchantMessage: '' };
@@ -0,0 +1,108 @@
+// src/hooks/usePagedList.ts
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PagedResult } from '../lib/bankApi';
+
+export interface PagedList<T> {
+    items: T[];
+    total: number;
+    hasMore: boolean;
+    pagesLoaded: number;
+    loading: boolean;
+    loadingMore: boolean;
+    error: string;
+    loadMore: () => Promise<void>;
+    reload: () => Promise<void>;
+    // Local edits for pushed events, applied without refetching.
+    updateItem: (id: string, update: (item: T) => T) => void;
+    removeItem: (id: string) => void;
+}
+
+// Accumulates pages of a server-side list for infinite scroll. Changing `resetKey` (the
+// serialized filters and sort) starts over; `initialPages` restores a scroll depth, e.g. from the URL.
+export const usePagedList = <T extends { id: string }>(
+    fetchPage: (page: number) => Promise<PagedResult<T>>,
+    resetKey: string,
+    initialPages = 1
+): PagedList<T> => {
+    const [items, setItems] = useState<T[]>([]);
+    const [total, setTotal] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
+    const [pagesLoaded, setPagesLoaded] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [error, setError] = useState('');
+    const itemsRef = useRef(items);
+    itemsRef.current = items;
+
+    const fetchPageRef = useRef(fetchPage);
+    fetchPageRef.current = fetchPage;
+    // Responses for an older resetKey are dropped when they arrive late.
+    const generation = useRef(0);
+
+    const loadPages = useCallback(async (pageCount: number) => {
+        const current = ++generation.current;
+        setLoading(true);
+        setError('');
+        try {
+            const collected: T[] = [];
+            let last: PagedResult<T> | null = null;
+            for (let page = 1; page <= pageCount; page++) {
+                last = await fetchPageRef.current(page);
+                collected.push(...last.data);
+                if (!last.hasMore) break;
+            }
+            if (current !== generation.current || !last) return;
+            setItems(collected);
+            setTotal(last.total);
+            setHasMore(last.hasMore);
+            setPagesLoaded(last.page);
+        } catch (err) {
+            if (current === generation.current) setError(err instanceof Error ? err.message : 'Failed to load');
+        } finally {
+            if (current === generation.current) setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        setItems([]);
+        loadPages(Math.max(1, initialPages));
+        // initialPages only matters for the first load of each resetKey.
+    }, [resetKey, loadPages]);
+
+    const loadMore = useCallback(async () => {
+        if (loading || loadingMore || !hasMore) return;
+        const current = generation.current;
+        setLoadingMore(true);
+        try {
+            const result = await fetchPageRef.current(pagesLoaded + 1);
+            if (current !== generation.current) return;
+            setItems((existing) => {
+                const seen = new Set(existing.map((item) => item.id));
+                return [...existing, ...result.data.filter((item) => !seen.has(item.id))];
+            });
+            setTotal(result.total);
+            setHasMore(result.hasMore);
+            setPagesLoaded(result.page);
+        } catch (err) {
+            if (current === generation.current) setError(err instanceof Error ? err.message : 'Failed to load');
+        } finally {
+            setLoadingMore(false);
+        }
+    }, [loading, loadingMore, hasMore, pagesLoaded]);
+
+    // Re-fetches everything loaded so far, keeping the scroll depth after a decision removes rows.
+    const reload = useCallback(() => loadPages(Math.max(1, pagesLoaded)), [loadPages, pagesLoaded]);
+
+    const updateItem = useCallback((id: string, update: (item: T) => T) => {
+        setItems((existing) => existing.map((item) => (item.id === id ? update(item) : item)));
+    }, []);
+
+    const removeItem = useCallback((id: string) => {
+        if (!itemsRef.current.some((item) => item.id === id)) return;
+        setItems((existing) => existing.filter((item) => item.id !== id));
+        setTotal((count) => Math.max(0, count - 1));
+    }, []);
+
+    return { items, total, hasMore, pagesLoaded, loading, loadingMore, error, loadMore, reload, updateItem, removeItem };
+};
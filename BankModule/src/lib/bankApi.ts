@@ -1,4 +1,6 @@
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api/bank';
+import { authFetch } from './authFetch';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5001/api/bank';
 
 export interface BankLoginPayload {
     email: string;
@@ -9,6 +11,8 @@ export interface BankLoginResponse {
     success: boolean;
     message: string;
     token: string;
+    // Single-use; exchanged for a new pair by refreshSession.
+    refreshToken: string;
     user: {
         userId: string;
         email: string;
@@ -18,6 +22,30 @@ export interface BankLoginResponse {
     };
 }
 
+// Returned by login instead of a session when the account has two-factor authentication on.
+export interface MfaChallenge {
+    success: boolean;
+    message: string;
+    mfaRequired: true;
+    // Single-use; exchanged for a session by verifyMfaCode.
+    mfaToken: string;
+    expiresAt: string;
+}
+
+export interface MfaStatus {
+    enabled: boolean;
+    backupCodesRemaining: number;
+}
+
+export interface MfaEnrolment {
+    // Base32, for typing into an authenticator app that cannot scan.
+    secret: string;
+    otpauthUrl: string;
+}
+
+export const isMfaChallenge = (response: BankLoginResponse | MfaChallenge): response is MfaChallenge =>
+    'mfaRequired' in response && response.mfaRequired === true;
+
 export interface Application {
     id: string;
     full_name: string;
@@ -28,12 +56,101 @@ export interface Application {
     updated_at: string;
 }
 
+export type ApplicationSortField = 'created_at' | 'updated_at' | 'business_name' | 'full_name';
+
+// Paging, sorting and search for the application list. Omitted fields use the backend
+// defaults (page 1, 25 rows, oldest first).
+export interface ApplicationQuery {
+    page?: number;
+    pageSize?: number;
+    sortBy?: ApplicationSortField;
+    sortDir?: 'asc' | 'desc';
+    search?: string;
+    // ISO timestamp; only applications created before it. Used to count SLA breaches.
+    createdBefore?: string;
+}
+
+// One bank decision with the applicant it was made on. Newest first in the decision log.
+// One recorded decision, as stored by the backend.
+export interface DecisionRecord {
+    id: string;
+    application_id: string;
+    from_status: string;
+    to_status: string;
+    decision: 'approve' | 'reject';
+    notes: string;
+    reason_codes: string[];
+    bank_staff_id: string;
+    decided_by: string;
+    decided_at: string;
+}
+
+// A decision with the applicant joined in, as listed by the decision log.
+export interface DecisionLogEntry extends DecisionRecord {
+    merchant_id: string;
+    full_name: string;
+    email: string;
+    business_name: string;
+}
+
+// from/to are inclusive YYYY-MM-DD dates on decided_at.
+export interface DecisionLogQuery {
+    page?: number;
+    pageSize?: number;
+    from?: string;
+    to?: string;
+}
+
+export interface PagedResult<T> {
+    data: T[];
+    total: number;
+    page: number;
+    pageSize: number;
+    hasMore: boolean;
+}
+
+const toQueryString = (query: ApplicationQuery | DecisionLogQuery): string => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const qs = params.toString();
+    return qs ? `?${qs}` : '';
+};
+
 export interface ApplicationDecision {
     decision: 'approve' | 'reject';
     notes: string;
+    reasonCodes?: string[];
 }
 
-export const bankLogin = async (payload: BankLoginPayload): Promise<BankLoginResponse> => {
+// Shared note and reasons applied to every application in the batch. The note and at least one
+// reason code for the chosen decision are required.
+export interface BatchDecision extends ApplicationDecision {
+    applicationIds: string[];
+}
+
+export interface ApplicationDecisionResponse {
+    success: boolean;
+    message: string;
+    application: Application;
+    decision: DecisionRecord;
+}
+
+export interface BatchDecisionResult {
+    applicationId: string;
+    success: boolean;
+    onboardingStatus?: string;
+    decisionId?: string;
+    // HTTP status and message for an application that could not be decided.
+    statusCode?: number;
+    message?: string;
+}
+
+// Upper bound on applications per batch call, matching the backend.
+export const MAX_BATCH_SIZE = 100;
+
+export const bankLogin = async (payload: BankLoginPayload): Promise<BankLoginResponse | MfaChallenge> => {
     const response = await fetch(`${API_BASE_URL}/auth/login`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -43,8 +160,129 @@ export const bankLogin = async (payload: BankLoginPayload): Promise<BankLoginRes
     return response.json();
 };
 
-export const getPendingApplications = async (token: string): Promise<Application[]> => {
-    const response = await fetch(`${API_BASE_URL}/applications/pending`, {
+// The challenge timed out or ran out of attempts, so the password has to be entered again.
+export class MfaChallengeExpiredError extends Error {}
+
+// Completes a login that returned an MfaChallenge. `code` is an authenticator code or a backup code.
+export const verifyMfaCode = async (mfaToken: string, code: string): Promise<BankLoginResponse> => {
+    const response = await fetch(`${API_BASE_URL}/auth/mfa/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mfaToken, code })
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        const message = error.message || 'Verification failed';
+        throw response.status === 401 ? new MfaChallengeExpiredError(message) : new Error(message);
+    }
+    return response.json();
+};
+
+export const getMfaStatus = async (token: string): Promise<MfaStatus> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to fetch two-factor status');
+    }
+    const data = await response.json();
+    return data.data;
+};
+
+// Starts enrolment. Nothing changes for the account until activateMfa confirms a code.
+export const enrollMfa = async (token: string): Promise<MfaEnrolment> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa/enroll`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to start two-factor setup');
+    }
+    const data = await response.json();
+    return data.data;
+};
+
+// Turns two-factor on and returns the backup codes, which are never shown again.
+export const activateMfa = async (token: string, code: string): Promise<string[]> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa/activate`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ code })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to turn on two-factor authentication');
+    }
+    const data = await response.json();
+    return data.data.backupCodes;
+};
+
+// Replaces every backup code; the old ones stop working.
+export const regenerateBackupCodes = async (token: string, code: string): Promise<string[]> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa/backup-codes`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ code })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to issue new backup codes');
+    }
+    const data = await response.json();
+    return data.data.backupCodes;
+};
+
+export const disableMfa = async (token: string, code: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa/disable`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ code })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to turn off two-factor authentication');
+    }
+};
+
+// Swaps a refresh token for a new access token and refresh token.
+export const refreshSession = async (refreshToken: string): Promise<BankLoginResponse> => {
+    const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+    });
+    if (!response.ok) throw new Error('Session refresh failed');
+    return response.json();
+};
+
+// Revokes the refresh token on logout so it cannot be used again.
+export const revokeSession = async (refreshToken: string): Promise<void> => {
+    await fetch(`${API_BASE_URL}/auth/logout`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+    });
+};
+
+export const getPendingApplications = async (token: string, query: ApplicationQuery = {}): Promise<PagedResult<Application>> => {
+    const response = await authFetch(`${API_BASE_URL}/applications/pending${toQueryString(query)}`, {
         headers: {
             'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
@@ -55,11 +293,53 @@ export const getPendingApplications = async (token: string): Promise<Application
         throw new Error(error.message || 'Failed to fetch pending KYCs');
     }
     const data = await response.json();
-    return data.data || [];
+    return {
+        data: data.data || [],
+        total: data.total ?? (data.data || []).length,
+        page: data.page ?? 1,
+        pageSize: data.pageSize ?? (data.data || []).length,
+        hasMore: Boolean(data.hasMore)
+    };
+};
+
+export const getApplication = async (token: string, appId: string): Promise<Application> => {
+    const response = await authFetch(`${API_BASE_URL}/applications/${encodeURIComponent(appId)}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to fetch application');
+    }
+    const data = await response.json();
+    return data.data;
 };
 
-export const decideApplication = async (token: string, appId: string, payload: ApplicationDecision): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/applications/decide/${appId}`, {
+export const getDecisionLog = async (token: string, query: DecisionLogQuery = {}): Promise<PagedResult<DecisionLogEntry>> => {
+    const response = await authFetch(`${API_BASE_URL}/applications/decisions${toQueryString(query)}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to fetch decision log');
+    }
+    const data = await response.json();
+    return {
+        data: data.data || [],
+        total: data.total ?? (data.data || []).length,
+        page: data.page ?? 1,
+        pageSize: data.pageSize ?? (data.data || []).length,
+        hasMore: Boolean(data.hasMore)
+    };
+};
+
+export const decideApplication = async (token: string, appId: string, payload: ApplicationDecision): Promise<ApplicationDecisionResponse> => {
+    const response = await authFetch(`${API_BASE_URL}/applications/decide/${appId}`, {
         method: 'POST',
         headers: {
             'Authorization': `Bearer ${token}`,
@@ -67,10 +347,34 @@ export const decideApplication = async (token: string, appId: string, payload: A
         },
         body: JSON.stringify(payload)
     });
-    if (!response.ok) throw new Error('Decision failed');
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Decision failed');
+    }
     return response.json();
 };
 
+// Decides several applications in one call. Each one succeeds or fails on its own, so check every result.
+export const decideApplications = async (token: string, payload: BatchDecision): Promise<BatchDecisionResult[]> => {
+    const response = await authFetch(`${API_BASE_URL}/applications/decide-batch`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(payload)
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Bulk decision failed');
+    }
+    const data = await response.json();
+    return data.results || [];
+};
+
+// EventSource cannot send headers, so the live updates stream takes the token as a query parameter.
+export const getApplicationEventsUrl = (token: string): string => `${API_BASE_URL}/events?access_token=${encodeURIComponent(token)}`;
+
 export const handleError = (error: unknown): string => {
     return error instanceof Error ? error.message : 'Error occurred';
 };
\ No newline at end of file
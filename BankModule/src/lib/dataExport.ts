@@ -0,0 +1,94 @@
+// src/lib/dataExport.ts
+
+import { PagedResult } from './bankApi';
+import { buildXlsx, CellValue } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+    id: string;
+    label: string;
+    // `masked` is true unless the user opted out of masking for this export.
+    value: (row: T, masked: boolean) => CellValue;
+    // Personal data that is masked by default.
+    sensitive?: boolean;
+    // Preselected the first time the export dialog opens.
+    selected?: boolean;
+}
+
+// Upper bound on rows fetched for one export, to keep the browser responsive.
+export const MAX_EXPORT_ROWS = 10000;
+const EXPORT_PAGE_SIZE = 100;
+
+// Keeps the last `visible` characters, e.g. 9845012345 -> XXXXXX2345.
+export const maskTail = (value: string | null | undefined, visible = 4): string => {
+    const text = value || '';
+    return text.length <= visible ? text : 'X'.repeat(text.length - visible) + text.slice(-visible);
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: CellValue): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return String(value);
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CellValue[][]): string =>
+    [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+
+export const downloadBlob = (filename: string, blob: Blob): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+// Walks every page of a list endpoint so the export covers the whole filtered set, not just what is on screen.
+export const fetchAllPages = async <T>(fetchPage: (page: number, pageSize: number) => Promise<PagedResult<T>>): Promise<T[]> => {
+    const rows: T[] = [];
+    for (let page = 1; rows.length < MAX_EXPORT_ROWS; page++) {
+        const result = await fetchPage(page, EXPORT_PAGE_SIZE);
+        rows.push(...result.data);
+        if (!result.hasMore) break;
+    }
+    return rows.slice(0, MAX_EXPORT_ROWS);
+};
+
+export const exportRows = <T>(rows: T[], columns: ExportColumn<T>[], options: { format: ExportFormat; masked: boolean; filename: string; sheetName: string }): void => {
+    const header = columns.map((column) => column.label);
+    const values = rows.map((row) => columns.map((column) => column.value(row, options.masked)));
+    const blob = options.format === 'csv'
+        // The byte order mark makes Excel read the file as UTF-8.
+        ? new Blob(['\uFEFF', toCsv(header, values)], { type: 'text/csv;charset=utf-8' })
+        : buildXlsx(options.sheetName, header, values);
+    downloadBlob(`${options.filename}.${options.format}`, blob);
+};
+
+export const exportFilename = (name: string, now = new Date()): string =>
+    `${name}-${now.toISOString().slice(0, 16).replace(/[:T]/g, '-')}`;
+
+const storageKey = (userId: string, dataset: string) => `bank_export_columns_${userId}_${dataset}`;
+
+// Column choices are remembered per user and dataset in this browser.
+export const loadColumnSelection = <T>(userId: string, dataset: string, columns: ExportColumn<T>[]): string[] => {
+    try {
+        const stored = localStorage.getItem(storageKey(userId, dataset));
+        const ids: string[] = stored ? JSON.parse(stored) : [];
+        const known = ids.filter((id) => columns.some((column) => column.id === id));
+        if (known.length > 0) return known;
+    } catch {
+        // Fall through to the defaults.
+    }
+    return columns.filter((column) => column.selected).map((column) => column.id);
+};
+
+export const storeColumnSelection = (userId: string, dataset: string, ids: string[]): void => {
+    localStorage.setItem(storageKey(userId, dataset), JSON.stringify(ids));
+};
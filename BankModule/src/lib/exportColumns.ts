@@ -0,0 +1,41 @@
+// src/lib/exportColumns.ts
+
+import { Application, DecisionLogEntry } from './bankApi';
+import { ExportColumn } from './dataExport';
+import { getReasonCode } from '../data/reasonCodes';
+import { slaStatus, SLA_STYLES } from './sla';
+
+// Keeps the first character of the mailbox and the whole domain, e.g. r****@example.com.
+export const maskEmail = (email: string): string => {
+    const [local, domain] = email.split('@');
+    if (!domain) return '*'.repeat(email.length);
+    return `${local.slice(0, 1)}${'*'.repeat(Math.max(1, local.length - 1))}@${domain}`;
+};
+
+export const APPLICATION_COLUMNS: ExportColumn<Application>[] = [
+    { id: 'application_id', label: 'Application ID', value: (app) => app.id, selected: true },
+    { id: 'business_name', label: 'Business name', value: (app) => app.business_name, selected: true },
+    { id: 'full_name', label: 'Applicant name', value: (app) => app.full_name, selected: true },
+    { id: 'email', label: 'Email', value: (app, masked) => (masked ? maskEmail(app.email) : app.email), sensitive: true, selected: true },
+    { id: 'onboarding_status', label: 'Status', value: (app) => app.onboarding_status, selected: true },
+    { id: 'created_at', label: 'Received at', value: (app) => app.created_at, selected: true },
+    { id: 'updated_at', label: 'Last updated', value: (app) => app.updated_at },
+    { id: 'age_hours', label: 'Age (hours)', value: (app) => Math.round((Date.now() - Date.parse(app.created_at)) / 36e5), selected: true },
+    { id: 'sla', label: 'SLA', value: (app) => SLA_STYLES[slaStatus(app.created_at)].label, selected: true }
+];
+
+export const DECISION_COLUMNS: ExportColumn<DecisionLogEntry>[] = [
+    { id: 'decision_id', label: 'Decision ID', value: (entry) => entry.id },
+    { id: 'decided_at', label: 'Decided at', value: (entry) => entry.decided_at, selected: true },
+    { id: 'application_id', label: 'Application ID', value: (entry) => entry.application_id, selected: true },
+    { id: 'merchant_id', label: 'Merchant ID', value: (entry) => entry.merchant_id },
+    { id: 'business_name', label: 'Business name', value: (entry) => entry.business_name, selected: true },
+    { id: 'full_name', label: 'Applicant name', value: (entry) => entry.full_name },
+    { id: 'email', label: 'Email', value: (entry, masked) => (masked ? maskEmail(entry.email) : entry.email), sensitive: true },
+    { id: 'decision', label: 'Decision', value: (entry) => entry.decision, selected: true },
+    { id: 'to_status', label: 'New status', value: (entry) => entry.to_status },
+    { id: 'reason_codes', label: 'Reasons', value: (entry) => entry.reason_codes.map((code) => getReasonCode(code).label).join('; '), selected: true },
+    { id: 'notes', label: 'Notes', value: (entry) => entry.notes },
+    { id: 'decided_by', label: 'Decided by', value: (entry) => entry.decided_by, selected: true },
+    { id: 'bank_staff_id', label: 'Staff ID', value: (entry) => entry.bank_staff_id }
+];
@@ -0,0 +1,35 @@
+// src/lib/jwt.ts
+// Reads the expiry out of an access token. The signature is not checked here; that is the
+// backend's job. The portal only needs to know when to refresh.
+
+// Refresh this long before the token expires, or halfway through its remaining life if that is sooner.
+const REFRESH_LEEWAY_MS = 60 * 1000;
+// Longest delay setTimeout supports; anything longer fires immediately.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// `exp` in milliseconds, or null when the token is not a JWT or has no expiry.
+export const tokenExpiresAt = (token: string): number | null => {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    try {
+        const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+        const claims = JSON.parse(json);
+        return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+    } catch {
+        return null;
+    }
+};
+
+export const isTokenExpired = (token: string, now = Date.now()): boolean => {
+    const expiresAt = tokenExpiresAt(token);
+    return expiresAt !== null && expiresAt <= now;
+};
+
+// How long to wait before refreshing `token`; 0 when it is already due.
+export const refreshDelay = (token: string, now = Date.now()): number | null => {
+    const expiresAt = tokenExpiresAt(token);
+    if (expiresAt === null) return null;
+    const remaining = expiresAt - now;
+    if (remaining <= 0) return 0;
+    return Math.min(remaining - Math.min(REFRESH_LEEWAY_MS, remaining / 2), MAX_TIMER_MS);
+};
@@ -0,0 +1,107 @@
+// src/lib/liveUpdates.ts
+
+import { getApplicationEventsUrl } from './bankApi';
+
+export type QueueEventType = 'application.submitted' | 'application.decided' | 'queue.reset';
+
+export interface QueueEvent {
+    type: QueueEventType;
+    applicationId: string | null;
+    actor: { id: string; name: string } | null;
+    at: string;
+    decision?: 'approve' | 'reject';
+    status?: string;
+}
+
+// 'live' while the push channel is open, 'reconnecting' between attempts, and 'polling'
+// once it has failed often enough that the caller's poll function takes over.
+export type LiveStatus = 'connecting' | 'live' | 'reconnecting' | 'polling';
+
+export interface LiveUpdateOptions {
+    token: string;
+    onEvent: (event: QueueEvent) => void;
+    onStatusChange: (status: LiveStatus) => void;
+    // Called on an interval while the push channel is down.
+    poll: () => void;
+}
+
+const EVENT_TYPES: QueueEventType[] = ['application.submitted', 'application.decided', 'queue.reset'];
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+const FAILURES_BEFORE_POLLING = 3;
+export const POLL_INTERVAL_MS = 30 * 1000;
+
+// Jittered exponential backoff: 1s, 2s, 4s … capped at 30s.
+export const backoffDelay = (attempt: number): number => {
+    const base = Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** attempt);
+    return Math.round(base / 2 + Math.random() * (base / 2));
+};
+
+// Subscribes to the backend's Server-Sent Events stream of application changes. Keeps retrying with
+// backoff; after repeated failures (or without EventSource support) it also polls until the
+// stream comes back. Returns an unsubscribe function.
+export const subscribeToQueueEvents = ({ token, onEvent, onStatusChange, poll }: LiveUpdateOptions): (() => void) => {
+    let source: EventSource | null = null;
+    let attempt = 0;
+    let retryTimer: number | undefined;
+    let pollTimer: number | undefined;
+    let stopped = false;
+
+    const startPolling = () => {
+        if (pollTimer !== undefined) return;
+        onStatusChange('polling');
+        poll();
+        pollTimer = window.setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+        window.clearInterval(pollTimer);
+        pollTimer = undefined;
+    };
+
+    const connect = () => {
+        if (stopped) return;
+        if (typeof EventSource === 'undefined') {
+            startPolling();
+            return;
+        }
+        onStatusChange(attempt === 0 ? 'connecting' : pollTimer !== undefined ? 'polling' : 'reconnecting');
+        source = new EventSource(getApplicationEventsUrl(token));
+
+        source.addEventListener('ready', () => {
+            // Anything may have changed while disconnected, so resync once before trusting pushes.
+            if (attempt > 0) poll();
+            attempt = 0;
+            stopPolling();
+            onStatusChange('live');
+        });
+        EVENT_TYPES.forEach((type) => {
+            source?.addEventListener(type, (message) => {
+                try {
+                    onEvent(JSON.parse((message as MessageEvent).data));
+                } catch {
+                    // Ignore frames we cannot parse rather than dropping the connection.
+                }
+            });
+        });
+        // EventSource retries on its own with a fixed delay; we close it and back off instead.
+        source.onerror = () => {
+            source?.close();
+            source = null;
+            if (stopped) return;
+            attempt += 1;
+            if (attempt >= FAILURES_BEFORE_POLLING) startPolling();
+            else onStatusChange('reconnecting');
+            retryTimer = window.setTimeout(connect, backoffDelay(attempt));
+        };
+    };
+
+    connect();
+
+    return () => {
+        stopped = true;
+        source?.close();
+        window.clearTimeout(retryTimer);
+        stopPolling();
+    };
+};
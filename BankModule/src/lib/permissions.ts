@@ -0,0 +1,44 @@
+// src/lib/permissions.ts
+// What each bank role may do. The mock backend keeps the same table and enforces it; the portal
+// uses it to hide or disable what the signed-in user cannot do and to say why.
+
+import { BankUser } from '../context/BankAuthContext';
+
+export type Permission = 'applications:view' | 'applications:decide' | 'data:export' | 'data:export_unmasked';
+
+const VIEWER: Permission[] = ['applications:view', 'data:export'];
+const OFFICER: Permission[] = [...VIEWER, 'applications:decide'];
+const MANAGER: Permission[] = [...OFFICER, 'data:export_unmasked'];
+
+export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+    viewer: VIEWER,
+    bank_officer: OFFICER,
+    bank_manager: MANAGER,
+    // Admins hold every permission; for now that is the manager set.
+    admin: MANAGER
+};
+
+export const ROLE_LABELS: Record<string, string> = {
+    viewer: 'Viewer',
+    bank_officer: 'Officer',
+    bank_manager: 'Manager',
+    admin: 'Admin'
+};
+
+// Shown when a user lacks a permission, phrased so it makes sense next to a disabled control.
+const DENIED_REASONS: Record<Permission, string> = {
+    'applications:view': 'Your role does not have access to bank applications',
+    'applications:decide': 'Your role can view applications but not approve or reject them',
+    'data:export': 'Your role cannot export data',
+    'data:export_unmasked': 'Only managers can export unmasked personal data'
+};
+
+export const roleLabel = (role: string): string => ROLE_LABELS[role] || role;
+
+// Unknown roles get no permissions at all rather than falling back to a default.
+export const can = (user: BankUser | null, permission: Permission): boolean =>
+    Boolean(user && ROLE_PERMISSIONS[user.role]?.includes(permission));
+
+// Explains why the user lacks `permission`, or null if they have it.
+export const deniedReason = (user: BankUser | null, permission: Permission): string | null =>
+    can(user, permission) ? null : DENIED_REASONS[permission];
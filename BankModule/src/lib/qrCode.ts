@@ -0,0 +1,251 @@
+// src/lib/qrCode.ts
+// Minimal QR code encoder for the two-factor setup screen: byte mode, error correction level M,
+// versions 1–10, which holds up to 213 bytes and so any otpauth:// URL the backend issues. Returns
+// the grid of modules (true = dark); the QrCode component draws it.
+
+// Data codewords per block for each version at level M (index = version - 1), and the number of
+// error correction codewords every block of that version carries.
+const VERSIONS: Array<{ ecPerBlock: number; blocks: number[] }> = [
+    { ecPerBlock: 10, blocks: [16] },
+    { ecPerBlock: 16, blocks: [28] },
+    { ecPerBlock: 26, blocks: [44] },
+    { ecPerBlock: 18, blocks: [32, 32] },
+    { ecPerBlock: 24, blocks: [43, 43] },
+    { ecPerBlock: 16, blocks: [27, 27, 27, 27] },
+    { ecPerBlock: 18, blocks: [31, 31, 31, 31] },
+    { ecPerBlock: 22, blocks: [38, 38, 39, 39] },
+    { ecPerBlock: 22, blocks: [36, 36, 36, 37, 37] },
+    { ecPerBlock: 26, blocks: [43, 43, 43, 43, 44] }
+];
+
+const ALIGNMENT_CENTRES = [[], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50]];
+
+// Level M is 00 in the format information.
+const EC_LEVEL_BITS = 0;
+const BYTE_MODE = 0b0100;
+const PAD_BYTES = [0xec, 0x11];
+
+// Arithmetic in GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1.
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+}
+for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+
+const gfMultiply = (a: number, b: number): number => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+
+// Reed–Solomon error correction codewords for one block.
+export const errorCorrection = (data: number[], degree: number): number[] => {
+    let generator = [1];
+    for (let i = 0; i < degree; i++) {
+        const next = new Array(generator.length + 1).fill(0);
+        generator.forEach((coefficient, j) => {
+            next[j] ^= coefficient;
+            next[j + 1] ^= gfMultiply(coefficient, EXP[i]);
+        });
+        generator = next;
+    }
+    const remainder = [...data, ...new Array(degree).fill(0)];
+    for (let i = 0; i < data.length; i++) {
+        const factor = remainder[i];
+        if (factor !== 0) generator.forEach((coefficient, j) => (remainder[i + j] ^= gfMultiply(coefficient, factor)));
+    }
+    return remainder.slice(data.length);
+};
+
+const countBits = (version: number) => (version < 10 ? 8 : 16);
+
+// The data codewords, including mode, length, terminator and padding, interleaved with their
+// error correction in the order they are placed.
+const encodeCodewords = (bytes: Uint8Array, version: number): number[] => {
+    const { ecPerBlock, blocks } = VERSIONS[version - 1];
+    const capacity = blocks.reduce((sum, size) => sum + size, 0);
+
+    const bits: number[] = [];
+    const push = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    push(BYTE_MODE, 4);
+    push(bytes.length, countBits(version));
+    bytes.forEach((byte) => push(byte, 8));
+    push(0, Math.min(4, capacity * 8 - bits.length));
+    push(0, (8 - (bits.length % 8)) % 8);
+
+    const data: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    for (let i = 0; data.length < capacity; i++) data.push(PAD_BYTES[i % 2]);
+
+    let offset = 0;
+    const dataBlocks = blocks.map((size) => data.slice(offset, (offset += size)));
+    const ecBlocks = dataBlocks.map((block) => errorCorrection(block, ecPerBlock));
+    const interleaved: number[] = [];
+    for (let i = 0; i < Math.max(...blocks); i++) dataBlocks.forEach((block) => i < block.length && interleaved.push(block[i]));
+    for (let i = 0; i < ecPerBlock; i++) ecBlocks.forEach((block) => interleaved.push(block[i]));
+    return interleaved;
+};
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+    (x, y) => (x + y) % 2 === 0,
+    (_x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+// How hard the grid is to scan, per the four penalty rules of ISO/IEC 18004; lower is better.
+const penalty = (modules: boolean[][]): number => {
+    const size = modules.length;
+    const lines = [
+        ...modules,
+        ...modules.map((_, x) => modules.map((row) => row[x]))
+    ];
+    let score = 0;
+    lines.forEach((line) => {
+        let run = 1;
+        for (let i = 1; i <= size; i++) {
+            if (i < size && line[i] === line[i - 1]) {
+                run++;
+                continue;
+            }
+            if (run >= 5) score += run - 2;
+            run = 1;
+        }
+        // A finder-like 1:1:3:1:1 pattern with four light modules on one side.
+        const text = line.map((dark) => (dark ? '1' : '0')).join('');
+        score += 40 * ((text.match(/(?=10111010000)/g)?.length || 0) + (text.match(/(?=00001011101)/g)?.length || 0));
+    });
+    for (let y = 0; y < size - 1; y++) {
+        for (let x = 0; x < size - 1; x++) {
+            const colour = modules[y][x];
+            if (colour === modules[y][x + 1] && colour === modules[y + 1][x] && colour === modules[y + 1][x + 1]) score += 3;
+        }
+    }
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+};
+
+// Appends the BCH check bits that protect the format and version information.
+const withBch = (data: number, generator: number, degree: number): number => {
+    let remainder = data << degree;
+    for (let bit = 31 - Math.clz32(remainder); bit >= degree; bit--) {
+        if ((remainder >>> bit) & 1) remainder ^= generator << (bit - degree);
+    }
+    return (data << degree) | remainder;
+};
+
+export const encodeQr = (text: string): boolean[][] => {
+    const bytes = new TextEncoder().encode(text);
+    const version = VERSIONS.findIndex((info, index) => {
+        const capacityBits = info.blocks.reduce((sum, size) => sum + size, 0) * 8;
+        return 4 + countBits(index + 1) + bytes.length * 8 <= capacityBits;
+    }) + 1;
+    if (version === 0) throw new Error('Text is too long for a QR code');
+
+    const size = 17 + version * 4;
+    const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    // x is the column, y the row.
+    const setFunction = (x: number, y: number, dark: boolean) => {
+        modules[y][x] = dark;
+        reserved[y][x] = true;
+    };
+
+    for (let i = 0; i < size; i++) {
+        setFunction(6, i, i % 2 === 0);
+        setFunction(i, 6, i % 2 === 0);
+    }
+    [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const x = cx + dx;
+                const y = cy + dy;
+                const ring = Math.max(Math.abs(dx), Math.abs(dy));
+                if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, ring !== 2 && ring !== 4);
+            }
+        }
+    });
+    const centres = ALIGNMENT_CENTRES[version - 1];
+    centres.forEach((cy, i) => centres.forEach((cx, j) => {
+        const last = centres.length - 1;
+        // The corners that would overlap a finder pattern are skipped.
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+    }));
+
+    const drawFormat = (mask: number) => {
+        const bits = withBch((EC_LEVEL_BITS << 3) | mask, 0x537, 10) ^ 0x5412;
+        const bit = (i: number) => ((bits >>> i) & 1) === 1;
+        for (let i = 0; i <= 5; i++) setFunction(8, i, bit(i));
+        setFunction(8, 7, bit(6));
+        setFunction(8, 8, bit(7));
+        setFunction(7, 8, bit(8));
+        for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(i));
+        for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(i));
+        for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(i));
+        setFunction(8, size - 8, true);
+    };
+    drawFormat(0);
+
+    if (version >= 7) {
+        const bits = withBch(version, 0x1f25, 12);
+        for (let i = 0; i < 18; i++) {
+            const dark = ((bits >>> i) & 1) === 1;
+            const a = size - 11 + (i % 3);
+            const b = Math.floor(i / 3);
+            setFunction(a, b, dark);
+            setFunction(b, a, dark);
+        }
+    }
+
+    // Codewords run in two-module-wide columns from the bottom right, zigzagging up and down and
+    // stepping over the vertical timing pattern.
+    const codewords = encodeCodewords(bytes, version);
+    let bitIndex = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5;
+        const upward = ((right + 1) & 2) === 0;
+        for (let vertical = 0; vertical < size; vertical++) {
+            const y = upward ? size - 1 - vertical : vertical;
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                if (reserved[y][x] || bitIndex >= codewords.length * 8) continue;
+                modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+                bitIndex++;
+            }
+        }
+    }
+
+    const applyMask = (mask: number) => {
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                if (!reserved[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+            }
+        }
+    };
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    MASKS.forEach((_, mask) => {
+        applyMask(mask);
+        drawFormat(mask);
+        const score = penalty(modules);
+        if (score < bestPenalty) {
+            bestMask = mask;
+            bestPenalty = score;
+        }
+        applyMask(mask);
+    });
+    applyMask(bestMask);
+    drawFormat(bestMask);
+    return modules;
+};
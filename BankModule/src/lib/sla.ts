@@ -0,0 +1,33 @@
+// src/lib/sla.ts
+
+export type SlaStatus = 'ok' | 'at_risk' | 'breached';
+
+// Hours an application may wait for the bank's decision, and how long before that it is flagged.
+export const SLA_HOURS = Number(import.meta.env.VITE_SLA_HOURS) || 48;
+export const SLA_WARNING_HOURS = Number(import.meta.env.VITE_SLA_WARNING_HOURS) || SLA_HOURS * 0.75;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const SLA_STYLES: Record<SlaStatus, { badge: string; label: string }> = {
+    ok: { badge: 'bg-green-100 text-green-800', label: 'Within SLA' },
+    at_risk: { badge: 'bg-amber-100 text-amber-800', label: 'SLA at risk' },
+    breached: { badge: 'bg-red-100 text-red-800', label: 'SLA breached' }
+};
+
+export const slaStatus = (since: string, now = Date.now()): SlaStatus => {
+    const hours = (now - Date.parse(since)) / HOUR_MS;
+    if (hours >= SLA_HOURS) return 'breached';
+    if (hours >= SLA_WARNING_HOURS) return 'at_risk';
+    return 'ok';
+};
+
+// Anything created before this instant has breached the SLA.
+export const slaBreachCutoff = (now = Date.now()): string => new Date(now - SLA_HOURS * HOUR_MS).toISOString();
+
+export const formatAge = (since: string, now = Date.now()): string => {
+    const minutes = Math.max(0, Math.floor((now - Date.parse(since)) / 60000));
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ${minutes % 60}m`;
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
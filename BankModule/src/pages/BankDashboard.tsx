@@ -1,124 +1,424 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useBankAuth } from '../context/BankAuthContext';
-import { getPendingApplications, decideApplication, Application, handleError } from '../lib/bankApi';
-import { CheckCircle, XCircle, Eye, Loader2, LogOut, AlertCircle, Search, Clock, FileText } from 'lucide-react';
+import { useNotifications } from '../context/NotificationContext';
+import { getPendingApplications, getApplication, decideApplication, Application, ApplicationDecision, ApplicationSortField, BatchDecisionResult, MAX_BATCH_SIZE, handleError } from '../lib/bankApi';
+import { ReasonCodePicker } from '../components/ReasonCodePicker';
+import { VirtualList } from '../components/VirtualList';
+import { LiveStatusIndicator } from '../components/LiveStatusIndicator';
+import { ExportDialog } from '../components/ExportDialog';
+import { BulkDecisionDialog } from '../components/BulkDecisionDialog';
+import { ShortcutHelp } from '../components/ShortcutHelp';
+import { usePagedList } from '../hooks/usePagedList';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { useNow } from '../hooks/useNow';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { useUndoWindow, UNDO_WINDOW_MS } from '../hooks/useUndoWindow';
+import { getReasonCode } from '../data/reasonCodes';
+import { QueueEvent } from '../lib/liveUpdates';
+import { REVIEW_SHORTCUTS } from '../lib/shortcuts';
+import { can, deniedReason, roleLabel } from '../lib/permissions';
+import { slaStatus, slaBreachCutoff, formatAge, SLA_HOURS, SLA_STYLES } from '../lib/sla';
+import { CheckCircle, XCircle, Eye, Loader2, LogOut, AlertCircle, Search, Clock, FileText, Download, CheckSquare, Keyboard, ShieldCheck } from 'lucide-react';
+
+const SORT_OPTIONS: Array<{ value: string; label: string }> = [
+    { value: 'created_at:asc', label: 'Oldest first (SLA risk)' },
+    { value: 'created_at:desc', label: 'Newest first' },
+    { value: 'business_name:asc', label: 'Business name A–Z' },
+    { value: 'full_name:asc', label: 'Applicant name A–Z' }
+];
+
+// Applications in any other status have been decided and open read-only.
+const PENDING_STATUS = 'pending_bank_approval';
+
+const PAGE_SIZE = 25;
+const ROW_HEIGHT = 96;
 
 export const BankDashboard: React.FC = () => {
     const navigate = useNavigate();
     const { user, token, logout } = useBankAuth();
-    const [applications, setApplications] = useState<Application[]>([]);
-    const [filteredApps, setFilteredApps] = useState<Application[]>([]);
-    const [loading, setLoading] = useState(true);
+    const { notify, confirm } = useNotifications();
+    // Viewers can open applications but every decision control stays out of reach.
+    const decideDenied = deniedReason(user, 'applications:decide');
+    const canDecide = !decideDenied;
+    const [searchParams, setSearchParams] = useSearchParams();
+    const location = useLocation();
+    const { appId: routeAppId } = useParams<{ appId: string }>();
     const [selectedApp, setSelectedApp] = useState<Application | null>(null);
-    const [deciding, setDeciding] = useState(false);
     const [error, setError] = useState('');
-    const [searchTerm, setSearchTerm] = useState('');
     const [notes, setNotes] = useState('');
+    const [reasonCodes, setReasonCodes] = useState<string[]>([]);
+    const [newCount, setNewCount] = useState(0);
+    const [slaBreached, setSlaBreached] = useState(0);
+    const [showExport, setShowExport] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [showBulk, setShowBulk] = useState(false);
+    // Review mode opens the next application after each decision.
+    const [reviewMode, setReviewMode] = useState(false);
+    const [showShortcuts, setShowShortcuts] = useState(false);
+    const [notice, setNotice] = useState('');
+    const notesRef = useRef<HTMLTextAreaElement>(null);
+    const now = useNow();
+    const { schedule, pendingKeys } = useUndoWindow();
+    // Last pending total seen while polling, to tell how many applications arrived in between.
+    const lastPendingTotal = useRef<number | null>(null);
 
-    useEffect(() => {
-        if (!token) {
-            navigate('/login');
-            return;
-        }
-        fetchApplications();
-    }, [token, navigate]);
+    // Search, sort and scroll depth live in the URL so a reload or shared link restores the view.
+    const searchTerm = searchParams.get('q') || '';
+    const sortValue = SORT_OPTIONS.some((option) => option.value === searchParams.get('sort')) ? searchParams.get('sort')! : SORT_OPTIONS[0].value;
+    const [sortBy, sortDir] = sortValue.split(':') as [ApplicationSortField, 'asc' | 'desc'];
+    const [searchInput, setSearchInput] = useState(searchTerm);
+
+    const updateParams = (changes: Record<string, string | null>) => {
+        setSearchParams((current) => {
+            const next = new URLSearchParams(current);
+            Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+            return next;
+        }, { replace: true });
+    };
+
+    const listKey = `${searchTerm}|${sortValue}`;
+    const list = usePagedList<Application>(
+        async (page) => {
+            if (!token) throw new Error('No token');
+            return getPendingApplications(token, { page, pageSize: PAGE_SIZE, sortBy, sortDir, search: searchTerm });
+        },
+        listKey,
+        Number(searchParams.get('page')) || 1
+    );
 
+    // A new search or sort shows different rows, so the selection starts over.
     useEffect(() => {
-        const filtered = applications.filter(app =>
-            (app?.full_name?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-            (app?.email?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-            (app?.business_name?.toLowerCase() || '').includes(searchTerm.toLowerCase())
-        );
-        setFilteredApps(filtered);
-    }, [searchTerm, applications]);
-
-    const fetchApplications = async () => {
+        setNewCount(0);
+        setSelectedIds([]);
+    }, [listKey]);
+
+    // The SLA card only needs a total, so ask for the smallest page.
+    const fetchSlaBreached = async () => {
         try {
-            setLoading(true);
-            setError('');
             if (!token) throw new Error('No token');
-            const data = await getPendingApplications(token);
-            setApplications(data);
-            setFilteredApps(data);
+            const { total } = await getPendingApplications(token, { pageSize: 1, createdBefore: slaBreachCutoff() });
+            setSlaBreached(total);
         } catch (err) {
             setError(handleError(err));
-        } finally {
-            setLoading(false);
         }
     };
 
-    const handleApprove = async (appId: string) => {
-        if (!window.confirm('Approve this application?')) return;
+    // New applications are announced in a banner rather than inserted, so rows do not jump while someone is reading.
+    const handleApplicationEvent = (event: QueueEvent) => {
+        if (event.type === 'queue.reset') {
+            refreshApplications();
+            return;
+        }
+        if (!event.applicationId) return;
+        if (event.type === 'application.submitted') {
+            setNewCount((count) => count + 1);
+            return;
+        }
+        list.removeItem(event.applicationId);
+        deselect([event.applicationId]);
+        fetchSlaBreached();
+        if (event.actor?.id !== user?.userId && selectedApp?.id === event.applicationId) {
+            setError(`${event.actor?.name || 'Another officer'} has already decided this application`);
+        }
+    };
+
+    // Fallback while the push channel is down: compare the pending total and surface growth through the same banner.
+    const pollApplications = async () => {
         try {
-            setDeciding(true);
-            setError('');
             if (!token) throw new Error('No token');
-            await decideApplication(token, appId, { decision: 'approve', notes: notes || 'Approved' });
-            alert('✅ Application Approved!');
-            await fetchApplications();
-            setSelectedApp(null);
-            setNotes('');
+            const { total } = await getPendingApplications(token, { pageSize: 1 });
+            const before = lastPendingTotal.current;
+            lastPendingTotal.current = total;
+            if (before === null) return;
+            if (total > before) setNewCount((count) => count + total - before);
+            else if (total < before) list.reload();
+            await fetchSlaBreached();
         } catch (err) {
-            alert(`❌ Error: ${handleError(err)}`);
-        } finally {
-            setDeciding(false);
+            setError(handleError(err));
         }
     };
 
-    const handleReject = async (appId: string) => {
-        if (!notes.trim()) {
-            alert('⚠️ Please provide rejection reason');
+    const liveStatus = useLiveUpdates(token, handleApplicationEvent, pollApplications);
+
+    // Reloading picks up any announced arrivals, so the banner is cleared too.
+    const refreshApplications = async () => {
+        setNewCount(0);
+        await Promise.all([list.reload(), fetchSlaBreached()]);
+    };
+
+    useEffect(() => {
+        if (!token) {
+            navigate('/login');
             return;
         }
-        if (!window.confirm('Reject this application?')) return;
-        try {
-            setDeciding(true);
-            setError('');
-            if (!token) throw new Error('No token');
-            await decideApplication(token, appId, { decision: 'reject', notes });
-            alert('❌ Application Rejected!');
-            await fetchApplications();
-            setSelectedApp(null);
-            setNotes('');
-        } catch (err) {
-            alert(`❌ Error: ${handleError(err)}`);
-        } finally {
-            setDeciding(false);
+        fetchSlaBreached();
+    }, [token, navigate]);
+
+    useEffect(() => {
+        const timer = window.setTimeout(() => {
+            if (searchInput.trim() !== searchTerm) updateParams({ q: searchInput.trim() || null, page: null });
+        }, 300);
+        return () => window.clearTimeout(timer);
+    }, [searchInput]);
+
+    useEffect(() => {
+        if (list.pagesLoaded > 0) updateParams({ page: list.pagesLoaded > 1 ? String(list.pagesLoaded) : null });
+    }, [list.pagesLoaded]);
+
+    const selectedApps = list.items.filter((app) => selectedIds.includes(app.id));
+    // Applications with a decision waiting out its undo window cannot be picked for a batch.
+    const loadedIds = list.items.map((app) => app.id).filter((id) => !pendingKeys.includes(id));
+    const allLoadedSelected = loadedIds.length > 0 && loadedIds.slice(0, MAX_BATCH_SIZE).every((id) => selectedIds.includes(id));
+
+    const deselect = (ids: string[]) => setSelectedIds((current) => current.filter((id) => !ids.includes(id)));
+
+    const toggleSelected = (appId: string) => {
+        if (selectedIds.includes(appId)) deselect([appId]);
+        else if (selectedIds.length < MAX_BATCH_SIZE) setSelectedIds([...selectedIds, appId]);
+    };
+
+    // Selects the loaded rows from the top, up to the batch limit.
+    const toggleAllLoaded = () => setSelectedIds(allLoadedSelected ? [] : loadedIds.slice(0, MAX_BATCH_SIZE));
+
+    // Decided applications leave the queue; failed ones stay selected for a retry.
+    const handleBulkDecided = (results: BatchDecisionResult[]) => {
+        const decided = results.filter((result) => result.success).map((result) => result.applicationId);
+        decided.forEach((id) => list.removeItem(id));
+        deselect(decided);
+        fetchSlaBreached();
+    };
+
+    // The open application lives in the route (/applications/:appId); search and sort ride along
+    // in the query string so Back returns to the same list.
+    const dashboardUrl = `/dashboard${location.search}`;
+
+    const loadApp = (app: Application) => {
+        setSelectedApp(app);
+        setNotes('');
+        setReasonCodes([]);
+    };
+
+    const openApp = (app: Application) => {
+        loadApp(app);
+        navigate(`/applications/${encodeURIComponent(app.id)}${location.search}`);
+    };
+
+    const closeApp = () => {
+        setSelectedApp(null);
+        setNotes('');
+        setReasonCodes([]);
+    };
+
+    // Follows the route: a shared link, a refresh or browser back/forward opens the application
+    // it names, from the loaded list when possible and otherwise from the API.
+    useEffect(() => {
+        if (!token) return;
+        if (!routeAppId) {
+            if (selectedApp) {
+                closeApp();
+                setReviewMode(false);
+            }
+            return;
+        }
+        if (selectedApp?.id === routeAppId) return;
+        if (pendingKeys.includes(routeAppId)) {
+            setNotice('A decision on this application is about to be sent — use Undo on its notification to reopen it');
+            navigate(dashboardUrl, { replace: true });
+            return;
+        }
+        const loaded = list.items.find((app) => app.id === routeAppId);
+        if (loaded) {
+            loadApp(loaded);
+            return;
+        }
+        closeApp();
+        let cancelled = false;
+        getApplication(token, routeAppId)
+            .then((app) => {
+                if (!cancelled) loadApp(app);
+            })
+            .catch((err) => {
+                if (cancelled) return;
+                setError(`Cannot open ${routeAppId}: ${handleError(err)}`);
+                navigate(dashboardUrl, { replace: true });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [token, routeAppId]);
+
+    // The nearest application after (or before) `fromId` in `items` with no decision waiting to be
+    // sent, or null at either end.
+    const neighbour = (items: Application[], fromId: string | null, direction: 1 | -1): Application | null => {
+        const index = items.findIndex((app) => app.id === fromId);
+        const candidates = index === -1
+            ? (direction === 1 ? items : [])
+            : direction === 1 ? items.slice(index + 1) : items.slice(0, index).reverse();
+        return candidates.find((app) => !pendingKeys.includes(app.id)) || null;
+    };
+
+    const startReviewMode = () => {
+        const first = neighbour(list.items, null, 1);
+        if (!first) return;
+        setError('');
+        setNotice('');
+        setReviewMode(true);
+        openApp(first);
+    };
+
+    const goToApp = (direction: 1 | -1) => {
+        if (!selectedApp) return;
+        const target = neighbour(list.items, selectedApp.id, direction);
+        setError('');
+        if (target) {
+            setNotice('');
+            openApp(target);
+        } else {
+            setNotice(direction === 1 ? 'This is the last loaded application' : 'This is the first application');
+        }
+    };
+
+    const handleBack = () => {
+        closeApp();
+        setReviewMode(false);
+        setNotice('');
+        navigate(dashboardUrl);
+    };
+
+    // After a decision: back to the list, or in review mode straight on to the next application.
+    // The undo toast has already told the officer what happens next.
+    const finishApp = async (appId: string, items: Application[]) => {
+        if (!reviewMode) {
+            closeApp();
+            navigate(dashboardUrl);
+            return;
+        }
+        const next = neighbour(items, appId, 1);
+        if (next) openApp(next);
+        else {
+            closeApp();
+            setReviewMode(false);
+            navigate(dashboardUrl);
+        }
+        setNotice(next ? 'Decision queued — next application opened' : 'Decision queued — no more loaded applications, review mode ended');
+    };
+
+    // Decisions wait out the undo window before they are sent. Undo reopens the application with the
+    // notes and reasons as they were left.
+    const holdDecision = async (app: Application, decision: ApplicationDecision) => {
+        if (!token) return;
+        const draft = { notes, reasonCodes };
+        const label = decision.decision === 'approve' ? 'Approval' : 'Rejection';
+        schedule({
+            key: app.id,
+            message: `${label} of ${app.business_name} will be sent in ${UNDO_WINDOW_MS / 1000} seconds`,
+            commit: async () => {
+                try {
+                    await decideApplication(token, app.id, decision);
+                    notify(`${app.business_name} ${decision.decision === 'approve' ? 'approved' : 'rejected'}`);
+                } catch (err) {
+                    notify(`${label} of ${app.business_name} was not sent: ${handleError(err)}`, { kind: 'error' });
+                }
+                await refreshApplications();
+            },
+            onUndo: () => {
+                openApp(app);
+                setNotes(draft.notes);
+                setReasonCodes(draft.reasonCodes);
+            }
+        });
+        deselect([app.id]);
+        setError('');
+        await finishApp(app.id, list.items);
+    };
+
+    // What the confirmation shows before a decision goes out.
+    const decisionSummary = (app: Application, decision: ApplicationDecision['decision']) => [
+        { label: 'Applicant', value: `${app.business_name} (${app.full_name})` },
+        { label: 'Decision', value: decision === 'approve' ? 'Approve' : 'Reject' },
+        ...(decision === 'reject' ? [{ label: 'Reasons', value: reasonCodes.map((code) => getReasonCode(code).label).join(', ') }] : []),
+        { label: 'Notes', value: notes.trim() || '—' }
+    ];
+
+    const handleApprove = async (appId: string) => {
+        if (!selectedApp || selectedApp.id !== appId) return;
+        const confirmed = await confirm({
+            title: 'Approve this application?',
+            message: `You can undo for ${UNDO_WINDOW_MS / 1000} seconds after confirming.`,
+            summary: decisionSummary(selectedApp, 'approve'),
+            confirmLabel: 'Approve',
+            tone: 'success'
+        });
+        if (!confirmed) return;
+        await holdDecision(selectedApp, { decision: 'approve', notes: notes || 'Approved' });
+    };
+
+    const handleReject = async (appId: string) => {
+        if (!selectedApp || selectedApp.id !== appId) return;
+        if (reasonCodes.length === 0) {
+            notify('Please select at least one rejection reason', { kind: 'error' });
+            return;
         }
+        const confirmed = await confirm({
+            title: 'Reject this application?',
+            message: `You can undo for ${UNDO_WINDOW_MS / 1000} seconds after confirming.`,
+            summary: decisionSummary(selectedApp, 'reject'),
+            confirmLabel: 'Reject',
+            tone: 'danger'
+        });
+        if (!confirmed) return;
+        await holdDecision(selectedApp, { decision: 'reject', notes, reasonCodes });
     };
 
-    const handleLogout = () => {
-        if (window.confirm('Logout?')) {
+    const decidable = selectedApp?.onboarding_status === PENDING_STATUS;
+    useShortcuts(REVIEW_SHORTCUTS, {
+        approve: () => {
+            if (selectedApp && decidable && canDecide) handleApprove(selectedApp.id);
+        },
+        reject: () => {
+            if (selectedApp && decidable && canDecide) handleReject(selectedApp.id);
+        },
+        notes: () => notesRef.current?.focus(),
+        next: () => goToApp(1),
+        previous: () => goToApp(-1),
+        back: () => {
+            if (showShortcuts) setShowShortcuts(false);
+            else handleBack();
+        },
+        help: () => setShowShortcuts(!showShortcuts)
+    }, Boolean(selectedApp));
+
+    const handleLogout = async () => {
+        if (await confirm({ title: 'Log out?', message: 'Decisions still in their undo window are sent first.', confirmLabel: 'Log out' })) {
             logout();
             navigate('/login');
         }
     };
 
-    if (loading) {
-        return (
-            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-                <Loader2 className="w-12 h-12 animate-spin text-purple-600" />
-            </div>
-        );
-    }
-
     return (
         <div className="min-h-screen bg-gray-50">
             <div className="bg-white shadow sticky top-0 z-40">
                 <div className="max-w-7xl mx-auto px-6 py-4 flex justify-between items-center">
                     <div>
                         <h1 className="text-2xl font-bold text-gray-900">Bank Review Portal</h1>
-                        <p className="text-sm text-gray-600">Welcome, {user?.name} • {user?.email}</p>
+                        <p className="text-sm text-gray-600">Welcome, {user?.name} • {user?.email}{user && ` • ${roleLabel(user.role)}`}</p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                        <LiveStatusIndicator status={liveStatus} />
+                        <Link to="/account/security" className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border">
+                            <ShieldCheck className="w-5 h-5" /> Security
+                        </Link>
+                        <button onClick={handleLogout} className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border">
+                            <LogOut className="w-5 h-5" /> Logout
+                        </button>
                     </div>
-                    <button onClick={handleLogout} className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border">
-                        <LogOut className="w-5 h-5" /> Logout
-                    </button>
                 </div>
             </div>
 
             <div className="max-w-7xl mx-auto px-6 py-8">
-                {error && <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg"><AlertCircle className="w-5 h-5 text-red-600 inline" /> {error}</div>}
+                {(error || list.error) && <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg"><AlertCircle className="w-5 h-5 text-red-600 inline" /> {error || list.error}</div>}
+                {notice && <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800">{notice}</div>}
 
                 {selectedApp ? (
                     <div className="bg-white rounded-lg shadow-lg">
@@ -126,8 +426,18 @@ export const BankDashboard: React.FC = () => {
                             <div>
                                 <h2 className="text-2xl font-bold">{selectedApp.business_name}</h2>
                                 <p className="text-purple-100">{selectedApp.full_name}</p>
+                                {reviewMode && (
+                                    <p className="text-sm text-purple-100 mt-1 flex items-center gap-1">
+                                        <Keyboard className="w-4 h-4" /> Review mode • the next application opens after each decision • J / K to move, Esc to stop
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex items-start gap-4">
+                                <button onClick={() => setShowShortcuts(true)} className="flex items-center gap-1 text-sm text-purple-100 hover:text-white mt-2" title="Keyboard shortcuts (?)">
+                                    <Keyboard className="w-4 h-4" /> ?
+                                </button>
+                                <button onClick={handleBack} className="text-2xl">✕</button>
                             </div>
-                            <button onClick={() => { setSelectedApp(null); setNotes(''); }} className="text-2xl">✕</button>
                         </div>
 
                         <div className="p-6 space-y-6">
@@ -149,48 +459,163 @@ export const BankDashboard: React.FC = () => {
                                 </div>
                             </div>
 
-                            <div>
-                                <label className="block text-sm font-semibold mb-2">📝 Review Notes</label>
-                                <textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Add notes..." rows={5} className="w-full px-4 py-3 border rounded-lg" disabled={deciding} />
-                            </div>
+                            {decidable && canDecide ? (
+                                <>
+                                    <div>
+                                        <h3 className="font-semibold mb-2">🏷️ Rejection Reasons</h3>
+                                        <p className="text-sm text-gray-600 mb-3">Select at least one to reject.</p>
+                                        <ReasonCodePicker selected={reasonCodes} onChange={setReasonCodes} />
+                                    </div>
+
+                                    <div>
+                                        <label className="block text-sm font-semibold mb-2">📝 Review Notes</label>
+                                        <textarea ref={notesRef} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Add notes (optional)..." rows={5} className="w-full px-4 py-3 border rounded-lg" />
+                                    </div>
+                                </>
+                            ) : decidable ? (
+                                <div className="p-4 bg-gray-50 border rounded-lg text-gray-700">
+                                    {decideDenied}. This application is open read-only.
+                                </div>
+                            ) : (
+                                <div className="p-4 bg-gray-50 border rounded-lg text-gray-700">
+                                    This application has already been decided: <span className="font-medium">{selectedApp.onboarding_status.replace(/_/g, ' ')}</span> • {new Date(selectedApp.updated_at).toLocaleString()}
+                                </div>
+                            )}
                         </div>
 
                         <div className="p-6 border-t bg-gray-50 flex justify-end gap-3">
-                            <button onClick={() => { setSelectedApp(null); setNotes(''); }} className="px-6 py-3 border rounded-lg" disabled={deciding}>← Back</button>
-                            <button onClick={() => handleReject(selectedApp.id)} className="px-6 py-3 bg-red-600 text-white rounded-lg" disabled={deciding || !notes.trim()}>Reject</button>
-                            <button onClick={() => handleApprove(selectedApp.id)} className="px-6 py-3 bg-green-600 text-white rounded-lg" disabled={deciding}>Approve</button>
+                            <button onClick={handleBack} className="px-6 py-3 border rounded-lg">← Back</button>
+                            {decidable && canDecide && (
+                                <>
+                                    <button onClick={() => handleReject(selectedApp.id)} className="px-6 py-3 bg-red-600 text-white rounded-lg" disabled={reasonCodes.length === 0}>Reject</button>
+                                    <button onClick={() => handleApprove(selectedApp.id)} className="px-6 py-3 bg-green-600 text-white rounded-lg">Approve</button>
+                                </>
+                            )}
                         </div>
                     </div>
+                ) : routeAppId ? (
+                    <div className="flex justify-center p-12"><Loader2 className="w-10 h-10 animate-spin text-purple-600" /></div>
                 ) : (
                     <div className="space-y-6">
                         <div className="grid grid-cols-3 gap-4">
-                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Pending</p><p className="text-3xl font-bold">{filteredApps.length}</p></div>
-                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Total</p><p className="text-3xl font-bold">{applications.length}</p></div>
-                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Search</p><p className="text-3xl font-bold">{searchTerm ? '🔍' : '-'}</p></div>
+                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Pending</p><p className="text-3xl font-bold">{list.total}</p></div>
+                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Loaded</p><p className="text-3xl font-bold">{list.items.length}</p></div>
+                            <div className="bg-white p-6 rounded-lg shadow">
+                                <p className="text-gray-600">SLA breached ({SLA_HOURS}h)</p>
+                                <p className={`text-3xl font-bold ${slaBreached > 0 ? 'text-red-600' : ''}`}>{slaBreached}</p>
+                            </div>
                         </div>
 
-                        <div className="bg-white p-4 rounded-lg shadow">
-                            <input type="text" placeholder="Search..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="w-full px-4 py-3 border rounded-lg" />
+                        <div className="bg-white p-4 rounded-lg shadow flex gap-3">
+                            <input type="text" placeholder="Search..." value={searchInput} onChange={(e) => setSearchInput(e.target.value)} className="flex-1 px-4 py-3 border rounded-lg" />
+                            <select value={sortValue} onChange={(e) => updateParams({ sort: e.target.value === SORT_OPTIONS[0].value ? null : e.target.value, page: null })} className="px-4 py-3 border rounded-lg">
+                                {SORT_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                            {can(user, 'data:export') && (
+                                <button onClick={() => setShowExport(true)} className="flex items-center gap-2 px-4 py-3 border rounded-lg hover:bg-gray-100">
+                                    <Download className="w-5 h-5" /> Export
+                                </button>
+                            )}
+                            <button
+                                onClick={startReviewMode}
+                                disabled={list.items.length === 0 || !canDecide}
+                                className="flex items-center gap-2 px-4 py-3 bg-purple-600 text-white rounded-lg disabled:opacity-50"
+                                title={decideDenied || 'Work through the list with keyboard shortcuts'}
+                            >
+                                <Keyboard className="w-5 h-5" /> Review mode
+                            </button>
                         </div>
 
-                        {filteredApps.length > 0 ? (
-                            <div className="space-y-3">
-                                {filteredApps.map((app) => (
-                                    <div key={app.id} className="bg-white p-4 rounded-lg shadow flex justify-between items-center">
-                                        <div>
-                                            <h3 className="font-semibold">{app.business_name}</h3>
-                                            <p className="text-sm text-gray-600">{app.full_name} • {app.email}</p>
-                                        </div>
-                                        <button onClick={() => setSelectedApp(app)} className="px-4 py-2 bg-purple-600 text-white rounded-lg">Review</button>
-                                    </div>
-                                ))}
+                        {list.items.length > 0 && canDecide && (
+                            <div className={`p-4 rounded-lg flex items-center gap-4 ${selectedIds.length > 0 ? 'bg-purple-50 border border-purple-200' : 'bg-white shadow'}`}>
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" checked={allLoadedSelected} onChange={toggleAllLoaded} />
+                                    Select all loaded{list.items.length > MAX_BATCH_SIZE && ` (first ${MAX_BATCH_SIZE})`}
+                                </label>
+                                {selectedIds.length > 0 && (
+                                    <>
+                                        <span className="text-sm text-purple-800">{selectedIds.length} selected{selectedIds.length >= MAX_BATCH_SIZE && ` (limit ${MAX_BATCH_SIZE})`}</span>
+                                        <button onClick={() => setSelectedIds([])} className="text-sm text-gray-600 hover:underline">Clear</button>
+                                        <button onClick={() => setShowBulk(true)} className="ml-auto flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg">
+                                            <CheckSquare className="w-5 h-5" /> Bulk approve / reject
+                                        </button>
+                                    </>
+                                )}
                             </div>
+                        )}
+
+                        {newCount > 0 && (
+                            <button onClick={refreshApplications} className="w-full p-3 bg-purple-50 border border-purple-200 text-purple-800 rounded-lg hover:bg-purple-100">
+                                {newCount} new {newCount === 1 ? 'application' : 'applications'} — Show
+                            </button>
+                        )}
+
+                        {list.loading && list.items.length === 0 ? (
+                            <div className="flex justify-center p-12"><Loader2 className="w-10 h-10 animate-spin text-purple-600" /></div>
+                        ) : list.items.length > 0 ? (
+                            <VirtualList
+                                items={list.items}
+                                rowHeight={ROW_HEIGHT}
+                                getKey={(app) => app.id}
+                                onEndReached={list.loadMore}
+                                className="h-[70vh]"
+                                footer={
+                                    <p className="text-center text-sm text-gray-500 py-3">
+                                        {list.loadingMore ? 'Loading more…' : list.hasMore ? '' : `All ${list.total} loaded`}
+                                    </p>
+                                }
+                                renderRow={(app) => {
+                                    const sla = slaStatus(app.created_at, now);
+                                    const decisionPending = pendingKeys.includes(app.id);
+                                    return (
+                                        <div className="pb-3 h-full">
+                                            <div className={`bg-white p-4 rounded-lg shadow flex justify-between items-center gap-4 h-full ${selectedIds.includes(app.id) ? 'ring-2 ring-purple-400' : ''}`}>
+                                                {canDecide && (
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedIds.includes(app.id)}
+                                                        onChange={() => toggleSelected(app.id)}
+                                                        disabled={decisionPending || (!selectedIds.includes(app.id) && selectedIds.length >= MAX_BATCH_SIZE)}
+                                                        aria-label={`Select ${app.business_name}`}
+                                                        className="w-5 h-5 shrink-0"
+                                                    />
+                                                )}
+                                                <div className="min-w-0 flex-1">
+                                                    <div className="flex items-center gap-2 min-w-0">
+                                                        <h3 className="font-semibold truncate">{app.business_name}</h3>
+                                                        <span className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full shrink-0 ${SLA_STYLES[sla].badge}`} title={`${SLA_STYLES[sla].label} (${SLA_HOURS}h)`}>
+                                                            <Clock className="w-3 h-3" /> {formatAge(app.created_at, now)}
+                                                        </span>
+                                                    </div>
+                                                    <p className="text-sm text-gray-600 truncate">{app.full_name} • {app.email}</p>
+                                                </div>
+                                                <button onClick={() => openApp(app)} disabled={decisionPending} className="px-4 py-2 bg-purple-600 text-white rounded-lg disabled:opacity-50">{decisionPending ? 'Sending…' : canDecide ? 'Review' : 'View'}</button>
+                                            </div>
+                                        </div>
+                                    );
+                                }}
+                            />
                         ) : (
                             <div className="text-center p-12 bg-white rounded-lg">No pending applications</div>
                         )}
                     </div>
                 )}
             </div>
+
+            {showExport && token && (
+                <ExportDialog
+                    fetchApplicationsPage={(page, pageSize) => getPendingApplications(token, { page, pageSize, sortBy, sortDir, search: searchTerm })}
+                    onClose={() => setShowExport(false)}
+                />
+            )}
+
+            {showShortcuts && <ShortcutHelp shortcuts={REVIEW_SHORTCUTS} onClose={() => setShowShortcuts(false)} />}
+
+            {showBulk && canDecide && (
+                <BulkDecisionDialog applications={selectedApps} onDecided={handleBulkDecided} onClose={() => setShowBulk(false)} />
+            )}
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,112 @@
+// mock-server/documents.js
+// Renders placeholder KYC documents on the fly so /uploads/* links resolve offline.
+// Image documents and selfies are SVGs; statements and certificates are two-page PDFs.
+
+const escapeXml = (value) =>
+    String(value).replace(/[<>&'"]/g, (ch) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[ch]);
+
+const escapePdf = (value) => String(value).replace(/[\\()]/g, (ch) => `\\${ch}`);
+
+const titleFor = (documentType) => documentType.replace(/_/g, ' ').toUpperCase();
+
+// Distinct tint per merchant so reviewers can tell selfies apart at a glance.
+const hueFor = (merchantId) => [...merchantId].reduce((acc, ch) => acc + ch.charCodeAt(0), 0) % 360;
+
+const faceSvg = (cx, cy, scale, hue) => `
+    <g transform="translate(${cx} ${cy}) scale(${scale})">
+        <circle r="60" fill="hsl(${hue}, 45%, 78%)" />
+        <circle cx="-22" cy="-12" r="7" fill="#333" />
+        <circle cx="22" cy="-12" r="7" fill="#333" />
+        <path d="M -25 22 Q 0 42 25 22" stroke="#333" stroke-width="5" fill="none" />
+        <path d="M -60 -10 Q -55 -75 0 -70 Q 55 -75 60 -10 Q 40 -50 0 -50 Q -40 -50 -60 -10" fill="hsl(${hue}, 30%, 25%)" />
+    </g>`;
+
+export const renderSelfieSvg = (merchant) => {
+    const hue = hueFor(merchant.id);
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="480" height="640" viewBox="0 0 480 640">
+    <rect width="480" height="640" fill="hsl(${hue}, 20%, 92%)" />
+    ${faceSvg(240, 280, 2.4, hue)}
+    <rect y="560" width="480" height="80" fill="rgba(0,0,0,0.55)" />
+    <text x="240" y="598" font-family="Helvetica, Arial" font-size="22" fill="#fff" text-anchor="middle">SELFIE • ${escapeXml(merchant.full_name)}</text>
+    <text x="240" y="624" font-family="Helvetica, Arial" font-size="14" fill="#ddd" text-anchor="middle">Mock capture • ${escapeXml(merchant.id)}</text>
+</svg>`;
+};
+
+export const renderDocumentSvg = (merchant, document) => {
+    const hue = hueFor(merchant.id);
+    const isPan = document.document_type === 'pan_card';
+    const idLine = isPan
+        ? `PAN: ${merchant.pan_number}`
+        : document.document_type.startsWith('aadhaar')
+            ? `Aadhaar: XXXX XXXX ${String(merchant.aadhaar_number).slice(-4)}`
+            : `Ref: ${document.id}`;
+    const hasPhoto = isPan || document.document_type === 'aadhaar_front';
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="860" height="540" viewBox="0 0 860 540">
+    <rect width="860" height="540" rx="28" fill="${isPan ? '#e8f0fb' : '#fdf6e7'}" stroke="#9aa9bd" stroke-width="4" />
+    <rect width="860" height="90" rx="28" fill="${isPan ? '#1d4f91' : '#c0641a'}" />
+    <text x="40" y="58" font-family="Helvetica, Arial" font-size="32" font-weight="bold" fill="#fff">${escapeXml(titleFor(document.document_type))}</text>
+    ${hasPhoto ? `<rect x="40" y="130" width="220" height="280" fill="#fff" stroke="#9aa9bd" stroke-width="2" />${faceSvg(150, 280, 1.3, hue)}` : ''}
+    <text x="${hasPhoto ? 300 : 40}" y="180" font-family="Helvetica, Arial" font-size="30" fill="#222">${escapeXml(merchant.full_name)}</text>
+    <text x="${hasPhoto ? 300 : 40}" y="230" font-family="Helvetica, Arial" font-size="24" fill="#444">${escapeXml(merchant.business_name)}</text>
+    <text x="${hasPhoto ? 300 : 40}" y="290" font-family="Courier, monospace" font-size="28" fill="#111">${escapeXml(idLine)}</text>
+    <text x="${hasPhoto ? 300 : 40}" y="340" font-family="Helvetica, Arial" font-size="20" fill="#666">${escapeXml(merchant.business_address)} - ${escapeXml(merchant.pincode)}</text>
+    <text x="40" y="500" font-family="Helvetica, Arial" font-size="16" fill="#888">SPECIMEN • generated by the SabbPe support mock server</text>
+</svg>`;
+};
+
+// Hand-assembled PDF: catalog, page tree, one page + content stream per page and a
+// shared Helvetica font. Offsets in the xref table are computed from byte lengths.
+export const renderDocumentPdf = (merchant, document) => {
+    const pages = [
+        [
+            titleFor(document.document_type),
+            `Account holder: ${merchant.full_name}`,
+            `Business: ${merchant.business_name}`,
+            `PAN: ${merchant.pan_number}`,
+            `Address: ${merchant.business_address} - ${merchant.pincode}`,
+            `Document ref: ${document.id}`
+        ],
+        [
+            `${titleFor(document.document_type)} (continued)`,
+            'Page 2 of 2',
+            `Uploaded: ${document.uploaded_at}`,
+            'SPECIMEN - generated by the SabbPe support mock server'
+        ]
+    ];
+
+    const objects = [];
+    const pageIds = [];
+    const fontId = 3 + pages.length * 2;
+
+    pages.forEach((lines, index) => {
+        const pageId = 3 + index * 2;
+        const contentId = pageId + 1;
+        pageIds.push(pageId);
+        const stream = ['BT', '/F1 14 Tf', '50 780 Td', '20 TL', ...lines.map((line, i) => (i === 0 ? `/F1 22 Tf (${escapePdf(line)}) Tj /F1 14 Tf T* T*` : `(${escapePdf(line)}) Tj T*`)), 'ET'].join('\n');
+        objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${contentId} 0 R >>`;
+        objects[contentId] = `<< /Length ${Buffer.byteLength(stream)} >>\nstream\n${stream}\nendstream`;
+    });
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[fontId] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+
+    let body = '%PDF-1.4\n';
+    const offsets = [];
+    for (let id = 1; id < objects.length; id++) {
+        offsets[id] = Buffer.byteLength(body);
+        body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(body);
+    body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+        body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, 'latin1');
+};
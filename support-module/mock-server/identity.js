@@ -0,0 +1,52 @@
+// mock-server/identity.js
+// Aadhaar handling for the mock. Queue rows carry the masked number and the result of the format
+// and Verhoeff checks; the full number only leaves the server through the audited reveal.
+
+// Verhoeff tables (dihedral group D5 multiplication and permutation).
+const VERHOEFF_D = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+    [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+    [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+    [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+    [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+    [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+    [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+    [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+    [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+
+const VERHOEFF_P = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+    [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+    [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+    [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+    [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+    [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+    [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+const verhoeffValid = (digits) => {
+    let check = 0;
+    const reversed = digits.split('').reverse();
+    for (let i = 0; i < reversed.length; i++) {
+        check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(reversed[i])]];
+    }
+    return check === 0;
+};
+
+const normalizeAadhaar = (aadhaar) => String(aadhaar || '').replace(/[\s-]/g, '');
+
+// UIDAI display norms: only the last four digits are shown.
+export const maskAadhaar = (aadhaar) => {
+    const value = normalizeAadhaar(aadhaar);
+    return value.length < 4 ? 'XXXX XXXX XXXX' : `XXXX XXXX ${value.slice(-4)}`;
+};
+
+// Same shape as AadhaarChecks in src/lib/supportApi.ts; checksum is null when the format is wrong.
+export const aadhaarChecks = (aadhaar) => {
+    const value = normalizeAadhaar(aadhaar);
+    const format = /^[2-9]\d{11}$/.test(value);
+    return { format, checksum: format ? verhoeffValid(value) : null };
+};
@@ -0,0 +1,255 @@
+// mock-server/seed.js
+// Seed data for the local support mock. Shapes mirror the rows returned by the
+// real /api/support backend (merchant_profiles joined with merchant_kyc and
+// merchant_documents) so the portal can be exercised without it.
+
+export const SUPPORT_USERS = [
+    { id: 'sup-001', email: 'support@sabbpe.com', password: 'support123', name: 'Support Agent', role: 'support' },
+    { id: 'sup-002', email: 'agent2@sabbpe.com', password: 'support123', name: 'Second Agent', role: 'support' },
+    { id: 'sup-050', email: 'checker@sabbpe.com', password: 'checker123', name: 'KYC Checker', role: 'checker' },
+    { id: 'sup-100', email: 'supervisor@sabbpe.com', password: 'supervisor123', name: 'Support Supervisor', role: 'supervisor' },
+    { id: 'sup-200', email: 'viewer@sabbpe.com', password: 'viewer123', name: 'Compliance Viewer', role: 'viewer' },
+    { id: 'sup-900', email: 'admin@sabbpe.com', password: 'admin123', name: 'Portal Admin', role: 'admin' }
+];
+
+// Two-factor enrolments the mock starts with, so the code step can be tried without enrolling
+// first. Add the secret to any authenticator app; each backup code works once per mock run.
+export const SEEDED_MFA = [
+    { userId: 'sup-900', secret: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP', backupCodes: ['sabb-0001', 'sabb-0002', 'sabb-0003'] }
+];
+
+const MERCHANTS = [
+    {
+        id: 'mer-1001', full_name: 'Ravi Kumar', email: 'ravi.kumar@example.com', mobile_number: '9845012345',
+        business_name: 'Ravi General Stores', business_type: 'proprietorship', pan_number: 'ABCPK1234F',
+        aadhaar_number: '234567890124', business_address: '12 MG Road, Bengaluru', pincode: '560001',
+        daysAgo: 3, video: true, location: [12.9721, 77.5933], documents: ['pan_card', 'aadhaar_front', 'aadhaar_back', 'bank_statement']
+    },
+    {
+        id: 'mer-1002', full_name: 'Priya Sharma', email: 'priya@chaiwala.in', mobile_number: '9820098765',
+        business_name: 'Chaiwala Cafe LLP', business_type: 'partnership', pan_number: 'AAFFC4321K',
+        aadhaar_number: '345678901238', business_address: '4 Marine Drive, Mumbai', pincode: '400001',
+        daysAgo: 2, createdDaysAgo: 21, video: true, location: [18.9402, 72.8361], documents: ['pan_card', 'aadhaar_front', 'gst_certificate']
+    },
+    {
+        id: 'mer-1003', full_name: 'Anil Verma', email: 'anil.verma@example.com', mobile_number: '9811122233',
+        business_name: 'Verma Electronics Pvt Ltd', business_type: 'private_limited', pan_number: 'AACPV7788Q',
+        aadhaar_number: '456789012341', business_address: 'Connaught Place, New Delhi', pincode: '110001',
+        daysAgo: 1.5, video: false, location: null, documents: ['pan_card', 'gst_certificate', 'business_proof']
+    },
+    {
+        id: 'mer-1004', full_name: 'Lakshmi Narayanan', email: 'lakshmi.n@example.com', mobile_number: '9840055512',
+        business_name: 'Sri Lakshmi Textiles', business_type: 'proprietorship', pan_number: 'BNZPL5566M',
+        aadhaar_number: '567890123450', business_address: 'T Nagar, Chennai', pincode: '600017',
+        daysAgo: 0.8, video: true, location: [0, 0], documents: ['pan_card', 'aadhaar_front', 'aadhaar_back']
+    },
+    {
+        id: 'mer-1005', full_name: 'Sameer Joshi', email: 'sameer@punebakes.in', mobile_number: '9890123123',
+        business_name: 'Pune Bakes', business_type: 'individual', pan_number: 'CQJPJ9012B',
+        aadhaar_number: '678901234560', business_address: 'FC Road, Pune', pincode: '411004',
+        daysAgo: 0.4, video: false, location: [28.6139, 77.209], documents: ['pan_card', 'aadhaar_front']
+    },
+    {
+        id: 'mer-1006', full_name: 'Fatima Sheikh', email: 'fatima.sheikh@example.com', mobile_number: '9700011223',
+        business_name: 'Sheikh Handicrafts', business_type: 'proprietorship', pan_number: 'DHSPS3344L',
+        aadhaar_number: '789012345674', business_address: 'Charminar, Hyderabad', pincode: '500002',
+        daysAgo: 0.2, createdDaysAgo: 40, video: true, location: [17.3616, 78.4747], documents: ['pan_card', 'aadhaar_front', 'aadhaar_back', 'bank_statement', 'business_proof']
+    },
+    {
+        id: 'mer-1007', full_name: 'Subhash Ghosh', email: 'subhash@kolkatasweets.in', mobile_number: '9830044556',
+        business_name: 'Kolkata Sweets', business_type: 'proprietorship', pan_number: 'EGHPG77X1A',
+        aadhaar_number: '890123456784', business_address: 'Park Street, Kolkata', pincode: '700016',
+        daysAgo: 4, video: true, location: [22.5535, 88.3520], documents: ['aadhaar_front', 'aadhaar_back']
+    },
+    {
+        id: 'mer-1008', full_name: 'Meena Rathore', email: 'meena.rathore@example.com', mobile_number: '9414078901',
+        business_name: 'Rathore Gems', business_type: 'private_limited', pan_number: 'AAHCR2468D',
+        aadhaar_number: '298765432101', business_address: 'Johari Bazaar, Jaipur', pincode: '302003',
+        daysAgo: 0.05, video: true, location: [51.5072, -0.1276], documents: ['pan_card', 'gst_certificate', 'bank_statement']
+    }
+];
+
+// Earlier review rounds for resubmitted merchants, so the history timeline has something to show.
+// mer-1002 was rejected by support; mer-1006 passed support but was rejected by the bank.
+const PRIOR_REVIEWS = [
+    { merchantId: 'mer-1002', daysAgo: 18, stage: 'maker', reviewerId: 'sup-002', decision: 'reject', notes: 'GST certificate belongs to a different firm', reasonCodes: ['DOC_MISMATCH'] },
+    { merchantId: 'mer-1002', daysAgo: 17.5, stage: 'checker', reviewerId: 'sup-050', decision: 'reject', checkerAction: 'confirm', notes: 'Confirmed', reasonCodes: ['DOC_MISMATCH'] },
+    { merchantId: 'mer-1006', daysAgo: 35, stage: 'maker', reviewerId: 'sup-001', decision: 'approve', notes: 'All documents verified', reasonCodes: [] },
+    { merchantId: 'mer-1006', daysAgo: 34.8, stage: 'checker', reviewerId: 'sup-100', decision: 'approve', checkerAction: 'confirm', notes: '', reasonCodes: [] }
+];
+
+const PRIOR_BANK_DECISIONS = [
+    { merchantId: 'mer-1006', daysAgo: 32, decision: 'reject', by: 'NSDL Bank Officer', bankStaffId: 'NSDLB-0001', notes: 'Settlement account is in the name of a relative', reasonCodes: ['ACCOUNT_NAME_MISMATCH'] }
+];
+
+const FIRST_NAMES = ['Asha', 'Vikram', 'Meera', 'Rahul', 'Kavya', 'Suresh', 'Pooja', 'Imran', 'Lakshmi', 'Manoj'];
+const LAST_NAMES = ['Iyer', 'Joshi', 'Nair', 'Khan', 'Bose', 'Pillai', 'Desai', 'Chopra', 'Yadav', 'Shetty'];
+const TRADES = ['Kirana', 'Medicals', 'Hardware', 'Sweets', 'Textiles', 'Mobiles', 'Bakery'];
+
+// Synthetic clean cases for exercising pagination and the virtualized queue
+// (MOCK_BULK_MERCHANTS=5000 npm run mock). They reuse the first merchant's documents.
+const bulkMerchants = (count, firstNumber = 50000) => Array.from({ length: count }, (_, index) => {
+    const first = FIRST_NAMES[index % FIRST_NAMES.length];
+    const last = LAST_NAMES[Math.floor(index / FIRST_NAMES.length) % LAST_NAMES.length];
+    const id = `mer-${String(firstNumber + index)}`;
+    return {
+        ...MERCHANTS[0],
+        id,
+        full_name: `${first} ${last}`,
+        email: `${first}.${last}.${index}@example.com`.toLowerCase(),
+        business_name: `${last} ${TRADES[index % TRADES.length]} #${index + 1}`,
+        daysAgo: 0.1 + (index % 240) / 24
+    };
+});
+
+const PDF_DOCUMENTS = new Set(['bank_statement', 'gst_certificate']);
+
+const isoHoursAgo = (hours) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+export const documentExtension = (documentType) => (PDF_DOCUMENTS.has(documentType) ? 'pdf' : 'svg');
+
+const toMerchantRow = (m) => ({
+    id: m.id,
+    full_name: m.full_name,
+    email: m.email,
+    mobile_number: m.mobile_number,
+    business_name: m.business_name,
+    business_type: m.business_type,
+    business_address: m.business_address,
+    pincode: m.pincode,
+    pan_number: m.pan_number,
+    aadhaar_number: m.aadhaar_number,
+    onboarding_status: 'kyc_submitted',
+    created_at: isoHoursAgo((m.createdDaysAgo ?? m.daysAgo) * 24)
+});
+
+const toKycRow = (m, index) => ({
+    id: `kyc-${m.id.slice(4)}`,
+    merchant_id: m.id,
+    video_kyc_completed: m.video,
+    video_kyc_completed_at: m.video ? isoHoursAgo(m.daysAgo * 24 - 1) : null,
+    location_captured: m.location !== null,
+    latitude: m.location ? m.location[0] : 0,
+    longitude: m.location ? m.location[1] : 0,
+    location_captured_at: m.location ? isoHoursAgo(m.daysAgo * 24 - 1.5) : null,
+    selfie_file_path: `/uploads/${m.id}/selfie.svg`,
+    kyc_status: 'pending',
+    pending_review_id: null,
+    submitted_at: isoHoursAgo(m.daysAgo * 24 - 2 - index * 0.01)
+});
+
+const toDocumentRows = (m) => m.documents.map((documentType, index) => ({
+    id: `doc-${m.id.slice(4)}-${index + 1}`,
+    merchant_id: m.id,
+    document_type: documentType,
+    file_path: `/uploads/${m.id}/${documentType}.${documentExtension(documentType)}`,
+    uploaded_at: isoHoursAgo(m.daysAgo * 24 - 0.5 - index * 0.1),
+    verification_status: 'pending',
+    rejection_reason: null
+}));
+
+// A clean case submitted just now, used by POST /__mock/merchants to simulate live traffic.
+export const createSubmission = (sequence) => {
+    const m = { ...bulkMerchants(sequence + 1, 60000)[sequence], daysAgo: 2 / 24 };
+    return { merchant: toMerchantRow(m), kyc: toKycRow(m, 0), documents: toDocumentRows(m) };
+};
+
+// Decided cases spread over the last month, so the analytics page has something to chart.
+// Most are approved (and many then decided by the bank); the rest are rejected by support.
+const HISTORY_CASES = 90;
+const HISTORY_REJECTION_CODES = ['DOC_MISMATCH', 'DOC_BLURRY', 'SELFIE_MISMATCH', 'LOCATION_MISMATCH', 'PAN_INVALID', 'DOC_EXPIRED', 'DOC_MISMATCH'];
+const BANK_OFFICERS = [{ by: 'NSDL Bank Officer', bankStaffId: 'NSDLB-0001' }, { by: 'Second Officer', bankStaffId: 'NSDLB-0002' }];
+
+const historicalCases = () => bulkMerchants(HISTORY_CASES, 40000).map((m, index) => {
+    const daysAgo = 1 + ((index * 7) % 30) + (index % 3) * 0.3;
+    const makerHoursAgo = Math.max(3, daysAgo * 24 - 3 - ((index * 11) % 40));
+    const approved = index % 10 < 7;
+    const reasonCode = HISTORY_REJECTION_CODES[index % HISTORY_REJECTION_CODES.length];
+    const reviews = [
+        { stage: 'maker', reviewerId: index % 2 === 0 ? 'sup-001' : 'sup-002', hoursAgo: makerHoursAgo },
+        { stage: 'checker', reviewerId: index % 3 === 0 ? 'sup-100' : 'sup-050', hoursAgo: makerHoursAgo - 2, checkerAction: 'confirm' }
+    ].map((review) => ({
+        ...review,
+        merchantId: m.id,
+        decision: approved ? 'approve' : 'reject',
+        notes: approved ? '' : 'See reason code',
+        reasonCodes: approved ? [] : [reasonCode]
+    }));
+    // A quarter of approved cases are still waiting at the bank, as are any approved in the last day.
+    const bankHoursAgo = makerHoursAgo - 14 - (index % 24);
+    const bank = approved && index % 4 !== 0 && bankHoursAgo > 1
+        ? {
+            merchantId: m.id,
+            hoursAgo: bankHoursAgo,
+            decision: index % 9 === 0 ? 'reject' : 'approve',
+            ...BANK_OFFICERS[index % BANK_OFFICERS.length],
+            notes: index % 9 === 0 ? 'Settlement account could not be verified' : 'Verified with CKYC',
+            reasonCodes: index % 9 === 0 ? ['ACCOUNT_NAME_MISMATCH'] : []
+        }
+        : null;
+    const onboardingStatus = !approved ? 'kyc_rejected' : !bank ? 'pending_bank_approval' : bank.decision === 'approve' ? 'bank_approved' : 'bank_rejected';
+    return {
+        merchant: { ...toMerchantRow({ ...m, daysAgo, createdDaysAgo: daysAgo + 1 + (index % 5) }), onboarding_status: onboardingStatus },
+        kyc: { ...toKycRow({ ...m, daysAgo }, 0), kyc_status: approved ? 'approved' : 'rejected' },
+        documents: toDocumentRows({ ...m, daysAgo }).map((document) => ({ ...document, verification_status: approved ? 'accepted' : 'pending' })),
+        reviews,
+        bank
+    };
+});
+
+// Builds a fresh copy of the mock database. Timestamps are relative to "now"
+// so queue ageing looks the same every time the server starts.
+export const createSeed = ({ bulkCount = Number(process.env.MOCK_BULK_MERCHANTS || 0) } = {}) => {
+    const seeds = [...MERCHANTS, ...bulkMerchants(bulkCount)];
+    const history = historicalCases();
+    const merchants = [...seeds.map(toMerchantRow), ...history.map((c) => c.merchant)];
+    const merchantKyc = [...seeds.map(toKycRow), ...history.map((c) => c.kyc)];
+    const merchantDocuments = [...seeds.flatMap(toDocumentRows), ...history.flatMap((c) => c.documents)];
+
+    const reviewSeeds = [
+        ...PRIOR_REVIEWS.map((review) => ({ ...review, hoursAgo: review.daysAgo * 24 })),
+        ...history.flatMap((c) => c.reviews)
+    ];
+    const kycReviews = reviewSeeds.map((review, index) => {
+        const reviewer = SUPPORT_USERS.find((u) => u.id === review.reviewerId);
+        const reviewedAt = isoHoursAgo(review.hoursAgo);
+        return {
+            id: `rev-${index + 1}`,
+            merchant_id: review.merchantId,
+            stage: review.stage,
+            ...(review.stage === 'checker' ? { checker_action: review.checkerAction, maker_review_id: `rev-${index}` } : {}),
+            reviewer_id: reviewer.id,
+            reviewer_name: reviewer.name,
+            decision: review.decision,
+            review_notes: review.notes,
+            reason_codes: review.reasonCodes,
+            reviewed_at: reviewedAt
+        };
+    });
+
+    const bankSeeds = [
+        ...PRIOR_BANK_DECISIONS.map((decision) => ({ ...decision, hoursAgo: decision.daysAgo * 24 })),
+        ...history.map((c) => c.bank).filter(Boolean)
+    ];
+    const bankDecisions = bankSeeds.map((decision, index) => ({
+        id: `bdec-${index + 1}`,
+        merchant_id: decision.merchantId,
+        decision: decision.decision,
+        notes: decision.notes,
+        reason_codes: decision.reasonCodes,
+        decided_by: decision.by,
+        bank_staff_id: decision.bankStaffId,
+        decided_at: isoHoursAgo(decision.hoursAgo)
+    }));
+
+    return {
+        merchants,
+        merchantKyc,
+        merchantDocuments,
+        kycReviews,
+        bankDecisions,
+        infoRequests: [],
+        claims: [],
+        auditEvents: []
+    };
+};
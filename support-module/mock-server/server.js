@@ -0,0 +1,1189 @@
+// mock-server/server.js
+// In-memory stand-in for the SabbPe /api/support backend.
+//
+//   npm run mock                         # http://localhost:5000
+//   MOCK_SCENARIO=slow npm run mock      # start with a fault scenario active
+//
+// Scenarios can also be switched at runtime with POST /__mock/scenario or per
+// request with an `X-Mock-Scenario` header / `?mockScenario=` query parameter.
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+import { createSeed, createSubmission, SUPPORT_USERS, SEEDED_MFA } from './seed.js';
+import { signToken, verifyToken } from './jwt.js';
+import { generateSecret, matchTotp, otpauthUrl, generateBackupCodes, hashBackupCode } from './totp.js';
+import { maskAadhaar, aadhaarChecks } from './identity.js';
+import { renderDocumentPdf, renderDocumentSvg, renderSelfieSvg } from './documents.js';
+
+const PORT = Number(process.env.MOCK_PORT || 5000);
+const API_PREFIX = '/api/support';
+const TOKEN_TTL_SECONDS = Number(process.env.MOCK_TOKEN_TTL || 8 * 60 * 60);
+const REFRESH_TTL_SECONDS = Number(process.env.MOCK_REFRESH_TTL || 7 * 24 * 60 * 60);
+// Time between a correct password and the authentication code before the password is asked again.
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+const MFA_MAX_ATTEMPTS = 5;
+const MFA_ISSUER = 'SabbPe Support';
+const SLOW_DELAY_MS = Number(process.env.MOCK_DELAY_MS || 3000);
+const HEARTBEAT_MS = 25 * 1000;
+const CLAIM_TTL_SECONDS = Number(process.env.MOCK_CLAIM_TTL || 15 * 60);
+
+export const SCENARIOS = {
+    none: 'Normal behaviour',
+    unauthorized: 'Every API call answers 401, as if the session expired',
+    'server-error': 'Every API call answers 500',
+    slow: `Every API call is delayed by ${SLOW_DELAY_MS}ms`,
+    malformed: 'Every API call answers 200 with a truncated JSON body',
+    empty: 'The pending queue is empty',
+    'no-push': 'The live updates stream answers 503, so dashboards fall back to polling'
+};
+
+let db = createSeed();
+let submissionCount = 0;
+let activeScenario = process.env.MOCK_SCENARIO || 'none';
+
+if (!SCENARIOS[activeScenario]) {
+    console.error(`[mock] Unknown MOCK_SCENARIO "${activeScenario}". Available: ${Object.keys(SCENARIOS).join(', ')}`);
+    process.exit(1);
+}
+
+class HttpError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const sendJson = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req) => {
+    const chunks = [];
+    for await (const chunk of req) chunks.push(chunk);
+    if (chunks.length === 0) return {};
+    let body;
+    try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'Request body is not valid JSON');
+    }
+    // Handlers destructure the body, so null, arrays and bare values are refused here.
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new HttpError(400, 'Request body must be a JSON object');
+    }
+    return body;
+};
+
+// EventSource cannot send headers, so the events stream (the only `stream` route) also accepts
+// ?access_token=. Other routes take the Authorization header only, keeping tokens out of URLs.
+const requireUser = (req, url, allowQueryToken = false) => {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : allowQueryToken ? url.searchParams.get('access_token') : null;
+    const claims = verifyToken(token);
+    if (!claims) throw new HttpError(401, 'Invalid or expired token');
+    const user = SUPPORT_USERS.find((u) => u.id === claims.sub);
+    if (!user) throw new HttpError(401, 'Unknown user');
+    return user;
+};
+
+const publicUser = ({ password: _password, ...user }) => user;
+
+// Same table as src/lib/permissions.ts. Roles missing from it get no permissions.
+const VIEWER_PERMISSIONS = ['queue:view', 'data:export'];
+const REVIEWER_PERMISSIONS = [...VIEWER_PERMISSIONS, 'case:review', 'identity:reveal'];
+const CHECKER_PERMISSIONS = [...REVIEWER_PERMISSIONS, 'case:verify'];
+const SUPERVISOR_PERMISSIONS = [...CHECKER_PERMISSIONS, 'case:reassign', 'data:export_unmasked', 'analytics:view'];
+const ROLE_PERMISSIONS = {
+    viewer: VIEWER_PERMISSIONS,
+    reviewer: REVIEWER_PERMISSIONS,
+    support: REVIEWER_PERMISSIONS,
+    checker: CHECKER_PERMISSIONS,
+    supervisor: SUPERVISOR_PERMISSIONS,
+    admin: SUPERVISOR_PERMISSIONS
+};
+
+const hasPermission = (user, permission) => Boolean(ROLE_PERMISSIONS[user.role]?.includes(permission));
+
+const requirePermission = (user, permission, message) => {
+    if (!hasPermission(user, permission)) throw new HttpError(403, message);
+};
+
+// Refresh tokens are opaque and held in memory, so they do not survive a restart. Each one is
+// single-use: POST /auth/refresh swaps it for a new access and refresh token pair.
+const refreshTokens = new Map();
+
+const issueSession = (user) => {
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    refreshTokens.set(refreshToken, { userId: user.id, expiresAt: Date.now() + REFRESH_TTL_SECONDS * 1000 });
+    return {
+        token: signToken({ sub: user.id, email: user.email, role: user.role }, TOKEN_TTL_SECONDS),
+        refreshToken,
+        user: publicUser(user)
+    };
+};
+
+// Two-factor enrolments by user id. Like refresh tokens they live in memory, so enrolments made
+// while the mock runs are lost on restart; SEEDED_MFA is enrolled again each time.
+const mfaEnrolments = new Map(SEEDED_MFA.map(({ userId, secret, backupCodes }) => [
+    userId,
+    { secret, backupCodeHashes: backupCodes.map(hashBackupCode), lastStep: null }
+]));
+// Secrets handed out by POST /auth/mfa/enroll that have not been confirmed with a code yet.
+const pendingMfaSecrets = new Map();
+// Logins that passed the password check and wait for the code, keyed by an opaque single-use token.
+const mfaChallenges = new Map();
+
+// True when `code` is a current authenticator code or an unused backup code. Both work once: an
+// authenticator code cannot be replayed within its window and a backup code is struck off.
+const checkSecondFactor = (enrolment, code) => {
+    const value = String(code || '').trim();
+    const step = matchTotp(enrolment.secret, value.replace(/\s/g, ''));
+    if (step !== null) {
+        if (enrolment.lastStep !== null && step <= enrolment.lastStep) return false;
+        enrolment.lastStep = step;
+        return true;
+    }
+    const index = enrolment.backupCodeHashes.indexOf(hashBackupCode(value));
+    if (index === -1) return false;
+    enrolment.backupCodeHashes.splice(index, 1);
+    return true;
+};
+
+// For the account's own MFA settings. A wrong code here is a 400, not a 401, because the session
+// itself is fine.
+const requireSecondFactor = (user, code) => {
+    const enrolment = mfaEnrolments.get(user.id);
+    if (!enrolment) throw new HttpError(409, 'Two-factor authentication is not turned on');
+    if (!checkSecondFactor(enrolment, code)) throw new HttpError(400, 'Incorrect authentication code');
+    return enrolment;
+};
+
+const mfaStatus = (user) => {
+    const enrolment = mfaEnrolments.get(user.id);
+    return { enabled: Boolean(enrolment), backupCodesRemaining: enrolment ? enrolment.backupCodeHashes.length : 0 };
+};
+
+const issueBackupCodes = (enrolment) => {
+    const backupCodes = generateBackupCodes();
+    enrolment.backupCodeHashes = backupCodes.map(hashBackupCode);
+    return backupCodes;
+};
+
+// Open GET /events streams. Every queue change is pushed to all of them.
+const eventClients = new Set();
+
+const broadcast = (type, merchantId, actor, extra = {}) => {
+    const event = {
+        type,
+        merchantId,
+        actor: actor ? { id: actor.id, name: actor.name } : null,
+        at: new Date().toISOString(),
+        ...extra
+    };
+    const frame = `event: ${type}\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const client of eventClients) client.write(frame);
+};
+
+const findMerchant = (merchantId) => {
+    const merchant = db.merchants.find((m) => m.id === merchantId);
+    if (!merchant) throw new HttpError(404, `Merchant ${merchantId} not found`);
+    return merchant;
+};
+
+const kycFor = (merchantId) => db.merchantKyc.find((k) => k.merchant_id === merchantId);
+
+const documentsFor = (merchantId) => db.merchantDocuments.filter((d) => d.merchant_id === merchantId);
+
+// A claim locks a case to one reviewer until it is released, decided or expires.
+const activeClaim = (merchantId) => {
+    const claim = db.claims.find((c) => c.merchant_id === merchantId);
+    return claim && Date.parse(claim.expires_at) > Date.now() ? claim : null;
+};
+
+const setClaim = (merchantId, assignee) => {
+    const claimedAt = new Date();
+    const claim = {
+        merchant_id: merchantId,
+        claimed_by: assignee.id,
+        claimed_by_name: assignee.name,
+        claimed_at: claimedAt.toISOString(),
+        expires_at: new Date(claimedAt.getTime() + CLAIM_TTL_SECONDS * 1000).toISOString()
+    };
+    releaseClaim(merchantId);
+    db.claims.push(claim);
+    return claim;
+};
+
+const releaseClaim = (merchantId) => {
+    db.claims = db.claims.filter((c) => c.merchant_id !== merchantId);
+};
+
+const requireClaim = (merchantId, user) => {
+    const claim = activeClaim(merchantId);
+    if (!claim) throw new HttpError(409, `Claim ${merchantId} before deciding it`);
+    if (claim.claimed_by !== user.id) throw new HttpError(409, `${merchantId} is being reviewed by ${claim.claimed_by_name}`);
+};
+
+// Statuses in which a case sits in a reviewer's queue and can be claimed.
+const CLAIMABLE_STATUSES = ['pending', 'pending_verification'];
+
+// Shape of one row in GET /kyc/pending, matching PendingKYC in src/lib/supportApi.ts. The Aadhaar
+// number is replaced by its masked form and check results; POST /kyc/reveal-aadhaar returns it.
+const toPendingKYC = ({ aadhaar_number: aadhaarNumber, ...merchant }) => ({
+    ...merchant,
+    aadhaar_masked: maskAadhaar(aadhaarNumber),
+    aadhaar_checks: aadhaarChecks(aadhaarNumber),
+    merchant_kyc: kycFor(merchant.id),
+    merchant_documents: documentsFor(merchant.id),
+    info_requests: db.infoRequests.filter((r) => r.merchant_id === merchant.id),
+    pending_review: db.kycReviews.find((r) => r.id === kycFor(merchant.id)?.pending_review_id) || null,
+    claim: activeClaim(merchant.id)
+});
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+// Sortable columns of the queue endpoints; values are read from the merchant row and its KYC row.
+const SORT_FIELDS = {
+    submitted_at: (merchant, kyc) => kyc.submitted_at,
+    created_at: (merchant) => merchant.created_at,
+    business_name: (merchant) => merchant.business_name.toLowerCase(),
+    full_name: (merchant) => merchant.full_name.toLowerCase()
+};
+
+const parsePositiveInt = (value, fallback, name) => {
+    if (value === null || value === '') return fallback;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) throw new HttpError(400, `${name} must be a positive integer`);
+    return number;
+};
+
+const parseBoolean = (value, name) => {
+    if (value === null || value === '') return null;
+    if (value !== 'true' && value !== 'false') throw new HttpError(400, `${name} must be true or false`);
+    return value === 'true';
+};
+
+const parseDate = (value, name) => {
+    if (!value) return null;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) throw new HttpError(400, `${name} must be a YYYY-MM-DD date`);
+    return value;
+};
+
+const parseTimestamp = (value, name) => {
+    if (!value) return null;
+    if (Number.isNaN(Date.parse(value))) throw new HttpError(400, `${name} must be an ISO timestamp`);
+    return new Date(value).toISOString();
+};
+
+const parseList = (value) => (value ? value.split(',').map((item) => item.trim()).filter(Boolean) : []);
+
+// Attribute filters of the queue endpoints. Each returns null when the parameter is absent.
+const buildQueueFilters = (url, kycById) => {
+    const params = url.searchParams;
+    const videoKyc = parseBoolean(params.get('videoKyc'), 'videoKyc');
+    const locationCaptured = parseBoolean(params.get('locationCaptured'), 'locationCaptured');
+    const kycStatus = params.get('kycStatus') || null;
+    const createdFrom = parseDate(params.get('createdFrom'), 'createdFrom');
+    const createdTo = parseDate(params.get('createdTo'), 'createdTo');
+    const hasDocuments = parseList(params.get('hasDocuments'));
+    const missingDocuments = parseList(params.get('missingDocuments'));
+    const submittedBefore = parseTimestamp(params.get('submittedBefore'), 'submittedBefore');
+
+    const documentTypes = new Map();
+    for (const document of db.merchantDocuments) {
+        if (!documentTypes.has(document.merchant_id)) documentTypes.set(document.merchant_id, new Set());
+        documentTypes.get(document.merchant_id).add(document.document_type);
+    }
+
+    return [
+        videoKyc !== null && ((m) => kycById.get(m.id).video_kyc_completed === videoKyc),
+        locationCaptured !== null && ((m) => kycById.get(m.id).location_captured === locationCaptured),
+        kycStatus && ((m) => kycById.get(m.id).kyc_status === kycStatus),
+        // Dates are calendar days in UTC; createdTo includes the whole day.
+        createdFrom && ((m) => m.created_at.slice(0, 10) >= createdFrom),
+        createdTo && ((m) => m.created_at.slice(0, 10) <= createdTo),
+        hasDocuments.length > 0 && ((m) => hasDocuments.every((type) => documentTypes.get(m.id)?.has(type))),
+        missingDocuments.length > 0 && ((m) => missingDocuments.every((type) => !documentTypes.get(m.id)?.has(type))),
+        submittedBefore && ((m) => kycById.get(m.id).submitted_at < submittedBefore)
+    ].filter(Boolean);
+};
+
+// Filters, sorts and pages the merchants whose KYC is in one of `statuses`, following the
+// ?page=&pageSize=&sortBy=&sortDir=&search= query parameters and the attribute filters above.
+// Search matches name, email, business name, mobile number and PAN.
+const listQueue = (statuses, url) => {
+    const page = parsePositiveInt(url.searchParams.get('page'), 1, 'page');
+    const pageSize = Math.min(parsePositiveInt(url.searchParams.get('pageSize'), DEFAULT_PAGE_SIZE, 'pageSize'), MAX_PAGE_SIZE);
+    const sortBy = url.searchParams.get('sortBy') || 'submitted_at';
+    const sortDir = url.searchParams.get('sortDir') || 'asc';
+    const search = (url.searchParams.get('search') || '').trim().toLowerCase();
+    if (!SORT_FIELDS[sortBy]) throw new HttpError(400, `sortBy must be one of ${Object.keys(SORT_FIELDS).join(', ')}`);
+    if (sortDir !== 'asc' && sortDir !== 'desc') throw new HttpError(400, 'sortDir must be asc or desc');
+
+    const kycById = new Map(db.merchantKyc.map((k) => [k.merchant_id, k]));
+    const filters = buildQueueFilters(url, kycById);
+    const sortValue = SORT_FIELDS[sortBy];
+    const direction = sortDir === 'asc' ? 1 : -1;
+    const matches = db.merchants
+        .filter((m) => statuses.includes(kycById.get(m.id)?.kyc_status))
+        .filter((m) => !search || [m.full_name, m.email, m.business_name, m.mobile_number, m.pan_number].some((value) => value.toLowerCase().includes(search)))
+        .filter((m) => filters.every((matches) => matches(m)))
+        .sort((a, b) => {
+            const left = sortValue(a, kycById.get(a.id));
+            const right = sortValue(b, kycById.get(b.id));
+            return (left < right ? -1 : left > right ? 1 : 0) * direction || a.id.localeCompare(b.id);
+        });
+
+    const data = matches.slice((page - 1) * pageSize, page * pageSize).map(toPendingKYC);
+    return {
+        success: true,
+        count: data.length,
+        total: matches.length,
+        page,
+        pageSize,
+        hasMore: page * pageSize < matches.length,
+        data
+    };
+};
+
+// Same codes as REASON_CODES in src/data/reasonCodes.ts, the catalogue the ReasonCodePicker offers.
+const REASON_CODES = new Set([
+    'DOC_MISMATCH', 'DOC_BLURRY', 'DOC_CROPPED', 'DOC_EXPIRED', 'DOC_MISSING',
+    'PAN_INVALID', 'PAN_ENTITY_MISMATCH', 'AADHAAR_INVALID', 'SELFIE_MISMATCH', 'VIDEO_KYC_INCOMPLETE',
+    'LOCATION_MISSING', 'LOCATION_MISMATCH',
+    'SUSPECTED_FRAUD', 'OTHER'
+]);
+
+const checkReasonCodes = (reasonCodes) => {
+    if (!Array.isArray(reasonCodes) || reasonCodes.some((code) => typeof code !== 'string' || !code)) {
+        throw new HttpError(400, 'reasonCodes must be an array of codes');
+    }
+    const unknown = reasonCodes.filter((code) => !REASON_CODES.has(code));
+    if (unknown.length > 0) throw new HttpError(400, `Unknown reason code: ${unknown.join(', ')}`);
+};
+
+// Effect of each review decision on merchant_kyc.kyc_status and merchant_profiles.onboarding_status.
+const DECISION_OUTCOMES = {
+    approve: { kycStatus: 'approved', onboardingStatus: 'pending_bank_approval', message: 'KYC approved' },
+    reject: { kycStatus: 'rejected', onboardingStatus: 'kyc_rejected', message: 'KYC rejected' },
+    request_reupload: { kycStatus: 'reupload_requested', onboardingStatus: 'documents_reupload_requested', message: 'Document re-upload requested' },
+    needs_info: { kycStatus: 'awaiting_merchant', onboardingStatus: 'kyc_info_requested', message: 'Question sent to merchant' }
+};
+
+// Decisions a maker can only propose: they wait in kyc_status 'pending_verification' until a
+// different user confirms or overturns them through POST /kyc/verify.
+const CHECKED_DECISIONS = ['approve', 'reject'];
+const OVERTURNED_DECISION = { approve: 'reject', reject: 'approve' };
+
+// kyc_status values that park a case with the merchant instead of the review queue.
+const AWAITING_MERCHANT_STATUSES = ['awaiting_merchant', 'reupload_requested'];
+
+const DOCUMENT_STATUS_BY_VERDICT = {
+    accepted: 'accepted',
+    rejected: 'rejected',
+    reupload: 'reupload_requested'
+};
+
+// Overall decision implied by the verdicts, as deriveDecision in src/lib/documentVerdicts.ts: any
+// rejected document rejects, otherwise any re-upload sends it back, and only a full set of accepted
+// verdicts approves. Null while documents are still unmarked.
+const deriveDecision = (documents, documentVerdicts) => {
+    if (documentVerdicts.some((v) => v.verdict === 'rejected')) return 'reject';
+    if (documentVerdicts.some((v) => v.verdict === 'reupload')) return 'request_reupload';
+    if (documents.length > 0 && documentVerdicts.length === documents.length) return 'approve';
+    return null;
+};
+
+// Validates per-document verdicts (at most one per document, each with a reason unless accepted)
+// and that the overall decision follows from them. Rejecting stays open whatever the documents say,
+// because a case can fail on the face match or the reason codes alone.
+const checkDocumentVerdicts = (merchantId, decision, documentVerdicts = []) => {
+    if (!Array.isArray(documentVerdicts)) throw new HttpError(400, 'documentVerdicts must be an array');
+
+    const documents = documentsFor(merchantId);
+    const seen = new Set();
+    for (const verdict of documentVerdicts) {
+        if (!documents.some((d) => d.id === verdict.documentId)) {
+            throw new HttpError(400, `Document ${verdict.documentId} does not belong to ${merchantId}`);
+        }
+        if (seen.has(verdict.documentId)) throw new HttpError(400, `More than one verdict for ${verdict.documentId}`);
+        seen.add(verdict.documentId);
+        if (!DOCUMENT_STATUS_BY_VERDICT[verdict.verdict]) {
+            throw new HttpError(400, `Unknown verdict "${verdict.verdict}" for ${verdict.documentId}`);
+        }
+        if (verdict.verdict !== 'accepted' && !String(verdict.reason || '').trim()) {
+            throw new HttpError(400, `A reason is required for ${verdict.documentId}`);
+        }
+    }
+
+    const derived = deriveDecision(documents, documentVerdicts);
+    if (decision === 'approve' && derived !== 'approve') {
+        throw new HttpError(400, 'Every document must have a verdict, and all must be accepted, to approve');
+    }
+    if (decision === 'request_reupload' && derived !== 'request_reupload') {
+        throw new HttpError(400, 'A re-upload request needs at least one re-upload verdict and no rejected documents');
+    }
+    if (decision === 'needs_info' && derived === 'reject') {
+        throw new HttpError(400, 'A document is rejected, so the KYC must be rejected rather than sent back');
+    }
+    // A merchant's answer returns the case to the queue without a new upload, so a question cannot
+    // carry re-upload verdicts.
+    if (decision === 'needs_info' && derived === 'request_reupload') {
+        throw new HttpError(400, 'A document needs re-uploading, so use Request Re-upload rather than sending a question');
+    }
+
+    return documentVerdicts.map(({ documentId, verdict, reason }) => ({ documentId, verdict, reason: reason || null }));
+};
+
+const applyOutcome = (merchant, kyc, decision, verdicts, decidedAt) => {
+    const outcome = DECISION_OUTCOMES[decision];
+    kyc.kyc_status = outcome.kycStatus;
+    kyc.reviewed_at = decidedAt;
+    kyc.pending_review_id = null;
+    merchant.onboarding_status = outcome.onboardingStatus;
+    for (const verdict of verdicts) {
+        const document = db.merchantDocuments.find((d) => d.id === verdict.documentId);
+        document.verification_status = DOCUMENT_STATUS_BY_VERDICT[verdict.verdict];
+        document.rejection_reason = verdict.verdict === 'accepted' ? null : verdict.reason;
+    }
+};
+
+// Matches MAX_EXPORT_ROWS in src/lib/dataExport.ts.
+const MAX_EXPORT_ROWS = 10000;
+
+// Audit records are written by the endpoints that hand out sensitive data, in the same request, so
+// the data cannot be had without its record.
+const recordAuditEvent = (user, action, { merchantId = null, reason = null } = {}) => {
+    const event = {
+        id: `aud-${db.auditEvents.length + 1}`,
+        action,
+        merchant_id: merchantId,
+        actor_id: user.id,
+        actor_name: user.name,
+        reason,
+        created_at: new Date().toISOString()
+    };
+    db.auditEvents.push(event);
+    console.log(`[mock] audit: ${user.email} ${action} ${merchantId || reason || ''}`);
+    return event;
+};
+
+// Every review record, newest first, with the merchant's names joined in for GET /kyc/decisions.
+// ?from=&to= are inclusive UTC dates on reviewed_at.
+const listDecisions = (url) => {
+    const page = parsePositiveInt(url.searchParams.get('page'), 1, 'page');
+    const pageSize = Math.min(parsePositiveInt(url.searchParams.get('pageSize'), DEFAULT_PAGE_SIZE, 'pageSize'), MAX_PAGE_SIZE);
+    const from = parseDate(url.searchParams.get('from'), 'from');
+    const to = parseDate(url.searchParams.get('to'), 'to');
+    const matches = db.kycReviews
+        .filter((r) => (!from || r.reviewed_at.slice(0, 10) >= from) && (!to || r.reviewed_at.slice(0, 10) <= to))
+        .sort((a, b) => b.reviewed_at.localeCompare(a.reviewed_at) || b.id.localeCompare(a.id));
+    const data = matches.slice((page - 1) * pageSize, page * pageSize).map((review) => {
+        const merchant = findMerchant(review.merchant_id);
+        return { ...review, business_name: merchant.business_name, full_name: merchant.full_name };
+    });
+    return { success: true, count: data.length, total: matches.length, page, pageSize, hasMore: page * pageSize < matches.length, data };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_ANALYTICS_DAYS = 30;
+
+const median = (values) => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const countBy = (items, key) => items.reduce((counts, item) => {
+    counts[key(item)] = (counts[key(item)] || 0) + 1;
+    return counts;
+}, {});
+
+// Review records that decided the case: checker verdicts, plus maker decisions that skip the checker.
+const effectiveReviews = () => db.kycReviews.filter((r) => r.stage === 'checker' || !CHECKED_DECISIONS.includes(r.decision));
+
+// Aggregates for GET /analytics over the inclusive UTC dates ?from=&to= (default: the last 30 days).
+const buildAnalytics = (url) => {
+    const to = parseDate(url.searchParams.get('to'), 'to') || new Date().toISOString().slice(0, 10);
+    const from = parseDate(url.searchParams.get('from'), 'from')
+        || new Date(Date.parse(to) - (DEFAULT_ANALYTICS_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+    if (from > to) throw new HttpError(400, 'from must not be after to');
+    const inRange = (iso) => Boolean(iso) && iso.slice(0, 10) >= from && iso.slice(0, 10) <= to;
+    const createdAt = new Map(db.merchants.map((m) => [m.id, Date.parse(m.created_at)]));
+
+    const reviews = db.kycReviews.filter((r) => inRange(r.reviewed_at));
+    const perReviewerDay = new Map();
+    for (const review of reviews) {
+        const key = `${review.reviewed_at.slice(0, 10)}|${review.reviewer_id}`;
+        const entry = perReviewerDay.get(key) || { date: review.reviewed_at.slice(0, 10), reviewerId: review.reviewer_id, reviewerName: review.reviewer_name, count: 0 };
+        entry.count += 1;
+        perReviewerDay.set(key, entry);
+    }
+
+    const decided = effectiveReviews().filter((r) => inRange(r.reviewed_at));
+    const bankDecided = db.bankDecisions.filter((d) => inRange(d.decided_at));
+    const reasons = new Map();
+    const addReasons = (codes, source) => codes.forEach((code) => {
+        const key = `${source}|${code}`;
+        reasons.set(key, { code, source, count: (reasons.get(key)?.count || 0) + 1 });
+    });
+    decided.filter((r) => r.decision === 'reject').forEach((r) => addReasons(r.reason_codes || [], 'support'));
+    bankDecided.filter((d) => d.decision === 'reject').forEach((d) => addReasons(d.reason_codes || [], 'bank'));
+
+    const hoursSinceCreated = (merchantId, iso) => (Date.parse(iso) - createdAt.get(merchantId)) / HOUR_MS;
+    const finalSupport = decided.filter((r) => CHECKED_DECISIONS.includes(r.decision));
+
+    // Funnel of merchants who submitted KYC in the range, followed to their latest outcome.
+    const submitted = db.merchantKyc.filter((k) => inRange(k.submitted_at)).map((k) => k.merchant_id);
+    const supportApproved = new Set(effectiveReviews().filter((r) => r.decision === 'approve').map((r) => r.merchant_id));
+    const bankApproved = new Set(db.bankDecisions.filter((d) => d.decision === 'approve').map((d) => d.merchant_id));
+
+    return {
+        success: true,
+        from,
+        to,
+        decisionsByReviewer: [...perReviewerDay.values()].sort((a, b) => a.date.localeCompare(b.date) || a.reviewerName.localeCompare(b.reviewerName)),
+        supportOutcomes: countBy(decided, (r) => r.decision),
+        bankOutcomes: countBy(bankDecided, (d) => d.decision),
+        rejectionReasons: [...reasons.values()].sort((a, b) => b.count - a.count || a.code.localeCompare(b.code)).slice(0, 10),
+        timeToDecision: {
+            support: { medianHours: median(finalSupport.map((r) => hoursSinceCreated(r.merchant_id, r.reviewed_at))), count: finalSupport.length },
+            bank: { medianHours: median(bankDecided.map((d) => hoursSinceCreated(d.merchant_id, d.decided_at))), count: bankDecided.length }
+        },
+        funnel: [
+            { stage: 'submitted', count: submitted.length },
+            { stage: 'support_approved', count: submitted.filter((id) => supportApproved.has(id)).length },
+            { stage: 'bank_approved', count: submitted.filter((id) => bankApproved.has(id)).length }
+        ]
+    };
+};
+
+const routes = [
+    {
+        method: 'POST',
+        path: /^\/auth\/login$/,
+        handler: async ({ req }) => {
+            const { email, password } = await readJsonBody(req);
+            if (!email || !password) throw new HttpError(400, 'Email and password are required');
+
+            const user = SUPPORT_USERS.find((u) => u.email === String(email).toLowerCase() && u.password === password);
+            if (!user) throw new HttpError(401, 'Invalid email or password');
+
+            // With two-factor on, the password only earns a challenge; the session comes from /auth/mfa/verify.
+            if (mfaEnrolments.has(user.id)) {
+                const mfaToken = crypto.randomBytes(32).toString('base64url');
+                const expiresAt = Date.now() + MFA_CHALLENGE_TTL_SECONDS * 1000;
+                mfaChallenges.set(mfaToken, { userId: user.id, expiresAt, attempts: 0 });
+                return { success: true, message: 'Enter your authentication code', mfaRequired: true, mfaToken, expiresAt: new Date(expiresAt).toISOString() };
+            }
+
+            return {
+                success: true,
+                message: 'Login successful',
+                ...issueSession(user)
+            };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/verify$/,
+        handler: async ({ req }) => {
+            const { mfaToken, code } = await readJsonBody(req);
+            const challenge = mfaChallenges.get(mfaToken);
+            if (!challenge || challenge.expiresAt <= Date.now()) {
+                mfaChallenges.delete(mfaToken);
+                throw new HttpError(401, 'Sign-in timed out, please enter your password again');
+            }
+            const user = SUPPORT_USERS.find((u) => u.id === challenge.userId);
+            const enrolment = mfaEnrolments.get(challenge.userId);
+            if (!user || !enrolment) throw new HttpError(401, 'Unknown user');
+
+            if (!checkSecondFactor(enrolment, code)) {
+                challenge.attempts += 1;
+                if (challenge.attempts >= MFA_MAX_ATTEMPTS) {
+                    mfaChallenges.delete(mfaToken);
+                    throw new HttpError(401, 'Too many incorrect codes, please sign in again');
+                }
+                throw new HttpError(400, 'Incorrect authentication code');
+            }
+            mfaChallenges.delete(mfaToken);
+            return {
+                success: true,
+                message: 'Login successful',
+                ...issueSession(user),
+                backupCodesRemaining: enrolment.backupCodeHashes.length
+            };
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/auth\/mfa$/,
+        auth: true,
+        handler: async ({ user }) => ({ success: true, data: mfaStatus(user) })
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/enroll$/,
+        auth: true,
+        handler: async ({ user }) => {
+            if (mfaEnrolments.has(user.id)) throw new HttpError(409, 'Two-factor authentication is already on');
+            // Starting again replaces any secret from an enrolment that was never finished.
+            const secret = generateSecret();
+            pendingMfaSecrets.set(user.id, secret);
+            return { success: true, data: { secret, otpauthUrl: otpauthUrl({ issuer: MFA_ISSUER, account: user.email, secret }) } };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/activate$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { code } = await readJsonBody(req);
+            const secret = pendingMfaSecrets.get(user.id);
+            if (!secret) throw new HttpError(409, 'Start two-factor setup before confirming it');
+            const step = matchTotp(secret, String(code || '').replace(/\s/g, ''));
+            if (step === null) throw new HttpError(400, 'Incorrect authentication code');
+
+            const enrolment = { secret, backupCodeHashes: [], lastStep: step };
+            const backupCodes = issueBackupCodes(enrolment);
+            mfaEnrolments.set(user.id, enrolment);
+            pendingMfaSecrets.delete(user.id);
+            console.log(`[mock] ${user.email} turned on two-factor authentication`);
+            return { success: true, message: 'Two-factor authentication is on', data: { backupCodes } };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/backup-codes$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { code } = await readJsonBody(req);
+            const backupCodes = issueBackupCodes(requireSecondFactor(user, code));
+            return { success: true, message: 'New backup codes issued; the old ones no longer work', data: { backupCodes } };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/mfa\/disable$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { code } = await readJsonBody(req);
+            requireSecondFactor(user, code);
+            mfaEnrolments.delete(user.id);
+            console.log(`[mock] ${user.email} turned off two-factor authentication`);
+            return { success: true, message: 'Two-factor authentication is off' };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/refresh$/,
+        handler: async ({ req }) => {
+            const { refreshToken } = await readJsonBody(req);
+            const session = refreshTokens.get(refreshToken);
+            refreshTokens.delete(refreshToken);
+            if (!session || session.expiresAt <= Date.now()) throw new HttpError(401, 'Session expired, please log in again');
+
+            const user = SUPPORT_USERS.find((u) => u.id === session.userId);
+            if (!user) throw new HttpError(401, 'Unknown user');
+            return { success: true, message: 'Session refreshed', ...issueSession(user) };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/auth\/logout$/,
+        handler: async ({ req }) => {
+            const { refreshToken } = await readJsonBody(req);
+            refreshTokens.delete(refreshToken);
+            return { success: true, message: 'Logged out' };
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/kyc\/pending$/,
+        auth: true,
+        handler: async ({ url, scenario }) => listQueue(scenario === 'empty' ? [] : ['pending'], url)
+    },
+    {
+        method: 'GET',
+        path: /^\/kyc\/awaiting-merchant$/,
+        auth: true,
+        handler: async ({ url }) => listQueue(AWAITING_MERCHANT_STATUSES, url)
+    },
+    {
+        method: 'POST',
+        path: /^\/kyc\/review$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { merchantId, decision, reviewNotes, reasonCodes = [], merchantQuestion, faceMatch, locationVerification, documentVerdicts } = await readJsonBody(req);
+            requirePermission(user, 'case:review', 'Your role can view cases but not review them');
+            if (!merchantId) throw new HttpError(400, 'merchantId is required');
+            const outcome = DECISION_OUTCOMES[decision];
+            if (!outcome) {
+                throw new HttpError(400, `decision must be one of ${Object.keys(DECISION_OUTCOMES).join(', ')}`);
+            }
+            checkReasonCodes(reasonCodes);
+            if (decision === 'reject' && reasonCodes.length === 0 && !String(reviewNotes || '').trim()) {
+                throw new HttpError(400, 'A reason code or reviewNotes are required when rejecting');
+            }
+
+            if (decision === 'needs_info' && !String(merchantQuestion || '').trim()) {
+                throw new HttpError(400, 'merchantQuestion is required when asking the merchant for information');
+            }
+            if (faceMatch !== undefined && (typeof faceMatch !== 'object' || faceMatch === null)) {
+                throw new HttpError(400, 'faceMatch must be an object');
+            }
+            if (locationVerification !== undefined && typeof locationVerification?.status !== 'string') {
+                throw new HttpError(400, 'locationVerification.status is required');
+            }
+
+            const merchant = findMerchant(merchantId);
+            const kyc = kycFor(merchantId);
+            if (kyc.kyc_status !== 'pending') {
+                throw new HttpError(409, `KYC for ${merchantId} was already ${kyc.kyc_status}`);
+            }
+            requireClaim(merchantId, user);
+            const verdicts = checkDocumentVerdicts(merchantId, decision, documentVerdicts);
+            // Same rule as the disabled Approve button: with a selfie on file, every checklist item must be ticked.
+            if (decision === 'approve' && kyc.selfie_file_path
+                && !(faceMatch?.samePerson === true && faceMatch?.livenessOk === true && faceMatch?.imageQualityOk === true)) {
+                throw new HttpError(400, 'Complete the face match checklist before approving');
+            }
+
+            const reviewedAt = new Date().toISOString();
+            releaseClaim(merchantId);
+            const reviewId = `rev-${db.kycReviews.length + 1}`;
+            const needsChecker = CHECKED_DECISIONS.includes(decision);
+            if (needsChecker) {
+                kyc.kyc_status = 'pending_verification';
+                kyc.pending_review_id = reviewId;
+                merchant.onboarding_status = 'kyc_pending_verification';
+            } else {
+                applyOutcome(merchant, kyc, decision, verdicts, reviewedAt);
+            }
+            if (decision === 'needs_info') {
+                db.infoRequests.push({
+                    id: `inf-${db.infoRequests.length + 1}`,
+                    merchant_id: merchantId,
+                    question: String(merchantQuestion).trim(),
+                    asked_by: user.name,
+                    asked_at: reviewedAt,
+                    response: null,
+                    responded_at: null
+                });
+            }
+            db.kycReviews.push({
+                id: reviewId,
+                merchant_id: merchantId,
+                stage: 'maker',
+                reviewer_id: user.id,
+                reviewer_name: user.name,
+                decision,
+                review_notes: reviewNotes || '',
+                reason_codes: reasonCodes,
+                face_match: faceMatch
+                    ? {
+                        same_person: Boolean(faceMatch.samePerson),
+                        liveness_ok: Boolean(faceMatch.livenessOk),
+                        image_quality_ok: Boolean(faceMatch.imageQualityOk)
+                    }
+                    : null,
+                location_verification: locationVerification
+                    ? {
+                        status: locationVerification.status,
+                        distance_km: locationVerification.distanceKm ?? null,
+                        radius_km: locationVerification.radiusKm ?? null,
+                        reference_pincode: locationVerification.referencePincode ?? null
+                    }
+                    : null,
+                document_verdicts: verdicts,
+                reviewed_at: reviewedAt
+            });
+
+            broadcast('kyc.decided', merchantId, user, { decision, kycStatus: kyc.kyc_status });
+            return {
+                success: true,
+                message: needsChecker ? `${outcome.message}; awaiting checker verification` : outcome.message,
+                decision,
+                kycStatus: kyc.kyc_status,
+                merchantId
+            };
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/kyc\/pending-verification$/,
+        auth: true,
+        handler: async ({ url }) => listQueue(['pending_verification'], url)
+    },
+    {
+        method: 'POST',
+        path: /^\/kyc\/verify$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { merchantId, action, checkerNotes, reasonCodes = [] } = await readJsonBody(req);
+            if (!merchantId) throw new HttpError(400, 'merchantId is required');
+            if (action !== 'confirm' && action !== 'overturn') throw new HttpError(400, 'action must be confirm or overturn');
+            checkReasonCodes(reasonCodes);
+            requirePermission(user, 'case:verify', 'Only checkers can verify decisions');
+
+            const merchant = findMerchant(merchantId);
+            const kyc = kycFor(merchantId);
+            const makerReview = db.kycReviews.find((r) => r.id === kyc.pending_review_id);
+            if (kyc.kyc_status !== 'pending_verification' || !makerReview) {
+                throw new HttpError(409, `KYC for ${merchantId} has no decision awaiting verification`);
+            }
+            if (makerReview.reviewer_id === user.id) throw new HttpError(403, 'Maker and checker must be different users');
+            requireClaim(merchantId, user);
+
+            const decision = action === 'confirm' ? makerReview.decision : OVERTURNED_DECISION[makerReview.decision];
+            if (action === 'overturn' && !String(checkerNotes || '').trim()) {
+                throw new HttpError(400, 'checkerNotes are required when overturning a decision');
+            }
+            if (action === 'overturn' && decision === 'reject' && reasonCodes.length === 0) {
+                throw new HttpError(400, 'A reason code is required when overturning into a rejection');
+            }
+
+            // The maker's document verdicts only stand when their decision does.
+            const verifiedAt = new Date().toISOString();
+            releaseClaim(merchantId);
+            applyOutcome(merchant, kyc, decision, action === 'confirm' ? makerReview.document_verdicts : [], verifiedAt);
+            db.kycReviews.push({
+                id: `rev-${db.kycReviews.length + 1}`,
+                merchant_id: merchantId,
+                stage: 'checker',
+                maker_review_id: makerReview.id,
+                checker_action: action,
+                reviewer_id: user.id,
+                reviewer_name: user.name,
+                decision,
+                review_notes: checkerNotes || '',
+                reason_codes: action === 'confirm' ? makerReview.reason_codes : reasonCodes,
+                reviewed_at: verifiedAt
+            });
+
+            broadcast('kyc.decided', merchantId, user, { decision, kycStatus: kyc.kyc_status });
+            return {
+                success: true,
+                message: `${DECISION_OUTCOMES[decision].message} (${action === 'confirm' ? 'confirmed' : 'overturned'} by checker)`,
+                decision,
+                kycStatus: kyc.kyc_status,
+                merchantId
+            };
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/events$/,
+        auth: true,
+        stream: true,
+        handler: async ({ req, res, user, scenario }) => {
+            if (scenario === 'no-push') throw new HttpError(503, 'Live updates are unavailable (mock scenario)');
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive'
+            });
+            res.write(`retry: 5000\nevent: ready\ndata: ${JSON.stringify({ type: 'ready', at: new Date().toISOString() })}\n\n`);
+            eventClients.add(res);
+            const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+            req.on('close', () => {
+                clearInterval(heartbeat);
+                eventClients.delete(res);
+                console.log(`[mock] events stream closed for ${user.email}`);
+            });
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/staff$/,
+        auth: true,
+        handler: async () => ({ success: true, data: SUPPORT_USERS.map(publicUser) })
+    },
+    {
+        method: 'GET',
+        path: /^\/kyc\/decisions$/,
+        auth: true,
+        handler: async ({ url }) => listDecisions(url)
+    },
+    {
+        method: 'GET',
+        path: /^\/analytics$/,
+        auth: true,
+        handler: async ({ url, user }) => {
+            requirePermission(user, 'analytics:view', 'Only supervisors can view analytics');
+            return buildAnalytics(url);
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/kyc\/claim$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { merchantId } = await readJsonBody(req);
+            requirePermission(user, 'case:review', 'Your role can view cases but not claim them');
+            findMerchant(merchantId);
+            if (!CLAIMABLE_STATUSES.includes(kycFor(merchantId).kyc_status)) {
+                throw new HttpError(409, `KYC for ${merchantId} is not waiting for review`);
+            }
+            const current = activeClaim(merchantId);
+            if (current && current.claimed_by !== user.id) {
+                throw new HttpError(409, `${merchantId} is being reviewed by ${current.claimed_by_name}`);
+            }
+            // Claiming a case you already hold renews the lock.
+            const claim = setClaim(merchantId, user);
+            if (!current) broadcast('kyc.claimed', merchantId, user, { claim });
+            return { success: true, message: 'Case claimed', data: claim };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/kyc\/release$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { merchantId } = await readJsonBody(req);
+            findMerchant(merchantId);
+            const current = activeClaim(merchantId);
+            if (current && current.claimed_by !== user.id && !hasPermission(user, 'case:reassign')) {
+                throw new HttpError(403, 'Only the reviewer holding the case or a supervisor can release it');
+            }
+            releaseClaim(merchantId);
+            if (current) broadcast('kyc.released', merchantId, user);
+            return { success: true, message: 'Case released' };
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/kyc\/reassign$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { merchantId, assigneeId } = await readJsonBody(req);
+            requirePermission(user, 'case:reassign', 'Only supervisors can reassign cases');
+            findMerchant(merchantId);
+            if (!CLAIMABLE_STATUSES.includes(kycFor(merchantId).kyc_status)) {
+                throw new HttpError(409, `KYC for ${merchantId} is not waiting for review`);
+            }
+            const assignee = SUPPORT_USERS.find((u) => u.id === assigneeId);
+            if (!assignee) throw new HttpError(400, `Unknown assignee ${assigneeId}`);
+            if (!hasPermission(assignee, 'case:review')) throw new HttpError(400, `${assignee.name} cannot review cases`);
+
+            const claim = setClaim(merchantId, assignee);
+            broadcast('kyc.claimed', merchantId, user, { claim });
+            console.log(`[mock] ${user.email} reassigned ${merchantId} to ${assignee.email}`);
+            return { success: true, message: `Case assigned to ${assignee.name}`, data: claim };
+        }
+    },
+    {
+        // Unmasked mobile, PAN and Aadhaar for an export. The export is recorded in the same request,
+        // so there is no unmasked file without an audit record.
+        method: 'POST',
+        path: /^\/kyc\/export-identities$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { merchantIds, reason } = await readJsonBody(req);
+            requirePermission(user, 'data:export_unmasked', 'Only supervisors can export unmasked identity numbers');
+            if (!Array.isArray(merchantIds) || merchantIds.length === 0 || merchantIds.some((id) => typeof id !== 'string' || !id)) {
+                throw new HttpError(400, 'merchantIds must be a non-empty array of ids');
+            }
+            if (merchantIds.length > MAX_EXPORT_ROWS) throw new HttpError(400, `At most ${MAX_EXPORT_ROWS} merchants can be exported at once`);
+            const merchants = merchantIds.map(findMerchant);
+            recordAuditEvent(user, 'data_export', { reason: String(reason || `${merchants.length} merchants with unmasked identity numbers`) });
+            return {
+                success: true,
+                data: merchants.map((m) => ({ merchantId: m.id, mobile_number: m.mobile_number, pan_number: m.pan_number, aadhaar_number: m.aadhaar_number }))
+            };
+        }
+    },
+    {
+        // The only way to the full Aadhaar number: the reveal is recorded before the number is sent.
+        method: 'POST',
+        path: /^\/kyc\/reveal-aadhaar$/,
+        auth: true,
+        handler: async ({ req, user }) => {
+            const { merchantId } = await readJsonBody(req);
+            requirePermission(user, 'identity:reveal', 'Your role cannot reveal full identity numbers');
+            const merchant = findMerchant(merchantId);
+            if (!merchant.aadhaar_number) throw new HttpError(404, `No Aadhaar number on file for ${merchantId}`);
+            const event = recordAuditEvent(user, 'aadhaar_reveal', { merchantId });
+            return { success: true, data: { aadhaarNumber: merchant.aadhaar_number, auditEventId: event.id } };
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/kyc\/status\/(?<merchantId>[^/]+)$/,
+        auth: true,
+        handler: async ({ params }) => {
+            const merchant = findMerchant(params.merchantId);
+            return {
+                success: true,
+                data: {
+                    ...toPendingKYC(merchant),
+                    kyc_reviews: db.kycReviews.filter((r) => r.merchant_id === merchant.id),
+                    bank_decisions: db.bankDecisions.filter((d) => d.merchant_id === merchant.id)
+                }
+            };
+        }
+    }
+];
+
+const handleUpload = (res, pathname) => {
+    const match = pathname.match(/^\/uploads\/(?<merchantId>[^/]+)\/(?<file>[^/]+)$/);
+    const merchant = match && db.merchants.find((m) => m.id === match.groups.merchantId);
+    if (!merchant) return sendJson(res, 404, { success: false, message: 'File not found' });
+
+    if (match.groups.file === 'selfie.svg') {
+        res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+        return res.end(renderSelfieSvg(merchant));
+    }
+
+    const document = documentsFor(merchant.id).find((d) => d.file_path === pathname);
+    if (!document) return sendJson(res, 404, { success: false, message: 'File not found' });
+
+    if (pathname.endsWith('.pdf')) {
+        res.writeHead(200, { 'Content-Type': 'application/pdf' });
+        return res.end(renderDocumentPdf(merchant, document));
+    }
+    res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+    return res.end(renderDocumentSvg(merchant, document));
+};
+
+const handleMockControl = async (req, res, pathname) => {
+    if (pathname === '/__mock/scenario' && req.method === 'GET') {
+        return sendJson(res, 200, { scenario: activeScenario, available: SCENARIOS });
+    }
+    if (pathname === '/__mock/scenario' && req.method === 'POST') {
+        const { scenario } = await readJsonBody(req);
+        if (!SCENARIOS[scenario]) throw new HttpError(400, `Unknown scenario. Available: ${Object.keys(SCENARIOS).join(', ')}`);
+        activeScenario = scenario;
+        console.log(`[mock] scenario -> ${activeScenario}`);
+        return sendJson(res, 200, { scenario: activeScenario });
+    }
+    // Simulates the merchant answering the open question, which puts the case back in the queue.
+    const respond = pathname.match(/^\/__mock\/merchants\/(?<merchantId>[^/]+)\/respond$/);
+    if (respond && req.method === 'POST') {
+        const { response } = await readJsonBody(req);
+        const merchant = findMerchant(respond.groups.merchantId);
+        const kyc = kycFor(merchant.id);
+        const request = db.infoRequests.find((r) => r.merchant_id === merchant.id && !r.response);
+        if (kyc.kyc_status !== 'awaiting_merchant' || !request) throw new HttpError(409, 'No open question for this merchant');
+
+        request.response = String(response || 'Details updated as requested.');
+        request.responded_at = new Date().toISOString();
+        kyc.kyc_status = 'pending';
+        merchant.onboarding_status = 'kyc_submitted';
+        broadcast('kyc.submitted', merchant.id, null, { kycStatus: 'pending' });
+        return sendJson(res, 200, { success: true, message: 'Merchant responded; KYC is back in the queue' });
+    }
+
+    // Simulates the merchant replacing every document support asked them to re-upload.
+    const reupload = pathname.match(/^\/__mock\/merchants\/(?<merchantId>[^/]+)\/reupload$/);
+    if (reupload && req.method === 'POST') {
+        const kyc = kycFor(findMerchant(reupload.groups.merchantId).id);
+        if (kyc.kyc_status !== 'reupload_requested') throw new HttpError(409, 'No re-upload was requested');
+
+        const uploadedAt = new Date().toISOString();
+        for (const document of documentsFor(kyc.merchant_id).filter((d) => d.verification_status === 'reupload_requested')) {
+            document.uploaded_at = uploadedAt;
+            document.verification_status = 'pending';
+            document.rejection_reason = null;
+        }
+        kyc.kyc_status = 'pending';
+        findMerchant(kyc.merchant_id).onboarding_status = 'kyc_submitted';
+        broadcast('kyc.submitted', kyc.merchant_id, null, { kycStatus: 'pending' });
+        return sendJson(res, 200, { success: true, message: 'Documents re-uploaded; KYC is back in the queue' });
+    }
+    // Simulates merchants finishing onboarding while reviewers are working.
+    if (pathname === '/__mock/merchants' && req.method === 'POST') {
+        const { count = 1 } = await readJsonBody(req);
+        const created = [];
+        for (let i = 0; i < Math.min(Number(count) || 1, 50); i++) {
+            const { merchant, kyc, documents } = createSubmission(++submissionCount);
+            db.merchants.push(merchant);
+            db.merchantKyc.push(kyc);
+            db.merchantDocuments.push(...documents);
+            broadcast('kyc.submitted', merchant.id, null, { kycStatus: 'pending' });
+            created.push(merchant.id);
+        }
+        return sendJson(res, 200, { success: true, message: `${created.length} KYC submission(s) added`, data: created });
+    }
+    if (pathname === '/__mock/reset' && req.method === 'POST') {
+        db = createSeed();
+        broadcast('queue.reset', null, null);
+        console.log('[mock] data reset to seed');
+        return sendJson(res, 200, { success: true, message: 'Mock data reset' });
+    }
+    throw new HttpError(404, 'Unknown mock control route');
+};
+
+// Applies the active fault scenario. Returns true when the response has been sent.
+const applyScenario = async (res, scenario) => {
+    switch (scenario) {
+        case 'slow':
+            await sleep(SLOW_DELAY_MS);
+            return false;
+        case 'unauthorized':
+            sendJson(res, 401, { success: false, message: 'Invalid or expired token (mock scenario)' });
+            return true;
+        case 'server-error':
+            sendJson(res, 500, { success: false, message: 'Internal server error (mock scenario)' });
+            return true;
+        case 'malformed':
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end('{"success":true,"data":[{"id":');
+            return true;
+        default:
+            return false;
+    }
+};
+
+const server = http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Mock-Scenario');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        return res.end();
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const scenario = req.headers['x-mock-scenario'] || url.searchParams.get('mockScenario') || activeScenario;
+
+    res.on('finish', () => {
+        const tag = scenario !== 'none' && url.pathname.startsWith(API_PREFIX) ? ` (${scenario})` : '';
+        console.log(`[mock] ${req.method} ${url.pathname} -> ${res.statusCode}${tag}`);
+    });
+
+    try {
+        if (url.pathname.startsWith('/__mock/')) return await handleMockControl(req, res, url.pathname);
+        if (url.pathname.startsWith('/uploads/')) return handleUpload(res, url.pathname);
+        if (!url.pathname.startsWith(API_PREFIX)) throw new HttpError(404, 'Not found');
+
+        if (!SCENARIOS[scenario]) throw new HttpError(400, `Unknown scenario "${scenario}"`);
+        if (await applyScenario(res, scenario)) return;
+
+        const routePath = url.pathname.slice(API_PREFIX.length);
+        const route = routes.find((r) => r.method === req.method && r.path.test(routePath));
+        if (!route) throw new HttpError(404, `No mock route for ${req.method} ${url.pathname}`);
+
+        const user = route.auth ? requireUser(req, url, Boolean(route.stream)) : null;
+        const params = routePath.match(route.path).groups || {};
+        if (route.stream) return await route.handler({ req, res, url, params, user, scenario });
+        const body = await route.handler({ req, url, params, user, scenario });
+        sendJson(res, 200, body);
+    } catch (err) {
+        const status = err instanceof HttpError ? err.status : 500;
+        if (status === 500) console.error('[mock] unhandled error', err);
+        sendJson(res, status, { success: false, message: err.message || 'Internal server error' });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`[mock] SabbPe support mock listening on http://localhost:${PORT}${API_PREFIX}`);
+    console.log(`[mock] scenario: ${activeScenario} (${SCENARIOS[activeScenario]})`);
+    console.log(`[mock] logins: ${SUPPORT_USERS.map((u) => `${u.email} / ${u.password}`).join(', ')}`);
+});
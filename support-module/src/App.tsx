@@ -1,11 +1,19 @@
 import React from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { SupportAuthProvider, useSupportAuth } from './context/SupportAuthContext';
+import { NotificationProvider } from './context/NotificationContext';
 import { SupportLogin } from './pages/SupportLogin';
 import { SupportDashboard } from './pages/SupportDashboard';
+import { MerchantHistory } from './pages/MerchantHistory';
+import { Analytics } from './pages/Analytics';
+import { AccountSecurity } from './pages/AccountSecurity';
+import { AccessDenied } from './components/AccessDenied';
+import { Permission, deniedReason } from './lib/permissions';
 
-const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const { isAuthenticated, loading } = useSupportAuth();
+// Without a permission the route only needs a signed-in user, e.g. the user's own account settings.
+const ProtectedRoute: React.FC<{ permission?: Permission; children: React.ReactNode }> = ({ permission, children }) => {
+    const { user, isAuthenticated, loading } = useSupportAuth();
+    const location = useLocation();
 
     if (loading) {
         return (
@@ -19,7 +27,13 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     }
 
     if (!isAuthenticated) {
-        return <Navigate to="/login" replace />;
+        // Remember where the user was heading so login can send them there.
+        return <Navigate to="/login" replace state={{ from: location }} />;
+    }
+
+    const denied = permission ? deniedReason(user, permission) : null;
+    if (denied) {
+        return <AccessDenied reason={denied} backTo={permission === 'queue:view' ? undefined : '/dashboard'} />;
     }
 
     return <>{children}</>;
@@ -32,11 +46,43 @@ function AppContent() {
             <Route
                 path="/dashboard"
                 element={
-                    <ProtectedRoute>
+                    <ProtectedRoute permission="queue:view">
                         <SupportDashboard />
                     </ProtectedRoute>
                 }
             />
+            <Route
+                path="/kyc/:merchantId"
+                element={
+                    <ProtectedRoute permission="queue:view">
+                        <SupportDashboard />
+                    </ProtectedRoute>
+                }
+            />
+            <Route
+                path="/merchants/:merchantId"
+                element={
+                    <ProtectedRoute permission="queue:view">
+                        <MerchantHistory />
+                    </ProtectedRoute>
+                }
+            />
+            <Route
+                path="/analytics"
+                element={
+                    <ProtectedRoute permission="analytics:view">
+                        <Analytics />
+                    </ProtectedRoute>
+                }
+            />
+            <Route
+                path="/account/security"
+                element={
+                    <ProtectedRoute>
+                        <AccountSecurity />
+                    </ProtectedRoute>
+                }
+            />
             <Route path="/" element={<Navigate to="/dashboard" replace />} />
             <Route
                 path="*"
@@ -58,7 +104,9 @@ function App() {
     return (
         <BrowserRouter>
             <SupportAuthProvider>
-                <AppContent />
+                <NotificationProvider>
+                    <AppContent />
+                </NotificationProvider>
             </SupportAuthProvider>
         </BrowserRouter>
     );
@@ -0,0 +1,51 @@
+// src/components/BackupCodes.tsx
+
+import React, { useState } from 'react';
+import { downloadBlob } from '../lib/dataExport';
+import { Copy, Download, KeyRound } from 'lucide-react';
+
+interface BackupCodesProps {
+    codes: string[];
+    // Used in the downloaded file so it is clear which account the codes belong to.
+    account: string;
+    onDone: () => void;
+}
+
+// Backup codes are shown once, straight after they are issued; only their hashes are kept.
+export const BackupCodes: React.FC<BackupCodesProps> = ({ codes, account, onDone }) => {
+    const [copied, setCopied] = useState(false);
+    const text = `SabbPe Support backup codes for ${account}\nEach code can be used once.\n\n${codes.join('\n')}\n`;
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(true);
+        } catch {
+            setCopied(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="p-4 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800 flex items-start gap-2">
+                <KeyRound className="w-5 h-5 shrink-0" />
+                Save these backup codes somewhere safe. Each one signs you in once if you lose your authenticator app. They will not be shown again.
+            </div>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-lg bg-gray-50 border rounded-lg p-4">
+                {codes.map((code) => <li key={code}>{code}</li>)}
+            </ul>
+            <div className="flex gap-3">
+                <button onClick={handleCopy} className="flex items-center gap-2 px-4 py-2 border rounded-lg hover:bg-gray-100">
+                    <Copy className="w-4 h-4" /> {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button
+                    onClick={() => downloadBlob('sabbpe-support-backup-codes.txt', new Blob([text], { type: 'text/plain' }))}
+                    className="flex items-center gap-2 px-4 py-2 border rounded-lg hover:bg-gray-100"
+                >
+                    <Download className="w-4 h-4" /> Download
+                </button>
+                <button onClick={onDone} className="ml-auto px-6 py-2 bg-blue-600 text-white rounded-lg">I have saved them</button>
+            </div>
+        </div>
+    );
+};
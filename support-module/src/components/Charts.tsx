@@ -0,0 +1,164 @@
+// src/components/Charts.tsx
+// Small SVG charts for the analytics page. They scale with their container through the
+// viewBox, so sizes below are in viewBox units rather than pixels.
+
+import React from 'react';
+
+export interface ChartSeries {
+    name: string;
+    values: number[];
+    colour: string;
+}
+
+export interface ChartSegment {
+    label: string;
+    value: number;
+    colour: string;
+}
+
+const WIDTH = 800;
+
+// Rounds the axis maximum up to 1, 2 or 5 times a power of ten.
+const niceMax = (value: number): number => {
+    if (value <= 0) return 1;
+    const magnitude = 10 ** Math.floor(Math.log10(value));
+    return [1, 2, 5, 10].map((step) => step * magnitude).find((candidate) => candidate >= value)!;
+};
+
+export const ChartLegend: React.FC<{ items: Array<{ label: string; colour: string }> }> = ({ items }) => (
+    <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+        {items.map((item) => (
+            <span key={item.label} className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: item.colour }} />
+                {item.label}
+            </span>
+        ))}
+    </div>
+);
+
+interface StackedBarChartProps {
+    labels: string[];
+    series: ChartSeries[];
+    height?: number;
+    formatLabel?: (label: string) => string;
+}
+
+// One column per label with the series stacked bottom-up; hover a segment for its value.
+export const StackedBarChart: React.FC<StackedBarChartProps> = ({ labels, series, height = 260, formatLabel = (label) => label }) => {
+    const padding = { top: 10, right: 10, bottom: 28, left: 36 };
+    const plotWidth = WIDTH - padding.left - padding.right;
+    const plotHeight = height - padding.top - padding.bottom;
+    const totals = labels.map((_, index) => series.reduce((sum, s) => sum + (s.values[index] || 0), 0));
+    const max = niceMax(Math.max(0, ...totals));
+    const slot = plotWidth / Math.max(1, labels.length);
+    const barWidth = Math.max(2, slot * 0.7);
+    const labelEvery = Math.ceil(labels.length / 10);
+    const y = (value: number) => padding.top + plotHeight - (value / max) * plotHeight;
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+            {[0, max / 2, max].map((tick) => (
+                <g key={tick}>
+                    <line x1={padding.left} x2={WIDTH - padding.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+                    <text x={padding.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{tick}</text>
+                </g>
+            ))}
+            {labels.map((label, index) => {
+                const x = padding.left + index * slot + (slot - barWidth) / 2;
+                let stacked = 0;
+                return (
+                    <g key={label}>
+                        {series.map((s) => {
+                            const value = s.values[index] || 0;
+                            if (value === 0) return null;
+                            const top = y(stacked + value);
+                            const rect = <rect key={s.name} x={x} y={top} width={barWidth} height={y(stacked) - top} fill={s.colour}><title>{`${formatLabel(label)} · ${s.name}: ${value}`}</title></rect>;
+                            stacked += value;
+                            return rect;
+                        })}
+                        {index % labelEvery === 0 && (
+                            <text x={x + barWidth / 2} y={height - 8} textAnchor="middle" fontSize="11" fill="#6b7280">{formatLabel(label)}</text>
+                        )}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+interface HorizontalBarChartProps {
+    rows: Array<{ label: string; value: number; colour: string; detail?: string }>;
+}
+
+// Ranked bars with the label above each one; `detail` is shown after the value.
+export const HorizontalBarChart: React.FC<HorizontalBarChartProps> = ({ rows }) => {
+    const rowHeight = 34;
+    const labelWidth = 260;
+    const max = Math.max(1, ...rows.map((row) => row.value));
+    const barSpace = WIDTH - labelWidth - 140;
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${Math.max(1, rows.length) * rowHeight}`} className="w-full h-auto" role="img">
+            {rows.map((row, index) => {
+                const top = index * rowHeight;
+                const barWidth = Math.max(2, (row.value / max) * barSpace);
+                return (
+                    <g key={`${row.label}-${index}`}>
+                        <text x={labelWidth - 8} y={top + 21} textAnchor="end" fontSize="13" fill="#374151">{row.label}</text>
+                        <rect x={labelWidth} y={top + 6} width={barWidth} height={rowHeight - 12} rx="3" fill={row.colour} />
+                        <text x={labelWidth + barWidth + 8} y={top + 21} fontSize="13" fill="#111827">
+                            {row.value}{row.detail ? ` · ${row.detail}` : ''}
+                        </text>
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+// A single 100% bar split into segments, e.g. approvals against rejections.
+export const ProportionBar: React.FC<{ segments: ChartSegment[] }> = ({ segments }) => {
+    const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+    let offset = 0;
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} 32`} className="w-full h-auto" role="img">
+            <rect x="0" y="0" width={WIDTH} height="32" rx="4" fill="#f3f4f6" />
+            {total > 0 && segments.map((segment) => {
+                const width = (segment.value / total) * WIDTH;
+                const x = offset;
+                offset += width;
+                return (
+                    <rect key={segment.label} x={x} y="0" width={width} height="32" fill={segment.colour}>
+                        <title>{`${segment.label}: ${segment.value} (${Math.round((segment.value / total) * 100)}%)`}</title>
+                    </rect>
+                );
+            })}
+        </svg>
+    );
+};
+
+// Centred bars narrowing stage by stage, with the conversion from the first stage.
+export const FunnelChart: React.FC<{ stages: Array<{ label: string; count: number }> }> = ({ stages }) => {
+    const rowHeight = 52;
+    const first = stages[0]?.count || 0;
+    const max = Math.max(1, ...stages.map((stage) => stage.count));
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${Math.max(1, stages.length) * rowHeight}`} className="w-full h-auto" role="img">
+            {stages.map((stage, index) => {
+                const width = Math.max(4, (stage.count / max) * (WIDTH - 40));
+                const top = index * rowHeight;
+                const conversion = index > 0 && first > 0 ? ` · ${Math.round((stage.count / first) * 100)}% of submitted` : '';
+                return (
+                    <g key={stage.label}>
+                        <rect x={(WIDTH - width) / 2} y={top + 4} width={width} height={rowHeight - 8} rx="4" fill={['#93c5fd', '#60a5fa', '#2563eb'][index] || '#2563eb'} />
+                        <text x={WIDTH / 2} y={top + rowHeight / 2 + 5} textAnchor="middle" fontSize="14" fill="#111827" fontWeight="600">
+                            {stage.label}: {stage.count}{conversion}
+                        </text>
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
@@ -0,0 +1,144 @@
+// src/components/CheckerPanel.tsx
+
+import React, { useState } from 'react';
+import { ShieldCheck, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { PendingKYC, KYCReviewRecord } from '../lib/supportApi';
+import { DOCUMENT_VERDICT_LABELS } from '../lib/documentVerdicts';
+import { ReasonCodePicker, ReasonCodeBadges } from './ReasonCodePicker';
+import { formatDocumentType } from './DocumentViewer';
+
+interface CheckerPanelProps {
+    merchant: PendingKYC;
+    makerReview: KYCReviewRecord;
+    blockReason: string | null;
+    busy: boolean;
+    onConfirm: (checkerNotes: string) => void;
+    onOverturn: (checkerNotes: string, reasonCodes: string[]) => void;
+    // Lets the review screen focus the notes box from a keyboard shortcut.
+    notesRef?: React.Ref<HTMLTextAreaElement>;
+}
+
+const DECISION_LABELS: Record<string, string> = {
+    approve: 'Approve',
+    reject: 'Reject'
+};
+
+const Flag: React.FC<{ ok: boolean; label: string }> = ({ ok, label }) => (
+    <span className={`inline-flex items-center gap-1 text-sm ${ok ? 'text-green-700' : 'text-red-700'}`}>
+        {ok ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />} {label}
+    </span>
+);
+
+// Second stage of the four-eyes review: shows everything the maker recorded and lets a
+// different user confirm the decision or overturn it.
+export const CheckerPanel: React.FC<CheckerPanelProps> = ({ merchant, makerReview, blockReason, busy, onConfirm, onOverturn, notesRef }) => {
+    const [checkerNotes, setCheckerNotes] = useState('');
+    const [reasonCodes, setReasonCodes] = useState<string[]>([]);
+    const overturnToReject = makerReview.decision === 'approve';
+    const documentsById = new Map((merchant.merchant_documents || []).map((doc) => [doc.id, doc]));
+
+    return (
+        <div className="space-y-6">
+            <div className="p-4 border border-indigo-200 bg-indigo-50 rounded-lg space-y-3">
+                <div className="flex items-center gap-2">
+                    <ShieldCheck className="w-5 h-5 text-indigo-700" />
+                    <p className="font-semibold text-indigo-900">
+                        Maker decision: {DECISION_LABELS[makerReview.decision] || makerReview.decision}
+                    </p>
+                </div>
+                <p className="text-sm text-indigo-900">
+                    By {makerReview.reviewer_name} • {new Date(makerReview.reviewed_at).toLocaleString()}
+                </p>
+                <div>
+                    <p className="text-xs text-gray-600">Maker notes</p>
+                    <p className="whitespace-pre-wrap">{makerReview.review_notes || '—'}</p>
+                </div>
+                <ReasonCodeBadges codes={makerReview.reason_codes} />
+
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <p className="text-xs text-gray-600 mb-1">Face match checklist</p>
+                        {makerReview.face_match ? (
+                            <div className="flex flex-col gap-1">
+                                <Flag ok={makerReview.face_match.same_person} label="Same person" />
+                                <Flag ok={makerReview.face_match.liveness_ok} label="Liveness OK" />
+                                <Flag ok={makerReview.face_match.image_quality_ok} label="Image quality OK" />
+                            </div>
+                        ) : (
+                            <p className="text-sm">Not recorded</p>
+                        )}
+                    </div>
+                    <div>
+                        <p className="text-xs text-gray-600 mb-1">Location check</p>
+                        {makerReview.location_verification ? (
+                            <p className="text-sm">
+                                {makerReview.location_verification.status.replace(/_/g, ' ')}
+                                {makerReview.location_verification.distance_km !== null && ` • ${makerReview.location_verification.distance_km} km`}
+                            </p>
+                        ) : (
+                            <p className="text-sm">Not recorded</p>
+                        )}
+                    </div>
+                </div>
+
+                {makerReview.document_verdicts && makerReview.document_verdicts.length > 0 && (
+                    <div>
+                        <p className="text-xs text-gray-600 mb-1">Document verdicts</p>
+                        <ul className="space-y-1 text-sm">
+                            {makerReview.document_verdicts.map((verdict) => (
+                                <li key={verdict.documentId}>
+                                    <span className="font-medium">{formatDocumentType(documentsById.get(verdict.documentId)?.document_type || verdict.documentId)}</span>
+                                    {': '}{DOCUMENT_VERDICT_LABELS[verdict.verdict]}
+                                    {verdict.reason && <span className="text-gray-600"> — {verdict.reason}</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
+
+            {blockReason ? (
+                <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-2 text-amber-800">
+                    <AlertTriangle className="w-5 h-5" /> {blockReason}
+                </div>
+            ) : (
+                <>
+                    {overturnToReject && (
+                        <div>
+                            <h3 className="font-semibold mb-2">🏷️ Reasons (required to overturn into a rejection)</h3>
+                            <ReasonCodePicker selected={reasonCodes} onChange={setReasonCodes} disabled={busy} />
+                        </div>
+                    )}
+                    <div>
+                        <label className="block text-sm font-semibold mb-2">📝 Checker Notes</label>
+                        <textarea
+                            ref={notesRef}
+                            value={checkerNotes}
+                            onChange={(e) => setCheckerNotes(e.target.value)}
+                            placeholder="Required when overturning"
+                            rows={3}
+                            className="w-full px-4 py-3 border rounded-lg"
+                            disabled={busy}
+                        />
+                    </div>
+                    <div className="flex justify-end gap-3">
+                        <button
+                            onClick={() => onOverturn(checkerNotes, reasonCodes)}
+                            disabled={busy || !checkerNotes.trim() || (overturnToReject && reasonCodes.length === 0)}
+                            className="px-6 py-3 border border-red-600 text-red-700 rounded-lg disabled:opacity-50"
+                        >
+                            Overturn ({overturnToReject ? 'Reject' : 'Approve'})
+                        </button>
+                        <button
+                            onClick={() => onConfirm(checkerNotes)}
+                            disabled={busy}
+                            className="px-6 py-3 bg-indigo-600 text-white rounded-lg disabled:opacity-50"
+                        >
+                            Confirm {DECISION_LABELS[makerReview.decision] || makerReview.decision}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,91 @@
+// src/components/ConfirmDialog.tsx
+
+import React, { useEffect, useId, useRef } from 'react';
+
+export interface ConfirmOptions {
+    title: string;
+    message?: string;
+    // Label/value rows describing what is about to happen, e.g. the decision and its reasons.
+    summary?: Array<{ label: string; value: React.ReactNode }>;
+    confirmLabel?: string;
+    cancelLabel?: string;
+    tone?: 'primary' | 'success' | 'danger';
+}
+
+interface ConfirmDialogProps extends ConfirmOptions {
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const TONE_STYLES: Record<NonNullable<ConfirmOptions['tone']>, string> = {
+    primary: 'bg-blue-600 hover:bg-blue-700',
+    success: 'bg-green-600 hover:bg-green-700',
+    danger: 'bg-red-600 hover:bg-red-700'
+};
+
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, summary, confirmLabel = 'Confirm', cancelLabel = 'Cancel', tone = 'primary', onConfirm, onCancel }) => {
+    const titleId = useId();
+    const messageId = useId();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const confirmRef = useRef<HTMLButtonElement>(null);
+    const cancelRef = useRef<HTMLButtonElement>(null);
+
+    // Destructive actions start on Cancel so a stray Enter does not go through. Focus returns to
+    // whatever opened the dialog when it closes.
+    useEffect(() => {
+        const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        (tone === 'danger' ? cancelRef : confirmRef).current?.focus();
+        return () => opener?.focus();
+    }, []);
+
+    // Keys stay inside the dialog: Escape cancels, Tab cycles through its buttons, and nothing
+    // reaches the page's keyboard shortcuts underneath.
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        event.stopPropagation();
+        if (event.key === 'Escape') {
+            event.preventDefault();
+            onCancel();
+            return;
+        }
+        if (event.key !== 'Tab' || !dialogRef.current) return;
+        const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>('button:not([disabled])'));
+        const index = focusable.indexOf(document.activeElement as HTMLElement);
+        const next = event.shiftKey ? (index <= 0 ? focusable.length - 1 : index - 1) : (index + 1) % focusable.length;
+        event.preventDefault();
+        focusable[next]?.focus();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/40 flex items-center justify-center p-4" onClick={onCancel}>
+            <div
+                ref={dialogRef}
+                role="alertdialog"
+                aria-modal="true"
+                aria-labelledby={titleId}
+                aria-describedby={message ? messageId : undefined}
+                className="bg-white rounded-lg shadow-xl w-full max-w-md"
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={handleKeyDown}
+            >
+                <div className="p-6 space-y-4">
+                    <h2 id={titleId} className="text-xl font-bold">{title}</h2>
+                    {message && <p id={messageId} className="text-sm text-gray-700">{message}</p>}
+                    {summary && summary.length > 0 && (
+                        <dl className="text-sm border rounded-lg divide-y">
+                            {summary.map((row) => (
+                                <div key={row.label} className="px-3 py-2 flex gap-3">
+                                    <dt className="w-28 shrink-0 text-gray-500">{row.label}</dt>
+                                    <dd className="text-gray-900 break-words min-w-0">{row.value}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                    )}
+                </div>
+                <div className="p-6 border-t bg-gray-50 flex justify-end gap-3">
+                    <button ref={cancelRef} onClick={onCancel} className="px-6 py-3 border rounded-lg">{cancelLabel}</button>
+                    <button ref={confirmRef} onClick={onConfirm} className={`px-6 py-3 text-white rounded-lg ${TONE_STYLES[tone]}`}>{confirmLabel}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,53 @@
+// src/components/DocumentVerdictControl.tsx
+
+import React from 'react';
+import { CheckCircle, XCircle, RefreshCw } from 'lucide-react';
+import { DocumentVerdict, DocumentVerdictStatus } from '../lib/supportApi';
+
+interface DocumentVerdictControlProps {
+    documentId: string;
+    verdict: DocumentVerdict | undefined;
+    onChange: (verdict: DocumentVerdict | undefined) => void;
+    disabled?: boolean;
+}
+
+const OPTIONS: Array<{ value: DocumentVerdictStatus; label: string; icon: React.ReactNode; active: string }> = [
+    { value: 'accepted', label: 'Accept', icon: <CheckCircle className="w-4 h-4" />, active: 'bg-green-600 text-white border-green-600' },
+    { value: 'reupload', label: 'Re-upload', icon: <RefreshCw className="w-4 h-4" />, active: 'bg-amber-500 text-white border-amber-500' },
+    { value: 'rejected', label: 'Reject', icon: <XCircle className="w-4 h-4" />, active: 'bg-red-600 text-white border-red-600' }
+];
+
+export const DocumentVerdictControl: React.FC<DocumentVerdictControlProps> = ({ documentId, verdict, onChange, disabled }) => {
+    const needsReason = verdict && verdict.verdict !== 'accepted';
+
+    return (
+        <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+            <p className="text-xs text-gray-600">Verdict for this document</p>
+            <div className="grid grid-cols-3 gap-2">
+                {OPTIONS.map((option) => {
+                    const selected = verdict?.verdict === option.value;
+                    return (
+                        <button
+                            key={option.value}
+                            onClick={() => onChange(selected ? undefined : { documentId, verdict: option.value, reason: verdict?.reason })}
+                            disabled={disabled}
+                            className={`flex items-center justify-center gap-1 px-2 py-2 text-sm border rounded-lg ${selected ? option.active : 'bg-white hover:bg-gray-100'}`}
+                        >
+                            {option.icon} {option.label}
+                        </button>
+                    );
+                })}
+            </div>
+            {needsReason && (
+                <textarea
+                    value={verdict.reason || ''}
+                    onChange={(e) => onChange({ ...verdict, reason: e.target.value })}
+                    placeholder={verdict.verdict === 'reupload' ? 'What should the merchant fix? (e.g. image is blurry)' : 'Why is this document rejected?'}
+                    rows={2}
+                    className="w-full px-3 py-2 border rounded-lg text-sm"
+                    disabled={disabled}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,153 @@
+// src/components/DocumentViewer.tsx
+
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCw, Maximize2, ExternalLink, FileText } from 'lucide-react';
+import { PendingKYC, getDocumentUrl } from '../lib/supportApi';
+import { ZoomableImage } from './ZoomableImage';
+import { PdfCanvas } from './PdfCanvas';
+
+type MerchantDocument = PendingKYC['merchant_documents'][number];
+
+interface DocumentViewerProps {
+    merchant: PendingKYC;
+    activeIndex: number;
+    onActiveIndexChange: (index: number) => void;
+    children?: React.ReactNode;
+}
+
+const ZOOM_STEP = 0.25;
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+
+export const formatDocumentType = (documentType: string): string => documentType.replace(/_/g, ' ').toUpperCase();
+
+const isPdf = (doc: MerchantDocument): boolean => /\.pdf($|\?)/i.test(doc.file_path);
+
+// Typed merchant fields shown next to the document so reviewers can compare them
+// against what is printed on it.
+const comparisonFields = (merchant: PendingKYC) => [
+    { label: 'Full Name', value: merchant.full_name },
+    { label: 'Business Name', value: merchant.business_name },
+    { label: 'PAN Number', value: merchant.pan_number }
+];
+
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({ merchant, activeIndex, onActiveIndexChange, children }) => {
+    const documents = merchant.merchant_documents;
+    const doc = documents[activeIndex];
+    const [zoom, setZoom] = useState(1);
+    const [rotation, setRotation] = useState(0);
+    const [fitWidth, setFitWidth] = useState(true);
+    const [fittedScale, setFittedScale] = useState(1);
+    const [page, setPage] = useState(1);
+    const [numPages, setNumPages] = useState(1);
+
+    // Each document opens fitted, upright and on its first page.
+    useEffect(() => {
+        setZoom(1);
+        setRotation(0);
+        setFitWidth(true);
+        setPage(1);
+        setNumPages(1);
+    }, [doc?.id]);
+
+    if (!doc) return null;
+
+    const url = getDocumentUrl(doc.file_path);
+
+    const changeZoom = (delta: number) => {
+        // Zooming out of fit-to-width starts from the fitted scale rather than jumping back to 100%.
+        const current = fitWidth ? fittedScale : zoom;
+        setFitWidth(false);
+        setZoom(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round((current + delta) * 100) / 100)));
+    };
+
+    const toolbarButton = 'p-2 rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent';
+
+    return (
+        <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 border rounded-lg overflow-hidden">
+                <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-gray-50 border-b">
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={() => onActiveIndexChange(activeIndex - 1)}
+                            disabled={activeIndex === 0}
+                            className={toolbarButton}
+                            title="Previous document"
+                        >
+                            <ChevronLeft className="w-4 h-4" />
+                        </button>
+                        <span className="text-sm font-medium">
+                            {formatDocumentType(doc.document_type)}
+                            <span className="text-gray-500 font-normal"> ({activeIndex + 1} / {documents.length})</span>
+                        </span>
+                        <button
+                            onClick={() => onActiveIndexChange(activeIndex + 1)}
+                            disabled={activeIndex === documents.length - 1}
+                            className={toolbarButton}
+                            title="Next document"
+                        >
+                            <ChevronRight className="w-4 h-4" />
+                        </button>
+                    </div>
+
+                    <div className="flex items-center gap-1">
+                        {isPdf(doc) && (
+                            <div className="flex items-center gap-1 mr-2">
+                                <button onClick={() => setPage((p) => p - 1)} disabled={page <= 1} className={toolbarButton} title="Previous page">
+                                    <ChevronLeft className="w-4 h-4" />
+                                </button>
+                                <span className="text-sm">Page {page} / {numPages}</span>
+                                <button onClick={() => setPage((p) => p + 1)} disabled={page >= numPages} className={toolbarButton} title="Next page">
+                                    <ChevronRight className="w-4 h-4" />
+                                </button>
+                            </div>
+                        )}
+                        <button onClick={() => changeZoom(-ZOOM_STEP)} disabled={!fitWidth && zoom <= MIN_ZOOM} className={toolbarButton} title="Zoom out">
+                            <ZoomOut className="w-4 h-4" />
+                        </button>
+                        <span className="text-sm w-14 text-center">{Math.round((fitWidth ? fittedScale : zoom) * 100)}%</span>
+                        <button onClick={() => changeZoom(ZOOM_STEP)} disabled={!fitWidth && zoom >= MAX_ZOOM} className={toolbarButton} title="Zoom in">
+                            <ZoomIn className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setFitWidth(true)}
+                            className={`${toolbarButton} ${fitWidth ? 'bg-blue-100 text-blue-700' : ''}`}
+                            title="Fit to width"
+                        >
+                            <Maximize2 className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setRotation((r) => (r + 90) % 360)} className={toolbarButton} title="Rotate 90°">
+                            <RotateCw className="w-4 h-4" />
+                        </button>
+                        <a href={url} target="_blank" rel="noreferrer" className={toolbarButton} title="Open in new tab">
+                            <ExternalLink className="w-4 h-4" />
+                        </a>
+                    </div>
+                </div>
+
+                {isPdf(doc) ? (
+                    <PdfCanvas url={url} page={page} zoom={zoom} rotation={rotation} fitWidth={fitWidth} onLoad={setNumPages} onFitScale={setFittedScale} className="h-[32rem]" />
+                ) : (
+                    <ZoomableImage src={url} alt={formatDocumentType(doc.document_type)} zoom={zoom} rotation={rotation} fitWidth={fitWidth} onFitScale={setFittedScale} className="h-[32rem]" />
+                )}
+            </div>
+
+            <div className="space-y-3">
+                <div className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                    <FileText className="w-4 h-4" /> Compare with submitted details
+                </div>
+                {comparisonFields(merchant).map((field) => (
+                    <div key={field.label} className="p-4 bg-gray-50 rounded-lg">
+                        <p className="text-xs text-gray-600">{field.label}</p>
+                        <p className="font-medium break-all">{field.value || '—'}</p>
+                    </div>
+                ))}
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-600">Uploaded</p>
+                    <p className="font-medium">{new Date(doc.uploaded_at).toLocaleString()}</p>
+                </div>
+                {children}
+            </div>
+        </div>
+    );
+};
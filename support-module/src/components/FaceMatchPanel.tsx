@@ -0,0 +1,145 @@
+// src/components/FaceMatchPanel.tsx
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, Camera, CheckCircle } from 'lucide-react';
+import { PendingKYC, FaceMatchChecklist, getDocumentUrl } from '../lib/supportApi';
+import { ZoomableImage } from './ZoomableImage';
+import { PdfCanvas } from './PdfCanvas';
+import { formatDocumentType } from './DocumentViewer';
+
+interface FaceMatchPanelProps {
+    merchant: PendingKYC;
+    checklist: FaceMatchChecklist;
+    onChecklistChange: (checklist: FaceMatchChecklist) => void;
+    disabled?: boolean;
+}
+
+const ZOOM_STEP = 0.25;
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+
+// Documents that carry the merchant's photograph.
+const PHOTO_DOCUMENT_TYPES = ['pan_card', 'pan', 'aadhaar_front', 'aadhaar_card', 'aadhaar'];
+
+const CHECKLIST_ITEMS: Array<{ key: keyof FaceMatchChecklist; label: string }> = [
+    { key: 'samePerson', label: 'Selfie and ID photo show the same person' },
+    { key: 'livenessOk', label: 'Selfie is a live capture (not a photo of a photo or screen)' },
+    { key: 'imageQualityOk', label: 'Both images are clear enough to compare' }
+];
+
+export const EMPTY_FACE_MATCH: FaceMatchChecklist = { samePerson: false, livenessOk: false, imageQualityOk: false };
+
+export const isFaceMatchComplete = (checklist: FaceMatchChecklist): boolean =>
+    CHECKLIST_ITEMS.every((item) => checklist[item.key]);
+
+export const FaceMatchPanel: React.FC<FaceMatchPanelProps> = ({ merchant, checklist, onChecklistChange, disabled }) => {
+    const photoDocuments = (merchant.merchant_documents || []).filter((doc) => PHOTO_DOCUMENT_TYPES.includes(doc.document_type));
+    const [docId, setDocId] = useState(photoDocuments[0]?.id);
+    const [zoom, setZoom] = useState(1);
+    const [fitWidth, setFitWidth] = useState(true);
+    // Fitted scale reported by each frame; both fit their own width, so they can differ.
+    const [fittedScales, setFittedScales] = useState<{ selfie?: number; id?: number }>({});
+    const setSelfieFitScale = useCallback((scale: number) => setFittedScales((prev) => ({ ...prev, selfie: scale })), []);
+    const setIdFitScale = useCallback((scale: number) => setFittedScales((prev) => ({ ...prev, id: scale })), []);
+
+    useEffect(() => {
+        setDocId(photoDocuments[0]?.id);
+        setZoom(1);
+        setFitWidth(true);
+        setFittedScales({});
+        // Reset only when a different merchant is opened.
+    }, [merchant.id]);
+
+    const selfiePath = merchant.merchant_kyc?.selfie_file_path;
+    const idDocument = photoDocuments.find((doc) => doc.id === docId);
+    const reportedScales = [selfiePath ? fittedScales.selfie : undefined, idDocument ? fittedScales.id : undefined]
+        .filter((scale): scale is number => scale !== undefined);
+    // Leaving fit mode starts from the smaller fitted scale so neither image jumps past its frame width.
+    const fittedScale = reportedScales.length > 0 ? Math.min(...reportedScales) : 1;
+
+    // Both frames share one zoom level so facial features line up while scrolling.
+    const changeZoom = (delta: number) => {
+        const current = fitWidth ? fittedScale : zoom;
+        setFitWidth(false);
+        setZoom(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round((current + delta) * 100) / 100)));
+    };
+
+    const toolbarButton = 'p-2 rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent';
+
+    return (
+        <div className="border rounded-lg overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-gray-50 border-b">
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">Compare selfie with</span>
+                    {photoDocuments.length > 0 ? (
+                        <select value={docId} onChange={(e) => {
+                            setDocId(e.target.value);
+                            setFittedScales((prev) => ({ ...prev, id: undefined }));
+                        }} className="px-2 py-1 border rounded">
+                            {photoDocuments.map((doc) => (
+                                <option key={doc.id} value={doc.id}>{formatDocumentType(doc.document_type)}</option>
+                            ))}
+                        </select>
+                    ) : (
+                        <span className="text-gray-500">no photo ID uploaded</span>
+                    )}
+                </div>
+                <div className="flex items-center gap-1">
+                    <button onClick={() => changeZoom(-ZOOM_STEP)} disabled={!fitWidth && zoom <= MIN_ZOOM} className={toolbarButton} title="Zoom out">
+                        <ZoomOut className="w-4 h-4" />
+                    </button>
+                    <span className="text-sm w-14 text-center">{Math.round((fitWidth ? fittedScale : zoom) * 100)}%</span>
+                    <button onClick={() => changeZoom(ZOOM_STEP)} disabled={!fitWidth && zoom >= MAX_ZOOM} className={toolbarButton} title="Zoom in">
+                        <ZoomIn className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setFitWidth(true)}
+                        className={`${toolbarButton} ${fitWidth ? 'bg-blue-100 text-blue-700' : ''}`}
+                        title="Fit to width"
+                    >
+                        <Maximize2 className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 p-3">
+                <div>
+                    <p className="text-xs text-gray-600 mb-1 flex items-center gap-1"><Camera className="w-3 h-3" /> Selfie</p>
+                    {selfiePath ? (
+                        <ZoomableImage src={getDocumentUrl(selfiePath)} alt="Merchant selfie" zoom={zoom} rotation={0} fitWidth={fitWidth} onFitScale={setSelfieFitScale} className="h-80" />
+                    ) : (
+                        <div className="h-80 flex items-center justify-center bg-gray-100 rounded-lg text-sm text-gray-500">No selfie captured</div>
+                    )}
+                </div>
+                <div>
+                    <p className="text-xs text-gray-600 mb-1">{idDocument ? formatDocumentType(idDocument.document_type) : 'ID photo'}</p>
+                    {idDocument && /\.pdf($|\?)/i.test(idDocument.file_path) ? (
+                        <PdfCanvas url={getDocumentUrl(idDocument.file_path)} page={1} zoom={zoom} rotation={0} fitWidth={fitWidth} onFitScale={setIdFitScale} className="h-80" />
+                    ) : idDocument ? (
+                        <ZoomableImage src={getDocumentUrl(idDocument.file_path)} alt={formatDocumentType(idDocument.document_type)} zoom={zoom} rotation={0} fitWidth={fitWidth} onFitScale={setIdFitScale} className="h-80" />
+                    ) : (
+                        <div className="h-80 flex items-center justify-center bg-gray-100 rounded-lg text-sm text-gray-500">No PAN or Aadhaar image to compare</div>
+                    )}
+                </div>
+            </div>
+
+            <div className="px-3 pb-3 space-y-2">
+                {CHECKLIST_ITEMS.map((item) => (
+                    <label key={item.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={checklist[item.key]}
+                            onChange={(e) => onChecklistChange({ ...checklist, [item.key]: e.target.checked })}
+                            disabled={disabled}
+                            className="w-4 h-4"
+                        />
+                        {item.label}
+                    </label>
+                ))}
+                {isFaceMatchComplete(checklist) && (
+                    <p className="text-sm text-green-700 flex items-center gap-1"><CheckCircle className="w-4 h-4" /> Face match checklist complete</p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,112 @@
+// src/components/IdentityChecks.tsx
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, XCircle, MinusCircle, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { PendingKYC, revealAadhaar, handleApiError } from '../lib/supportApi';
+import { useSupportAuth } from '../context/SupportAuthContext';
+import { deniedReason } from '../lib/permissions';
+import { validatePan, describeAadhaarChecks, formatAadhaar, ValidationCheck } from '../lib/identityValidation';
+
+interface IdentityChecksProps {
+    merchant: PendingKYC;
+}
+
+// How long a revealed Aadhaar stays visible before it is masked again.
+const REVEAL_DURATION_MS = 30_000;
+
+const CheckBadge: React.FC<{ check: ValidationCheck }> = ({ check }) => {
+    const style = check.passed === true
+        ? 'bg-green-100 text-green-800'
+        : check.passed === false
+            ? 'bg-red-100 text-red-800'
+            : 'bg-gray-100 text-gray-600';
+    const Icon = check.passed === true ? CheckCircle : check.passed === false ? XCircle : MinusCircle;
+
+    return (
+        <span title={check.detail} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${style}`}>
+            <Icon className="w-3 h-3" /> {check.label}
+        </span>
+    );
+};
+
+export const IdentityChecks: React.FC<IdentityChecksProps> = ({ merchant }) => {
+    const { user, token } = useSupportAuth();
+    const revealDenied = deniedReason(user, 'identity:reveal');
+    // The full number, held only while it is on screen.
+    const [revealed, setRevealed] = useState<string | null>(null);
+    const [revealing, setRevealing] = useState(false);
+    const [revealError, setRevealError] = useState('');
+
+    const pan = useMemo(() => validatePan(merchant.pan_number, merchant.business_type), [merchant.pan_number, merchant.business_type]);
+    const aadhaar = useMemo(() => describeAadhaarChecks(merchant.aadhaar_checks), [merchant.aadhaar_checks]);
+
+    useEffect(() => {
+        setRevealed(null);
+        setRevealError('');
+    }, [merchant.id]);
+
+    useEffect(() => {
+        if (!revealed) return;
+        const timer = setTimeout(() => setRevealed(null), REVEAL_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [revealed]);
+
+    // The backend records the reveal in the audit trail before it sends the number.
+    const handleReveal = async () => {
+        try {
+            setRevealing(true);
+            setRevealError('');
+            if (!token) throw new Error('No authentication token');
+            setRevealed(await revealAadhaar(token, merchant.id));
+        } catch (err) {
+            setRevealError(handleApiError(err));
+        } finally {
+            setRevealing(false);
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-2 gap-4">
+            <div className="p-4 bg-gray-50 rounded-lg space-y-2">
+                <p className="text-xs text-gray-600">PAN</p>
+                <p className="font-mono">{merchant.pan_number || '—'}</p>
+                <div className="flex flex-wrap gap-2">
+                    {pan.checks.map((check) => <CheckBadge key={check.label} check={check} />)}
+                </div>
+                {pan.checks.filter((c) => c.passed === false).map((c) => (
+                    <p key={c.label} className="text-xs text-red-700">{c.detail}</p>
+                ))}
+            </div>
+
+            <div className="p-4 bg-gray-50 rounded-lg space-y-2">
+                <p className="text-xs text-gray-600">Aadhaar</p>
+                <div className="flex items-center gap-2">
+                    <p className="font-mono">{revealed ? formatAadhaar(revealed) : merchant.aadhaar_masked}</p>
+                    {revealed ? (
+                        <button onClick={() => setRevealed(null)} className="text-gray-600 hover:text-gray-900" title="Mask">
+                            <EyeOff className="w-4 h-4" />
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleReveal}
+                            disabled={revealing || Boolean(revealDenied)}
+                            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            title={revealDenied || 'Reveal full number (recorded in the audit log)'}
+                        >
+                            {revealing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />} Reveal
+                        </button>
+                    )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {aadhaar.checks.map((check) => <CheckBadge key={check.label} check={check} />)}
+                </div>
+                {aadhaar.checks.filter((c) => c.passed === false).map((c) => (
+                    <p key={c.label} className="text-xs text-red-700">{c.detail}</p>
+                ))}
+                {revealed && <p className="text-xs text-amber-700">Reveal recorded in the audit log. The number will be masked again shortly.</p>}
+                {revealDenied && <p className="text-xs text-gray-500">{revealDenied}.</p>}
+                {revealError && <p className="text-xs text-red-700">Could not reveal: {revealError}</p>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,20 @@
+// src/components/LiveStatusIndicator.tsx
+import React from 'react';
+import { LiveStatus, POLL_INTERVAL_MS } from '../lib/liveUpdates';
+
+const STATUS_STYLES: Record<LiveStatus, { dot: string; label: string }> = {
+    connecting: { dot: 'bg-gray-400', label: 'Connecting…' },
+    live: { dot: 'bg-green-500', label: 'Live' },
+    reconnecting: { dot: 'bg-amber-500 animate-pulse', label: 'Reconnecting…' },
+    polling: { dot: 'bg-amber-500', label: `Refreshing every ${POLL_INTERVAL_MS / 1000}s` }
+};
+
+export const LiveStatusIndicator: React.FC<{ status: LiveStatus }> = ({ status }) => (
+    <span
+        className="flex items-center gap-2 text-sm text-gray-600"
+        title={status === 'polling' ? 'Live updates are unavailable; the queue is checked periodically instead' : undefined}
+    >
+        <span className={`w-2.5 h-2.5 rounded-full ${STATUS_STYLES[status].dot}`} />
+        {STATUS_STYLES[status].label}
+    </span>
+);
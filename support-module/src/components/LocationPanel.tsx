@@ -0,0 +1,75 @@
+// src/components/LocationPanel.tsx
+
+import React from 'react';
+import { MapPin, CheckCircle, AlertTriangle, XCircle, HelpCircle, ExternalLink } from 'lucide-react';
+import { PendingKYC } from '../lib/supportApi';
+import { LocationVerification, LocationVerificationStatus } from '../lib/geoVerification';
+
+interface LocationPanelProps {
+    merchant: PendingKYC;
+    verification: LocationVerification;
+}
+
+const STATUS_STYLES: Record<LocationVerificationStatus, { label: string; className: string; icon: React.ReactNode }> = {
+    verified: { label: 'Location verified', className: 'bg-green-50 border-green-200 text-green-800', icon: <CheckCircle className="w-5 h-5" /> },
+    out_of_radius: { label: 'Outside allowed radius', className: 'bg-amber-50 border-amber-200 text-amber-800', icon: <AlertTriangle className="w-5 h-5" /> },
+    implausible: { label: 'Implausible capture', className: 'bg-red-50 border-red-200 text-red-800', icon: <XCircle className="w-5 h-5" /> },
+    missing: { label: 'Location not captured', className: 'bg-red-50 border-red-200 text-red-800', icon: <XCircle className="w-5 h-5" /> },
+    unverifiable: { label: 'Cannot verify', className: 'bg-gray-50 border-gray-200 text-gray-700', icon: <HelpCircle className="w-5 h-5" /> }
+};
+
+export const LocationPanel: React.FC<LocationPanelProps> = ({ merchant, verification }) => {
+    const kyc = merchant.merchant_kyc;
+    const style = STATUS_STYLES[verification.status];
+    const hasCoordinates = verification.status !== 'missing';
+
+    return (
+        <div className="space-y-4">
+            <div className={`p-4 border rounded-lg flex items-start gap-3 ${style.className}`}>
+                {style.icon}
+                <div>
+                    <p className="font-semibold">{style.label}</p>
+                    <p className="text-sm">{verification.message}</p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-600 flex items-center gap-1"><MapPin className="w-3 h-3" /> Captured coordinates</p>
+                    {hasCoordinates ? (
+                        <div className="flex items-center gap-2">
+                            <p className="font-mono">{kyc.latitude.toFixed(5)}, {kyc.longitude.toFixed(5)}</p>
+                            <a
+                                href={`https://www.openstreetmap.org/?mlat=${kyc.latitude}&mlon=${kyc.longitude}#map=15/${kyc.latitude}/${kyc.longitude}`}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="text-blue-600 hover:text-blue-800"
+                                title="Open in map"
+                            >
+                                <ExternalLink className="w-4 h-4" />
+                            </a>
+                        </div>
+                    ) : (
+                        <p>—</p>
+                    )}
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-600">Declared business address</p>
+                    <p>{merchant.business_address || '—'}</p>
+                    <p className="text-sm text-gray-600">Pincode: {verification.referencePincode || merchant.pincode || '—'}</p>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-600">Distance to pincode centroid</p>
+                    <p>
+                        {verification.distanceKm !== null ? `${verification.distanceKm} km` : '—'}
+                        {verification.referencePrecision === 'region' && <span className="text-xs text-gray-500"> (approximate, region-level reference)</span>}
+                    </p>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-600">Allowed radius</p>
+                    <p>{verification.radiusKm} km</p>
+                </div>
+            </div>
+        </div>
+    );
+};
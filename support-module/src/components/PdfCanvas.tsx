@@ -0,0 +1,104 @@
+// src/components/PdfCanvas.tsx
+
+import React, { useEffect, useRef, useState } from 'react';
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { useElementWidth } from '../hooks/useElementWidth';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+interface PdfCanvasProps {
+    url: string;
+    page: number;
+    zoom: number;
+    rotation: number;
+    fitWidth: boolean;
+    onLoad?: (numPages: number) => void;
+    onFitScale?: (scale: number) => void;
+    className?: string;
+}
+
+// Renders a single page of a PDF onto a canvas. Same zoom/rotation/fit semantics as
+// ZoomableImage, with `page` 1-based.
+export const PdfCanvas: React.FC<PdfCanvasProps> = ({ url, page, zoom, rotation, fitWidth, onLoad, onFitScale, className = '' }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const containerWidth = useElementWidth(containerRef);
+    const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setPdf(null);
+        setError('');
+        const loadingTask = getDocument(url);
+        loadingTask.promise
+            .then((doc) => {
+                setPdf(doc);
+                onLoad?.(doc.numPages);
+            })
+            .catch((err: unknown) => {
+                console.error('Failed to load PDF:', err);
+                setError('Could not load PDF');
+            });
+        return () => {
+            loadingTask.destroy();
+        };
+        // onLoad is a notification only; reloading the PDF whenever its identity changes would loop.
+    }, [url]);
+
+    useEffect(() => {
+        if (!pdf || !canvasRef.current) return;
+        setError('');
+        let cancelled = false;
+        let renderTask: RenderTask | null = null;
+
+        pdf.getPage(Math.min(Math.max(page, 1), pdf.numPages)).then((pdfPage) => {
+            if (cancelled || !canvasRef.current) return;
+            const pageRotation = (pdfPage.rotate + rotation) % 360;
+            const unscaled = pdfPage.getViewport({ scale: 1, rotation: pageRotation });
+            const scale = fitWidth && containerWidth ? containerWidth / unscaled.width : zoom;
+            const viewport = pdfPage.getViewport({ scale, rotation: pageRotation });
+            if (fitWidth) onFitScale?.(scale);
+
+            const canvas = canvasRef.current;
+            const context = canvas.getContext('2d');
+            if (!context) return;
+            canvas.width = Math.floor(viewport.width);
+            canvas.height = Math.floor(viewport.height);
+
+            renderTask = pdfPage.render({ canvasContext: context, viewport });
+            renderTask.promise.catch((err: unknown) => {
+                if (err instanceof Error && err.name === 'RenderingCancelledException') return;
+                console.error('Failed to render PDF page:', err);
+            });
+        }).catch((err: unknown) => {
+            // The document is destroyed when the url changes; a page request cut short by that is expected.
+            if (cancelled) return;
+            console.error('Failed to load PDF page:', err);
+            setError('Could not load PDF page');
+        });
+
+        return () => {
+            cancelled = true;
+            renderTask?.cancel();
+        };
+    }, [pdf, page, zoom, rotation, fitWidth, containerWidth, onFitScale]);
+
+    return (
+        <div ref={containerRef} className={`relative overflow-auto [scrollbar-gutter:stable] bg-gray-100 rounded-lg ${className}`}>
+            {!pdf && !error && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                    <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                </div>
+            )}
+            {error && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center text-sm text-red-700 gap-2">
+                    <AlertCircle className="w-6 h-6" />
+                    {error}
+                </div>
+            )}
+            <canvas ref={canvasRef} className={`mx-auto block ${pdf ? '' : 'invisible'}`} />
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+// src/components/PriorRejectionsNotice.tsx
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { TimelineEvent } from '../lib/kycTimeline';
+import { ReasonCodeBadges } from './ReasonCodePicker';
+
+interface PriorRejectionsNoticeProps {
+    merchantId: string;
+    rejections: TimelineEvent[];
+    // Hidden on the history page itself.
+    showHistoryLink?: boolean;
+}
+
+export const PriorRejectionsNotice: React.FC<PriorRejectionsNoticeProps> = ({ merchantId, rejections, showHistoryLink = true }) => {
+    if (rejections.length === 0) return null;
+
+    return (
+        <div className="p-4 bg-amber-50 border border-amber-300 rounded-lg space-y-3">
+            <div className="flex items-center justify-between gap-4">
+                <p className="font-semibold text-amber-900 flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5" />
+                    Previously rejected {rejections.length === 1 ? 'once' : `${rejections.length} times`}
+                </p>
+                {showHistoryLink && (
+                    <Link to={`/merchants/${merchantId}`} target="_blank" rel="noreferrer" className="text-sm text-blue-600 hover:underline">
+                        View full history ↗
+                    </Link>
+                )}
+            </div>
+            <ul className="space-y-2">
+                {rejections.map((event) => (
+                    <li key={event.id} className="text-sm text-amber-900 space-y-1">
+                        <p>
+                            <span className="font-medium">{event.title}</span> • {new Date(event.at).toLocaleDateString()}
+                            {event.actor && ` • ${event.actor}`}
+                        </p>
+                        {event.detail && <p className="text-gray-700">“{event.detail}”</p>}
+                        <ReasonCodeBadges codes={event.reasonCodes} />
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
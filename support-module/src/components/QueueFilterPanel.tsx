@@ -0,0 +1,88 @@
+// src/components/QueueFilterPanel.tsx
+
+import React from 'react';
+import { QueueFilters, YesNoFilter, FILTER_DOCUMENT_TYPES, KYC_STATUS_OPTIONS, EMPTY_QUEUE_FILTERS } from '../lib/queueFilters';
+import { formatDocumentType } from './DocumentViewer';
+
+interface QueueFilterPanelProps {
+    filters: QueueFilters;
+    onChange: (filters: QueueFilters) => void;
+}
+
+const YesNoSelect: React.FC<{ label: string; value: YesNoFilter; onChange: (value: YesNoFilter) => void }> = ({ label, value, onChange }) => (
+    <label className="block">
+        <span className="text-xs text-gray-600">{label}</span>
+        <select value={value} onChange={(e) => onChange(e.target.value as YesNoFilter)} className="mt-1 w-full px-3 py-2 border rounded-lg">
+            <option value="">Any</option>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+        </select>
+    </label>
+);
+
+export const QueueFilterPanel: React.FC<QueueFilterPanelProps> = ({ filters, onChange }) => {
+    const update = (changes: Partial<QueueFilters>) => onChange({ ...filters, ...changes });
+
+    // Each document chip cycles: any → present → missing → any.
+    const cycleDocument = (type: string) => {
+        const documents = { ...filters.documents };
+        if (!documents[type]) documents[type] = 'present';
+        else if (documents[type] === 'present') documents[type] = 'missing';
+        else delete documents[type];
+        update({ documents });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <YesNoSelect label="Video KYC completed" value={filters.videoKyc} onChange={(videoKyc) => update({ videoKyc })} />
+                <YesNoSelect label="Location captured" value={filters.locationCaptured} onChange={(locationCaptured) => update({ locationCaptured })} />
+                <label className="block">
+                    <span className="text-xs text-gray-600">KYC status</span>
+                    <select value={filters.kycStatus} onChange={(e) => update({ kycStatus: e.target.value })} className="mt-1 w-full px-3 py-2 border rounded-lg">
+                        <option value="">Any</option>
+                        {KYC_STATUS_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="block">
+                    <span className="text-xs text-gray-600">Created from</span>
+                    <input type="date" value={filters.createdFrom} max={filters.createdTo || undefined} onChange={(e) => update({ createdFrom: e.target.value })} className="mt-1 w-full px-3 py-2 border rounded-lg" />
+                </label>
+                <label className="block">
+                    <span className="text-xs text-gray-600">Created to</span>
+                    <input type="date" value={filters.createdTo} min={filters.createdFrom || undefined} onChange={(e) => update({ createdTo: e.target.value })} className="mt-1 w-full px-3 py-2 border rounded-lg" />
+                </label>
+            </div>
+
+            <div>
+                <p className="text-xs text-gray-600 mb-2">Documents (click to require present, again for missing)</p>
+                <div className="flex flex-wrap gap-2">
+                    {FILTER_DOCUMENT_TYPES.map((type) => {
+                        const presence = filters.documents[type];
+                        return (
+                            <button
+                                key={type}
+                                onClick={() => cycleDocument(type)}
+                                className={`px-3 py-1 rounded-full text-sm border ${
+                                    presence === 'present'
+                                        ? 'bg-green-50 border-green-400 text-green-800'
+                                        : presence === 'missing'
+                                            ? 'bg-red-50 border-red-400 text-red-800'
+                                            : 'bg-white hover:bg-gray-100'
+                                }`}
+                            >
+                                {presence === 'present' ? '✓ ' : presence === 'missing' ? '✕ ' : ''}{formatDocumentType(type)}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className="flex justify-end">
+                <button onClick={() => onChange(EMPTY_QUEUE_FILTERS)} className="text-sm text-blue-600 hover:underline">Clear filters</button>
+            </div>
+        </div>
+    );
+};
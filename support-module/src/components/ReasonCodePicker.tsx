@@ -0,0 +1,61 @@
+// src/components/ReasonCodePicker.tsx
+
+import React from 'react';
+import { REASON_CATEGORIES, REASON_CODES, getReasonCode } from '../data/reasonCodes';
+
+interface ReasonCodePickerProps {
+    selected: string[];
+    onChange: (codes: string[]) => void;
+    disabled?: boolean;
+}
+
+export const ReasonCodePicker: React.FC<ReasonCodePickerProps> = ({ selected, onChange, disabled }) => {
+    const toggle = (code: string) => {
+        onChange(selected.includes(code) ? selected.filter((c) => c !== code) : [...selected, code]);
+    };
+
+    return (
+        <div className="space-y-3">
+            {REASON_CATEGORIES.map((category) => {
+                const codes = REASON_CODES.filter((reason) => reason.category === category.id);
+                if (codes.length === 0) return null;
+                return (
+                    <div key={category.id}>
+                        <p className="text-xs text-gray-600 mb-1">{category.label}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {codes.map((reason) => {
+                                const active = selected.includes(reason.code);
+                                return (
+                                    <button
+                                        key={reason.code}
+                                        type="button"
+                                        onClick={() => toggle(reason.code)}
+                                        disabled={disabled}
+                                        aria-pressed={active}
+                                        title={reason.merchantMessage}
+                                        className={`px-3 py-1 rounded-full text-sm border ${active ? 'bg-red-600 text-white border-red-600' : 'bg-white hover:bg-gray-100'}`}
+                                    >
+                                        {reason.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export const ReasonCodeBadges: React.FC<{ codes?: string[] | null }> = ({ codes }) => {
+    if (!codes || codes.length === 0) return null;
+    return (
+        <div className="flex flex-wrap gap-1">
+            {codes.map((code) => (
+                <span key={code} title={code} className="px-2 py-0.5 rounded-full text-xs bg-red-50 text-red-800 border border-red-200">
+                    {getReasonCode(code).label}
+                </span>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,81 @@
+// src/components/SavedViewsBar.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Bookmark, X } from 'lucide-react';
+import { useNotifications } from '../context/NotificationContext';
+import { SavedView, loadSavedViews, storeSavedViews } from '../lib/savedViews';
+
+interface SavedViewsBarProps {
+    userId: string;
+    // Query string of the view currently on screen (see viewParams).
+    currentParams: string;
+    onApply: (params: string) => void;
+}
+
+export const SavedViewsBar: React.FC<SavedViewsBarProps> = ({ userId, currentParams, onApply }) => {
+    const { confirm } = useNotifications();
+    const [views, setViews] = useState<SavedView[]>(() => loadSavedViews(userId));
+    // Name being typed for the view about to be saved; null while the name field is hidden.
+    const [draftName, setDraftName] = useState<string | null>(null);
+
+    useEffect(() => {
+        setViews(loadSavedViews(userId));
+    }, [userId]);
+
+    const update = (next: SavedView[]) => {
+        setViews(next);
+        storeSavedViews(userId, next);
+    };
+
+    const saveCurrent = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = draftName?.trim();
+        if (!name) return;
+        const existing = views.find((view) => view.name.toLowerCase() === name.toLowerCase());
+        if (existing && !(await confirm({ title: 'Replace saved view?', message: `Replace the saved view "${existing.name}" with the current filters?`, confirmLabel: 'Replace' }))) return;
+        const view: SavedView = { id: existing?.id || `view-${Date.now()}`, name, params: currentParams, createdAt: new Date().toISOString() };
+        update(existing ? views.map((v) => (v.id === existing.id ? view : v)) : [...views, view]);
+        setDraftName(null);
+    };
+
+    const remove = async (view: SavedView) => {
+        if (await confirm({ title: 'Delete saved view?', message: `Delete the saved view "${view.name}"?`, confirmLabel: 'Delete', tone: 'danger' })) {
+            update(views.filter((v) => v.id !== view.id));
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-600 flex items-center gap-1"><Bookmark className="w-4 h-4" /> Views:</span>
+            {views.map((view) => (
+                <span
+                    key={view.id}
+                    className={`inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-sm border ${view.params === currentParams ? 'bg-blue-600 text-white border-blue-600' : 'bg-white'}`}
+                >
+                    <button onClick={() => onApply(view.params)}>{view.name}</button>
+                    <button onClick={() => remove(view)} aria-label={`Delete ${view.name}`} className="p-0.5 rounded-full hover:bg-black/10">
+                        <X className="w-3 h-3" />
+                    </button>
+                </span>
+            ))}
+            {views.length === 0 && <span className="text-sm text-gray-400">none saved</span>}
+            {draftName === null ? (
+                <button onClick={() => setDraftName('')} className="ml-auto text-sm text-blue-600 hover:underline">Save current view</button>
+            ) : (
+                <form onSubmit={saveCurrent} className="ml-auto flex items-center gap-2">
+                    <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Escape' && setDraftName(null)}
+                        placeholder="Name this view"
+                        aria-label="Name this view"
+                        className="px-3 py-1 border rounded-lg text-sm"
+                    />
+                    <button type="submit" disabled={!draftName.trim()} className="text-sm text-blue-600 hover:underline disabled:opacity-50">Save</button>
+                    <button type="button" onClick={() => setDraftName(null)} className="text-sm text-gray-600 hover:underline">Cancel</button>
+                </form>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,36 @@
+// src/components/ShortcutHelp.tsx
+
+import React from 'react';
+import { Shortcut, formatKey } from '../lib/shortcuts';
+import { Keyboard, X } from 'lucide-react';
+
+interface ShortcutHelpProps<A extends string> {
+    shortcuts: Shortcut<A>[];
+    onClose: () => void;
+}
+
+export const ShortcutHelp = <A extends string>({ shortcuts, onClose }: ShortcutHelpProps<A>) => (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+        <div className="bg-white rounded-lg shadow-xl w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+            <div className="p-6 border-b flex justify-between items-center">
+                <h2 className="text-xl font-bold flex items-center gap-2"><Keyboard className="w-5 h-5" /> Keyboard shortcuts</h2>
+                <button onClick={onClose}><X className="w-5 h-5" /></button>
+            </div>
+            <table className="w-full text-sm">
+                <tbody>
+                    {shortcuts.map((shortcut) => (
+                        <tr key={shortcut.action} className="border-b last:border-b-0">
+                            <td className="px-6 py-2 w-24">
+                                {shortcut.keys.map((key) => (
+                                    <kbd key={key} className="px-2 py-1 mr-1 bg-gray-100 border border-gray-300 rounded font-mono text-xs">{formatKey(key)}</kbd>
+                                ))}
+                            </td>
+                            <td className="px-6 py-2 text-gray-700">{shortcut.description}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="px-6 py-4 text-xs text-gray-500">Shortcuts are ignored while typing; press Esc to leave a text box first.</p>
+        </div>
+    </div>
+);
@@ -0,0 +1,46 @@
+// src/components/Toaster.tsx
+
+import React from 'react';
+import { Toast, ToastKind } from '../context/NotificationContext';
+import { CheckCircle, Info, X, XCircle } from 'lucide-react';
+
+interface ToasterProps {
+    toasts: Toast[];
+    onDismiss: (id: number) => void;
+}
+
+const KIND_STYLES: Record<ToastKind, { className: string; icon: React.ReactNode }> = {
+    success: { className: 'border-green-300', icon: <CheckCircle className="w-5 h-5 text-green-600 shrink-0" /> },
+    error: { className: 'border-red-300', icon: <XCircle className="w-5 h-5 text-red-600 shrink-0" /> },
+    info: { className: 'border-blue-300', icon: <Info className="w-5 h-5 text-blue-600 shrink-0" /> }
+};
+
+// Newest at the bottom. Screen readers announce new toasts; errors interrupt, the rest wait their turn.
+export const Toaster: React.FC<ToasterProps> = ({ toasts, onDismiss }) => (
+    <div aria-live="polite" className="fixed bottom-4 right-4 z-[70] w-full max-w-sm space-y-2 pointer-events-none">
+        {toasts.map((toast) => (
+            <div
+                key={toast.id}
+                role={toast.kind === 'error' ? 'alert' : 'status'}
+                className={`pointer-events-auto bg-white border rounded-lg shadow-lg p-4 flex items-start gap-3 text-sm ${KIND_STYLES[toast.kind].className}`}
+            >
+                {KIND_STYLES[toast.kind].icon}
+                <p className="flex-1 text-gray-800">{toast.message}</p>
+                {toast.action && (
+                    <button
+                        onClick={() => {
+                            toast.action?.onClick();
+                            onDismiss(toast.id);
+                        }}
+                        className="font-semibold text-blue-600 hover:underline"
+                    >
+                        {toast.action.label}
+                    </button>
+                )}
+                <button onClick={() => onDismiss(toast.id)} aria-label="Dismiss notification" className="text-gray-400 hover:text-gray-600">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        ))}
+    </div>
+);
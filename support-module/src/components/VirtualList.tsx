@@ -0,0 +1,71 @@
+// src/components/VirtualList.tsx
+
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+    items: T[];
+    rowHeight: number;
+    renderRow: (item: T, index: number) => React.ReactNode;
+    getKey: (item: T) => string;
+    // Called when the user scrolls within `endThreshold` rows of the end.
+    onEndReached?: () => void;
+    endThreshold?: number;
+    overscan?: number;
+    footer?: React.ReactNode;
+    className?: string;
+}
+
+// Renders only the rows in (and just around) the viewport of a fixed-row-height list,
+// so queues with thousands of entries stay responsive.
+export const VirtualList = <T,>({
+    items,
+    rowHeight,
+    renderRow,
+    getKey,
+    onEndReached,
+    endThreshold = 5,
+    overscan = 4,
+    footer,
+    className = ''
+}: VirtualListProps<T>) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        setViewportHeight(element.clientHeight);
+        const observer = new ResizeObserver((entries) => setViewportHeight(entries[0].contentRect.height));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+    const last = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+    // Also fires when the first page does not fill the viewport.
+    useEffect(() => {
+        if (onEndReached && viewportHeight > 0 && last >= items.length - endThreshold) onEndReached();
+    }, [last, items.length, endThreshold, viewportHeight, onEndReached]);
+
+    return (
+        <div
+            ref={containerRef}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            className={`overflow-y-auto ${className}`}
+        >
+            <div style={{ height: items.length * rowHeight, position: 'relative' }}>
+                {items.slice(first, last).map((item, offset) => (
+                    <div
+                        key={getKey(item)}
+                        style={{ position: 'absolute', top: (first + offset) * rowHeight, height: rowHeight, left: 0, right: 0 }}
+                    >
+                        {renderRow(item, first + offset)}
+                    </div>
+                ))}
+            </div>
+            {footer}
+        </div>
+    );
+};
@@ -0,0 +1,80 @@
+// src/components/ZoomableImage.tsx
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { useElementWidth } from '../hooks/useElementWidth';
+
+interface ZoomableImageProps {
+    src: string;
+    alt: string;
+    zoom: number;
+    rotation: number;
+    fitWidth: boolean;
+    onFitScale?: (scale: number) => void;
+    className?: string;
+}
+
+// Scrollable image frame. `zoom` is relative to the image's natural size and is
+// ignored while `fitWidth` is on (the fitted scale is reported through `onFitScale`);
+// rotation is in degrees and a multiple of 90.
+export const ZoomableImage: React.FC<ZoomableImageProps> = ({ src, alt, zoom, rotation, fitWidth, onFitScale, className = '' }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const containerWidth = useElementWidth(containerRef);
+    const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        setNatural(null);
+        setFailed(false);
+    }, [src]);
+
+    const sideways = rotation % 180 !== 0;
+    const rotatedWidth = natural ? (sideways ? natural.height : natural.width) : 0;
+    const rotatedHeight = natural ? (sideways ? natural.width : natural.height) : 0;
+    const scale = fitWidth && rotatedWidth && containerWidth ? containerWidth / rotatedWidth : zoom;
+
+    useEffect(() => {
+        if (fitWidth && natural) onFitScale?.(scale);
+    }, [fitWidth, natural, scale, onFitScale]);
+
+    return (
+        <div ref={containerRef} className={`relative overflow-auto [scrollbar-gutter:stable] bg-gray-100 rounded-lg ${className}`}>
+            {!natural && !failed && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                    <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                </div>
+            )}
+            {failed && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center text-sm text-red-700 gap-2">
+                    <AlertCircle className="w-6 h-6" />
+                    Could not load image
+                </div>
+            )}
+            <div
+                className="relative mx-auto"
+                style={{ width: rotatedWidth * scale, height: rotatedHeight * scale }}
+            >
+                <img
+                    src={src}
+                    alt={alt}
+                    draggable={false}
+                    onLoad={(e) => {
+                        setFailed(false);
+                        setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+                    }}
+                    onError={() => {
+                        setNatural(null);
+                        setFailed(true);
+                    }}
+                    className="absolute top-1/2 left-1/2 max-w-none select-none"
+                    style={{
+                        width: natural ? natural.width * scale : undefined,
+                        height: natural ? natural.height * scale : undefined,
+                        transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+                        visibility: natural ? 'visible' : 'hidden'
+                    }}
+                />
+            </div>
+        </div>
+    );
+};
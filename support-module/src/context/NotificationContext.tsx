@@ -0,0 +1,89 @@
+// src/context/NotificationContext.tsx
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Toaster } from '../components/Toaster';
+import { ConfirmDialog, ConfirmOptions } from '../components/ConfirmDialog';
+
+export type ToastKind = 'success' | 'error' | 'info';
+
+export interface ToastOptions {
+    kind?: ToastKind;
+    action?: { label: string; onClick: () => void };
+    durationMs?: number;
+}
+
+export interface Toast {
+    id: number;
+    kind: ToastKind;
+    message: string;
+    action?: ToastOptions['action'];
+}
+
+interface NotificationContextType {
+    // Shows a toast and returns its id for dismiss().
+    notify: (message: string, options?: ToastOptions) => number;
+    dismiss: (id: number) => void;
+    // Resolves true when the user confirms, false when they cancel.
+    confirm: (options: ConfirmOptions) => Promise<boolean>;
+}
+
+// Errors stay up longer so there is time to read them.
+const DEFAULT_DURATION_MS: Record<ToastKind, number> = { success: 4000, info: 5000, error: 8000 };
+// Beyond this the oldest toast makes way for the new one.
+const MAX_TOASTS = 4;
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [toasts, setToasts] = useState<Toast[]>([]);
+    const [pendingConfirm, setPendingConfirm] = useState<{ options: ConfirmOptions; resolve: (confirmed: boolean) => void } | null>(null);
+    const nextId = useRef(1);
+    const timers = useRef(new Map<number, number>());
+
+    const dismiss = useCallback((id: number) => {
+        window.clearTimeout(timers.current.get(id));
+        timers.current.delete(id);
+        setToasts((current) => current.filter((toast) => toast.id !== id));
+    }, []);
+
+    const notify = useCallback((message: string, options: ToastOptions = {}) => {
+        const id = nextId.current++;
+        const kind = options.kind || 'success';
+        setToasts((current) => [...current, { id, kind, message, action: options.action }].slice(-MAX_TOASTS));
+        timers.current.set(id, window.setTimeout(() => dismiss(id), options.durationMs ?? DEFAULT_DURATION_MS[kind]));
+        return id;
+    }, [dismiss]);
+
+    const confirm = useCallback((options: ConfirmOptions) => new Promise<boolean>((resolve) => {
+        setPendingConfirm((current) => {
+            // Only one question at a time; a newer one cancels the older.
+            current?.resolve(false);
+            return { options, resolve };
+        });
+    }), []);
+
+    useEffect(() => () => timers.current.forEach((timer) => window.clearTimeout(timer)), []);
+
+    const answer = (confirmed: boolean) => {
+        pendingConfirm?.resolve(confirmed);
+        setPendingConfirm(null);
+    };
+
+    const value = useMemo<NotificationContextType>(() => ({ notify, dismiss, confirm }), [notify, dismiss, confirm]);
+
+    return (
+        <NotificationContext.Provider value={value}>
+            {children}
+            <Toaster toasts={toasts} onDismiss={dismiss} />
+            {pendingConfirm && <ConfirmDialog {...pendingConfirm.options} onConfirm={() => answer(true)} onCancel={() => answer(false)} />}
+        </NotificationContext.Provider>
+    );
+};
+
+export const useNotifications = (): NotificationContextType => {
+    const context = useContext(NotificationContext);
+    if (!context) {
+        throw new Error('useNotifications must be used within NotificationProvider');
+    }
+    return context;
+};
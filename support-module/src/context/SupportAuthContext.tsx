@@ -1,7 +1,9 @@
 // src/context/SupportAuthContext.tsx
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { supportLogin, handleApiError } from '../lib/supportApi';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { supportLogin, verifyMfaCode, refreshSession, revokeSession, isMfaChallenge, MfaChallengeExpiredError, SupportLoginResponse, handleApiError } from '../lib/supportApi';
+import { refreshAccessToken, setSessionHandlers } from '../lib/authFetch';
+import { isTokenExpired, refreshDelay } from '../lib/jwt';
 
 export interface SupportUser {
     id: string;
@@ -10,55 +12,156 @@ export interface SupportUser {
     role: string;
 }
 
+// The password was accepted and the account has two-factor on, so a code is needed before there
+// is a session. Held in memory only: a reload starts the sign-in again.
+export interface PendingMfa {
+    email: string;
+    expiresAt: string;
+}
+
 interface SupportAuthContextType {
     user: SupportUser | null;
     token: string | null;
     isAuthenticated: boolean;
+    mfaPending: PendingMfa | null;
     loading: boolean;
     error: string | null;
-    login: (email: string, password: string) => Promise<void>;
+    // Resolves 'mfa_required' when verifyMfa must follow before the user is signed in.
+    login: (email: string, password: string) => Promise<'authenticated' | 'mfa_required'>;
+    verifyMfa: (code: string) => Promise<void>;
+    cancelMfa: () => void;
     logout: () => void;
     clearError: () => void;
 }
 
 const SupportAuthContext = createContext<SupportAuthContextType | undefined>(undefined);
 
+const TOKEN_KEY = 'support_token';
+const REFRESH_TOKEN_KEY = 'support_refresh_token';
+const USER_KEY = 'support_user';
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please log in again.';
+
+const storeSession = (session: SupportLoginResponse) => {
+    localStorage.setItem(TOKEN_KEY, session.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+    localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+};
+
+const clearStoredSession = () => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+};
+
+// The saved session, unless its token has expired with no refresh token to renew it.
+const readStoredSession = (): { token: string; user: SupportUser } | null => {
+    const storedToken = localStorage.getItem(TOKEN_KEY);
+    const storedUser = localStorage.getItem(USER_KEY);
+    if (!storedToken || !storedUser) return null;
+    if (isTokenExpired(storedToken) && !localStorage.getItem(REFRESH_TOKEN_KEY)) {
+        clearStoredSession();
+        return null;
+    }
+    try {
+        return { token: storedToken, user: JSON.parse(storedUser) };
+    } catch (err) {
+        console.error('Failed to parse stored user:', err);
+        clearStoredSession();
+        return null;
+    }
+};
+
 export const SupportAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const [user, setUser] = useState<SupportUser | null>(null);
-    const [token, setToken] = useState<string | null>(null);
+    // Read synchronously, so a reload renders the page it was on instead of bouncing through login.
+    const [initialSession] = useState(readStoredSession);
+    const [user, setUser] = useState<SupportUser | null>(initialSession?.user || null);
+    const [token, setToken] = useState<string | null>(initialSession?.token || null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [mfaPending, setMfaPending] = useState<PendingMfa | null>(null);
+    const mfaTokenRef = useRef<string | null>(null);
+    const tokenRef = useRef(token);
+    tokenRef.current = token;
 
-    // Initialize from localStorage
-    useEffect(() => {
-        const storedToken = localStorage.getItem('support_token');
-        const storedUser = localStorage.getItem('support_user');
-
-        if (storedToken && storedUser) {
-            try {
-                setToken(storedToken);
-                setUser(JSON.parse(storedUser));
-            } catch (err) {
-                console.error('Failed to parse stored user:', err);
-                localStorage.removeItem('support_token');
-                localStorage.removeItem('support_user');
-            }
+    const endSession = (message: string | null) => {
+        setUser(null);
+        setToken(null);
+        setError(message);
+        clearStoredSession();
+    };
+
+    // Swaps the stored refresh token for a new pair. Refresh tokens are single-use, so when another
+    // tab got there first its fresh token is adopted instead.
+    const refresh = async (): Promise<string | null> => {
+        const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+        if (!refreshToken) return null;
+        try {
+            const session = await refreshSession(refreshToken);
+            storeSession(session);
+            setToken(session.token);
+            setUser(session.user);
+            return session.token;
+        } catch {
+            const stored = localStorage.getItem(TOKEN_KEY);
+            if (!stored || stored === tokenRef.current || isTokenExpired(stored)) return null;
+            setToken(stored);
+            return stored;
         }
+    };
+
+    useEffect(() => {
+        setSessionHandlers({ refresh, onSessionExpired: () => endSession(SESSION_EXPIRED_MESSAGE) });
+        return () => setSessionHandlers(null);
     }, []);
 
+    // Renew the token shortly before it expires; if that fails, log out before requests start failing.
+    useEffect(() => {
+        if (!token) return;
+        const delay = refreshDelay(token);
+        if (delay === null) return;
+        const timer = window.setTimeout(async () => {
+            if (!(await refreshAccessToken())) endSession(SESSION_EXPIRED_MESSAGE);
+        }, delay);
+        return () => window.clearTimeout(timer);
+    }, [token]);
+
+    // Follow logins, logouts and renewals made in other tabs.
+    useEffect(() => {
+        const onStorage = (event: StorageEvent) => {
+            if (event.key !== null && event.key !== TOKEN_KEY) return;
+            const stored = readStoredSession();
+            setToken(stored?.token || null);
+            setUser(stored?.user || null);
+        };
+        window.addEventListener('storage', onStorage);
+        return () => window.removeEventListener('storage', onStorage);
+    }, []);
+
+    const startSession = (session: SupportLoginResponse) => {
+        setToken(session.token);
+        setUser(session.user);
+        storeSession(session);
+    };
+
+    const cancelMfa = () => {
+        mfaTokenRef.current = null;
+        setMfaPending(null);
+    };
+
     const login = async (email: string, password: string) => {
         try {
             setLoading(true);
             setError(null);
+            cancelMfa();
 
             const response = await supportLogin({ email, password });
-
-            setToken(response.token);
-            setUser(response.user);
-
-            // Store in localStorage
-            localStorage.setItem('support_token', response.token);
-            localStorage.setItem('support_user', JSON.stringify(response.user));
+            if (isMfaChallenge(response)) {
+                mfaTokenRef.current = response.mfaToken;
+                setMfaPending({ email, expiresAt: response.expiresAt });
+                return 'mfa_required';
+            }
+            startSession(response);
+            return 'authenticated';
         } catch (err) {
             const errorMessage = handleApiError(err);
             setError(errorMessage);
@@ -68,12 +171,29 @@ export const SupportAuthProvider: React.FC<{ children: React.ReactNode }> = ({ c
         }
     };
 
+    const verifyMfa = async (code: string) => {
+        try {
+            setLoading(true);
+            setError(null);
+            if (!mfaTokenRef.current) throw new MfaChallengeExpiredError('Please enter your password again');
+
+            const session = await verifyMfaCode(mfaTokenRef.current, code);
+            cancelMfa();
+            startSession(session);
+        } catch (err) {
+            // Back to the password step; a wrong code keeps the challenge for another try.
+            if (err instanceof MfaChallengeExpiredError) cancelMfa();
+            setError(handleApiError(err));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const logout = () => {
-        setUser(null);
-        setToken(null);
-        setError(null);
-        localStorage.removeItem('support_token');
-        localStorage.removeItem('support_user');
+        const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+        if (refreshToken) revokeSession(refreshToken).catch(() => undefined);
+        endSession(null);
     };
 
     const clearError = () => {
@@ -84,9 +204,12 @@ export const SupportAuthProvider: React.FC<{ children: React.ReactNode }> = ({ c
         user,
         token,
         isAuthenticated: !!token,
+        mfaPending,
         loading,
         error,
         login,
+        verifyMfa,
+        cancelMfa,
         logout,
         clearError
     };
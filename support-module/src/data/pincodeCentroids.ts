@@ -0,0 +1,120 @@
+// src/data/pincodeCentroids.ts
+// Offline centroid lookup for declared business pincodes. Exact centroids cover the
+// pincodes we onboard most from; anything else falls back to the postal region
+// (first two digits), which is only good enough for a coarse sanity check.
+
+export type LatLng = [number, number];
+
+export const PINCODE_CENTROIDS: Record<string, LatLng> = {
+    '110001': [28.6304, 77.2177], // Connaught Place, New Delhi
+    '110006': [28.6562, 77.2303], // Chandni Chowk, Delhi
+    '110019': [28.5494, 77.2526], // Kalkaji, Delhi
+    '122001': [28.4595, 77.0266], // Gurugram
+    '201301': [28.5708, 77.3261], // Noida
+    '226001': [26.8467, 80.9462], // Lucknow
+    '208001': [26.4499, 80.3319], // Kanpur
+    '221001': [25.3176, 82.9739], // Varanasi
+    '302001': [26.9124, 75.7873], // Jaipur GPO
+    '302003': [26.9239, 75.8267], // Johari Bazaar, Jaipur
+    '380001': [23.0258, 72.5873], // Ahmedabad
+    '395003': [21.1959, 72.8302], // Surat
+    '400001': [18.9388, 72.8354], // Fort, Mumbai
+    '400050': [19.0544, 72.8402], // Bandra West, Mumbai
+    '400703': [19.0771, 72.9986], // Vashi, Navi Mumbai
+    '411001': [18.5286, 73.8743], // Pune Camp
+    '411004': [18.5158, 73.8413], // Deccan Gymkhana, Pune
+    '440001': [21.1458, 79.0882], // Nagpur
+    '452001': [22.7196, 75.8577], // Indore
+    '462001': [23.2599, 77.4126], // Bhopal
+    '500001': [17.3850, 78.4867], // Hyderabad GPO
+    '500002': [17.3616, 78.4747], // Charminar, Hyderabad
+    '500081': [17.4483, 78.3915], // Madhapur, Hyderabad
+    '530001': [17.6868, 83.2185], // Visakhapatnam
+    '560001': [12.9716, 77.5946], // Bengaluru GPO
+    '560034': [12.9352, 77.6245], // Koramangala, Bengaluru
+    '560066': [12.9698, 77.7500], // Whitefield, Bengaluru
+    '600001': [13.0878, 80.2785], // Chennai GPO
+    '600017': [13.0418, 80.2341], // T Nagar, Chennai
+    '641001': [11.0168, 76.9558], // Coimbatore
+    '682001': [9.9658, 76.2421], // Fort Kochi
+    '695001': [8.5241, 76.9366], // Thiruvananthapuram
+    '700001': [22.5726, 88.3639], // Kolkata GPO
+    '700016': [22.5535, 88.3520], // Park Street, Kolkata
+    '751001': [20.2961, 85.8245], // Bhubaneswar
+    '781001': [26.1445, 91.7362], // Guwahati
+    '800001': [25.5941, 85.1376], // Patna
+    '834001': [23.3441, 85.3096] // Ranchi
+};
+
+// Approximate centre of each two-digit postal region.
+export const REGION_CENTROIDS: Record<string, LatLng> = {
+    '11': [28.6139, 77.2090], // Delhi
+    '12': [29.0588, 76.0856], // Haryana
+    '13': [29.0588, 76.0856], // Haryana
+    '14': [30.9010, 75.8573], // Punjab
+    '15': [30.9010, 75.8573], // Punjab
+    '16': [30.7333, 76.7794], // Chandigarh
+    '17': [31.1048, 77.1734], // Himachal Pradesh
+    '18': [33.7782, 76.5762], // Jammu & Kashmir
+    '19': [33.7782, 76.5762], // Jammu & Kashmir
+    '20': [27.1767, 78.0081], // Uttar Pradesh (west)
+    '21': [25.4358, 81.8463], // Uttar Pradesh (south)
+    '22': [26.8467, 80.9462], // Uttar Pradesh (central)
+    '23': [26.8467, 80.9462], // Uttar Pradesh (central)
+    '24': [30.0668, 79.0193], // Uttarakhand
+    '25': [29.9457, 78.1642], // Uttarakhand / west UP
+    '26': [30.3165, 78.0322], // Uttarakhand
+    '27': [26.7606, 83.3732], // Uttar Pradesh (east)
+    '28': [27.8974, 78.0880], // Uttar Pradesh (west)
+    '30': [26.9124, 75.7873], // Rajasthan
+    '31': [26.4499, 74.6399], // Rajasthan
+    '32': [25.2138, 75.8648], // Rajasthan
+    '33': [28.0229, 73.3119], // Rajasthan
+    '34': [26.2389, 73.0243], // Rajasthan
+    '36': [22.3039, 70.8022], // Gujarat (Saurashtra)
+    '37': [23.2420, 69.6669], // Gujarat (Kutch)
+    '38': [23.0225, 72.5714], // Gujarat
+    '39': [21.1702, 72.8311], // Gujarat (south)
+    '40': [19.0760, 72.8777], // Mumbai
+    '41': [18.5204, 73.8567], // Maharashtra (Pune)
+    '42': [19.9975, 73.7898], // Maharashtra (Nashik)
+    '43': [19.8762, 75.3433], // Maharashtra (Aurangabad)
+    '44': [21.1458, 79.0882], // Maharashtra (Nagpur)
+    '45': [22.7196, 75.8577], // Madhya Pradesh
+    '46': [23.2599, 77.4126], // Madhya Pradesh
+    '47': [26.2183, 78.1828], // Madhya Pradesh
+    '48': [23.1815, 79.9864], // Madhya Pradesh
+    '49': [21.2514, 81.6296], // Chhattisgarh
+    '50': [17.3850, 78.4867], // Telangana
+    '51': [15.8281, 78.0373], // Andhra Pradesh
+    '52': [16.5062, 80.6480], // Andhra Pradesh
+    '53': [17.6868, 83.2185], // Andhra Pradesh
+    '56': [12.9716, 77.5946], // Karnataka (Bengaluru)
+    '57': [12.2958, 76.6394], // Karnataka (Mysuru)
+    '58': [15.3647, 75.1240], // Karnataka (Hubballi)
+    '59': [15.8497, 74.4977], // Karnataka (Belagavi)
+    '60': [13.0827, 80.2707], // Tamil Nadu (Chennai)
+    '61': [11.9416, 79.8083], // Tamil Nadu / Puducherry
+    '62': [9.9252, 78.1198], // Tamil Nadu (Madurai)
+    '63': [11.6643, 78.1460], // Tamil Nadu (Salem)
+    '64': [11.0168, 76.9558], // Tamil Nadu (Coimbatore)
+    '67': [11.2588, 75.7804], // Kerala (north)
+    '68': [9.9312, 76.2673], // Kerala (central)
+    '69': [8.5241, 76.9366], // Kerala (south)
+    '70': [22.5726, 88.3639], // West Bengal (Kolkata)
+    '71': [22.5958, 88.2636], // West Bengal
+    '72': [22.4200, 87.3200], // West Bengal
+    '73': [26.7271, 88.3953], // West Bengal (north)
+    '74': [23.2324, 87.8615], // West Bengal
+    '75': [20.2961, 85.8245], // Odisha
+    '76': [19.8135, 85.8312], // Odisha
+    '77': [21.4669, 83.9812], // Odisha
+    '78': [26.1445, 91.7362], // Assam
+    '79': [25.5788, 91.8933], // North East
+    '80': [25.5941, 85.1376], // Bihar
+    '81': [25.2425, 86.9842], // Bihar
+    '82': [24.7914, 84.9994], // Bihar
+    '83': [23.3441, 85.3096], // Jharkhand
+    '84': [26.1209, 85.3647], // Bihar (north)
+    '85': [25.8560, 87.5700] // Bihar (east)
+};
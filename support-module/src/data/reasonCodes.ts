@@ -0,0 +1,54 @@
+// src/data/reasonCodes.ts
+// Catalogue of structured rejection reasons. Edit this list (and REASON_CODES in
+// mock-server/server.js, which refuses other codes) to add, retire or reword
+// codes; codes are stored with each decision, so never reuse a retired code for a
+// different meaning.
+
+export interface ReasonCategory {
+    id: string;
+    label: string;
+}
+
+export interface ReasonCode {
+    code: string;
+    category: string;
+    label: string;
+    // Wording used when the reason is passed on to the merchant.
+    merchantMessage: string;
+}
+
+export const REASON_CATEGORIES: ReasonCategory[] = [
+    { id: 'documents', label: 'Documents' },
+    { id: 'identity', label: 'Identity' },
+    { id: 'location', label: 'Location' },
+    { id: 'other', label: 'Other' }
+];
+
+export const REASON_CODES: ReasonCode[] = [
+    { code: 'DOC_MISMATCH', category: 'documents', label: 'Document details mismatch', merchantMessage: 'The details on your documents do not match the details you entered.' },
+    { code: 'DOC_BLURRY', category: 'documents', label: 'Blurry or unreadable image', merchantMessage: 'One or more documents are blurry or unreadable. Please upload a clear photo.' },
+    { code: 'DOC_CROPPED', category: 'documents', label: 'Document cropped or incomplete', merchantMessage: 'Part of a document is cut off. Please upload the full document.' },
+    { code: 'DOC_EXPIRED', category: 'documents', label: 'Document expired', merchantMessage: 'One of your documents has expired. Please upload a valid document.' },
+    { code: 'DOC_MISSING', category: 'documents', label: 'Required document missing', merchantMessage: 'A required document is missing from your application.' },
+    { code: 'PAN_INVALID', category: 'identity', label: 'PAN invalid', merchantMessage: 'The PAN you provided could not be verified.' },
+    { code: 'PAN_ENTITY_MISMATCH', category: 'identity', label: 'PAN type does not match business type', merchantMessage: 'Your PAN type does not match the business type you selected.' },
+    { code: 'AADHAAR_INVALID', category: 'identity', label: 'Aadhaar invalid', merchantMessage: 'The Aadhaar number you provided could not be verified.' },
+    { code: 'SELFIE_MISMATCH', category: 'identity', label: 'Selfie does not match ID photo', merchantMessage: 'Your selfie could not be matched to the photo on your ID.' },
+    { code: 'VIDEO_KYC_INCOMPLETE', category: 'identity', label: 'Video KYC incomplete', merchantMessage: 'Your video KYC was not completed.' },
+    { code: 'LOCATION_MISSING', category: 'location', label: 'Location not captured', merchantMessage: 'We could not capture your business location.' },
+    { code: 'LOCATION_MISMATCH', category: 'location', label: 'Location does not match business address', merchantMessage: 'Your captured location does not match your business address.' },
+    { code: 'SUSPECTED_FRAUD', category: 'other', label: 'Suspected fraud', merchantMessage: 'Your application could not be approved.' },
+    { code: 'OTHER', category: 'other', label: 'Other (see notes)', merchantMessage: 'Your application needs attention. Please contact support.' }
+];
+
+const BY_CODE = new Map(REASON_CODES.map((reason) => [reason.code, reason]));
+
+// Unknown codes (retired ones on old decisions, or the bank's own catalogue) fall back to
+// the code spelled out, e.g. ACCOUNT_NAME_MISMATCH -> "Account name mismatch".
+const labelFromCode = (code: string): string => {
+    const words = code.toLowerCase().replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const getReasonCode = (code: string): ReasonCode =>
+    BY_CODE.get(code) || { code, category: 'other', label: labelFromCode(code), merchantMessage: '' };
@@ -0,0 +1,22 @@
+// src/hooks/useElementWidth.ts
+
+import { useEffect, useState, RefObject } from 'react';
+
+// Tracks the content width of an element so viewers can compute fit-to-width scales.
+export const useElementWidth = (ref: RefObject<HTMLElement>): number => {
+    const [width, setWidth] = useState(0);
+
+    useEffect(() => {
+        const element = ref.current;
+        if (!element) return;
+
+        setWidth(element.clientWidth);
+        const observer = new ResizeObserver((entries) => {
+            setWidth(entries[0].contentRect.width);
+        });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [ref]);
+
+    return width;
+};
@@ -0,0 +1,30 @@
+// src/hooks/useLiveUpdates.ts
+
+import { useEffect, useRef, useState } from 'react';
+import { subscribeToQueueEvents, LiveStatus, QueueEvent } from '../lib/liveUpdates';
+
+// Keeps one queue events subscription open per token. Handlers are read through refs so
+// re-renders do not reconnect the stream.
+export const useLiveUpdates = (
+    token: string | null,
+    onEvent: (event: QueueEvent) => void,
+    poll: () => void
+): LiveStatus => {
+    const [status, setStatus] = useState<LiveStatus>('connecting');
+    const onEventRef = useRef(onEvent);
+    const pollRef = useRef(poll);
+    onEventRef.current = onEvent;
+    pollRef.current = poll;
+
+    useEffect(() => {
+        if (!token) return;
+        return subscribeToQueueEvents({
+            token,
+            onEvent: (event) => onEventRef.current(event),
+            onStatusChange: setStatus,
+            poll: () => pollRef.current()
+        });
+    }, [token]);
+
+    return status;
+};
@@ -0,0 +1,15 @@
+// src/hooks/useNow.ts
+
+import { useEffect, useState } from 'react';
+
+// Current time, refreshed every `intervalMs` so relative ages re-render without a refetch.
+export const useNow = (intervalMs = 60 * 1000): number => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+        return () => window.clearInterval(timer);
+    }, [intervalMs]);
+
+    return now;
+};
@@ -0,0 +1,31 @@
+// src/hooks/useShortcuts.ts
+
+import { useEffect, useRef } from 'react';
+import { Shortcut, isTypingTarget } from '../lib/shortcuts';
+
+// Listens for `shortcuts` on the window while `enabled`. Handlers are read at key time, so
+// they can close over the latest render without re-subscribing.
+export const useShortcuts = <A extends string>(shortcuts: Shortcut<A>[], handlers: Partial<Record<A, () => void>>, enabled: boolean): void => {
+    const handlersRef = useRef(handlers);
+    handlersRef.current = handlers;
+
+    useEffect(() => {
+        if (!enabled) return;
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+            if (isTypingTarget(event.target)) {
+                // Escape leaves the field, so the next key press is a shortcut again.
+                if (event.key === 'Escape') (event.target as HTMLElement).blur();
+                return;
+            }
+            const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+            const shortcut = shortcuts.find((candidate) => candidate.keys.includes(key));
+            const handler = shortcut && handlersRef.current[shortcut.action];
+            if (!handler) return;
+            event.preventDefault();
+            handler();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [shortcuts, enabled]);
+};
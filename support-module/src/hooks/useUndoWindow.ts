@@ -0,0 +1,78 @@
+// src/hooks/useUndoWindow.ts
+
+import { useEffect, useRef, useState } from 'react';
+import { useNotifications } from '../context/NotificationContext';
+
+export const UNDO_WINDOW_MS = 6000;
+
+export interface UndoableAction {
+    // Identifies what the action is about (e.g. the merchant id) so callers can tell it is pending.
+    key: string;
+    // Shown on the toast next to the Undo button.
+    message: string;
+    commit: () => Promise<void> | void;
+    onUndo: () => void;
+}
+
+interface PendingAction {
+    timer: number;
+    toastId: number;
+    commit: UndoableAction['commit'];
+}
+
+// Holds actions back for UNDO_WINDOW_MS behind a toast with an Undo button, then commits them.
+// Actions still waiting when the component unmounts are committed straight away, and closing the
+// tab while one waits asks the browser to confirm.
+export const useUndoWindow = (): { schedule: (action: UndoableAction) => void; pendingKeys: string[] } => {
+    const { notify, dismiss } = useNotifications();
+    const pending = useRef(new Map<string, PendingAction>());
+    const [pendingKeys, setPendingKeys] = useState<string[]>([]);
+
+    const take = (key: string): PendingAction | undefined => {
+        const action = pending.current.get(key);
+        if (!action) return undefined;
+        window.clearTimeout(action.timer);
+        pending.current.delete(key);
+        setPendingKeys(Array.from(pending.current.keys()));
+        return action;
+    };
+
+    const commit = (key: string) => {
+        const action = take(key);
+        if (!action) return;
+        dismiss(action.toastId);
+        action.commit();
+    };
+
+    const schedule = (action: UndoableAction) => {
+        // An earlier action on the same key is sent before the new one is held back.
+        commit(action.key);
+        const toastId = notify(action.message, {
+            kind: 'info',
+            durationMs: UNDO_WINDOW_MS,
+            action: {
+                label: 'Undo',
+                onClick: () => {
+                    if (take(action.key)) action.onUndo();
+                }
+            }
+        });
+        pending.current.set(action.key, { timer: window.setTimeout(() => commit(action.key), UNDO_WINDOW_MS), toastId, commit: action.commit });
+        setPendingKeys(Array.from(pending.current.keys()));
+    };
+
+    useEffect(() => {
+        const onBeforeUnload = (event: BeforeUnloadEvent) => {
+            if (pending.current.size === 0) return;
+            event.preventDefault();
+            event.returnValue = '';
+        };
+        window.addEventListener('beforeunload', onBeforeUnload);
+        return () => {
+            window.removeEventListener('beforeunload', onBeforeUnload);
+            Array.from(pending.current.keys()).forEach(commit);
+        };
+    }, []);
+
+    return { schedule, pendingKeys };
+};
@@ -0,0 +1,57 @@
+// src/lib/analytics.ts
+
+import { AnalyticsQuery, AnalyticsReport, FunnelStage } from './supportApi';
+
+export const RANGE_PRESETS = [7, 30, 90];
+
+export const FUNNEL_LABELS: Record<FunnelStage, string> = {
+    submitted: 'KYC submitted',
+    support_approved: 'Support approved',
+    bank_approved: 'Bank approved'
+};
+
+// Tailwind-independent fills, since the charts are plain SVG.
+export const SERIES_COLOURS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2', '#4b5563'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// The last `days` calendar days (UTC) up to and including today.
+export const presetRange = (days: number, now = Date.now()): Required<AnalyticsQuery> => ({
+    from: toDate(now - (days - 1) * DAY_MS),
+    to: toDate(now)
+});
+
+export const datesBetween = (from: string, to: string): string[] => {
+    const dates: string[] = [];
+    for (let time = Date.parse(from); time <= Date.parse(to); time += DAY_MS) dates.push(toDate(time));
+    return dates;
+};
+
+export interface ReviewerSeries {
+    dates: string[];
+    series: Array<{ id: string; name: string; values: number[] }>;
+}
+
+// Pivots the per-reviewer-per-day counts into one value per day for every reviewer, busiest first.
+export const reviewerSeries = (report: AnalyticsReport): ReviewerSeries => {
+    const dates = datesBetween(report.from, report.to);
+    const index = new Map(dates.map((date, position) => [date, position]));
+    const byReviewer = new Map<string, { id: string; name: string; values: number[] }>();
+    for (const entry of report.decisionsByReviewer) {
+        if (!byReviewer.has(entry.reviewerId)) {
+            byReviewer.set(entry.reviewerId, { id: entry.reviewerId, name: entry.reviewerName, values: dates.map(() => 0) });
+        }
+        const position = index.get(entry.date);
+        if (position !== undefined) byReviewer.get(entry.reviewerId)!.values[position] += entry.count;
+    }
+    const total = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+    return { dates, series: [...byReviewer.values()].sort((a, b) => total(b.values) - total(a.values)) };
+};
+
+export const percent = (part: number, total: number): string => (total > 0 ? `${Math.round((part / total) * 100)}%` : '–');
+
+export const formatHours = (hours: number | null): string => {
+    if (hours === null) return '–';
+    return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} days`;
+};
@@ -0,0 +1,46 @@
+// src/lib/authFetch.ts
+// Fetch for authenticated API calls. A 401 triggers one token refresh, shared by every call that
+// hits it at the same time, and the request is retried with the new token. When the session
+// cannot be renewed the auth context is told, so it can log out and send the user to login.
+
+export interface SessionHandlers {
+    // Resolves with a new access token, or null when the session cannot be renewed.
+    refresh: () => Promise<string | null>;
+    onSessionExpired: () => void;
+}
+
+let handlers: SessionHandlers | null = null;
+let refreshing: Promise<string | null> | null = null;
+
+// Registered by the auth provider while it is mounted.
+export const setSessionHandlers = (next: SessionHandlers | null): void => {
+    handlers = next;
+};
+
+export const refreshAccessToken = (): Promise<string | null> => {
+    if (!handlers) return Promise.resolve(null);
+    if (!refreshing) {
+        refreshing = handlers.refresh()
+            .catch(() => null)
+            .finally(() => {
+                refreshing = null;
+            });
+    }
+    return refreshing;
+};
+
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    const response = await fetch(input, init);
+    if (response.status !== 401 || !new Headers(init.headers).has('Authorization')) return response;
+
+    const token = await refreshAccessToken();
+    if (!token) {
+        handlers?.onSessionExpired();
+        return response;
+    }
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${token}`);
+    const retried = await fetch(input, { ...init, headers });
+    if (retried.status === 401) handlers?.onSessionExpired();
+    return retried;
+};
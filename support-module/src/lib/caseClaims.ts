@@ -0,0 +1,16 @@
+// src/lib/caseClaims.ts
+
+import { SupportUser } from '../context/SupportAuthContext';
+import { KYCClaim } from './supportApi';
+
+// How often an open review renews its claim; well inside the backend's lock expiry.
+export const CLAIM_RENEW_INTERVAL_MS = 5 * 60 * 1000;
+
+export const isClaimActive = (claim: KYCClaim | null | undefined, now = Date.now()): claim is KYCClaim =>
+    Boolean(claim && Date.parse(claim.expires_at) > now);
+
+export const isClaimedByOther = (claim: KYCClaim | null | undefined, user: SupportUser | null): boolean =>
+    isClaimActive(claim) && claim.claimed_by !== user?.id;
+
+export const formatClaimExpiry = (claim: KYCClaim): string =>
+    new Date(claim.expires_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,26 @@
+// src/lib/documentVerdicts.ts
+
+import { PendingKYC, DocumentVerdict, KYCDecision } from './supportApi';
+
+export type DocumentVerdictMap = Record<string, DocumentVerdict>;
+
+// Overall KYC decision implied by the per-document verdicts: any rejected document
+// rejects the KYC, otherwise any re-upload request sends it back to the merchant,
+// and only a fully accepted set approves. Null while documents are still unmarked.
+export const deriveDecision = (documents: PendingKYC['merchant_documents'], verdicts: DocumentVerdictMap): KYCDecision | null => {
+    const marked = documents.map((doc) => verdicts[doc.id]).filter((v): v is DocumentVerdict => Boolean(v));
+    if (marked.some((v) => v.verdict === 'rejected')) return 'reject';
+    if (marked.some((v) => v.verdict === 'reupload')) return 'request_reupload';
+    if (documents.length > 0 && marked.length === documents.length) return 'approve';
+    return null;
+};
+
+// Rejections and re-upload requests must tell the merchant what was wrong.
+export const missingReasons = (verdicts: DocumentVerdictMap): DocumentVerdict[] =>
+    Object.values(verdicts).filter((v) => v.verdict !== 'accepted' && !v.reason?.trim());
+
+export const DOCUMENT_VERDICT_LABELS: Record<DocumentVerdict['verdict'], string> = {
+    accepted: 'Accepted',
+    rejected: 'Rejected',
+    reupload: 'Re-upload needed'
+};
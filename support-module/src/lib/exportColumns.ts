@@ -0,0 +1,49 @@
+// src/lib/exportColumns.ts
+
+import { PendingKYC, DecisionLogEntry, UnmaskedIdentity } from './supportApi';
+import { ExportColumn, maskTail } from './dataExport';
+import { formatAadhaar } from './identityValidation';
+import { slaStartedAt, slaStatus, SLA_STYLES } from './sla';
+import { formatDocumentType } from '../components/DocumentViewer';
+
+const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
+// A queue row ready for export. `identity` is only set for unmasked exports, from the audited
+// getUnmaskedIdentities call; without it sensitive columns stay masked.
+export type QueueExportRow = PendingKYC & { identity?: UnmaskedIdentity };
+
+export const QUEUE_COLUMNS: ExportColumn<QueueExportRow>[] = [
+    { id: 'merchant_id', label: 'Merchant ID', value: (kyc) => kyc.id, selected: true },
+    { id: 'business_name', label: 'Business name', value: (kyc) => kyc.business_name, selected: true },
+    { id: 'full_name', label: 'Merchant name', value: (kyc) => kyc.full_name, selected: true },
+    { id: 'email', label: 'Email', value: (kyc) => kyc.email, selected: true },
+    { id: 'mobile_number', label: 'Mobile', value: (kyc, masked) => (masked || !kyc.identity ? maskTail(kyc.mobile_number) : kyc.identity.mobile_number), sensitive: true },
+    { id: 'pan_number', label: 'PAN', value: (kyc, masked) => (masked || !kyc.identity ? maskTail(kyc.pan_number) : kyc.identity.pan_number), sensitive: true },
+    { id: 'aadhaar_number', label: 'Aadhaar', value: (kyc, masked) => (masked || !kyc.identity ? kyc.aadhaar_masked : formatAadhaar(kyc.identity.aadhaar_number)), sensitive: true },
+    { id: 'business_type', label: 'Business type', value: (kyc) => kyc.business_type || '' },
+    { id: 'business_address', label: 'Business address', value: (kyc) => kyc.business_address || '' },
+    { id: 'pincode', label: 'Pincode', value: (kyc) => kyc.pincode || '' },
+    { id: 'kyc_status', label: 'KYC status', value: (kyc) => kyc.merchant_kyc?.kyc_status || '', selected: true },
+    { id: 'video_kyc', label: 'Video KYC', value: (kyc) => yesNo(Boolean(kyc.merchant_kyc?.video_kyc_completed)) },
+    { id: 'location_captured', label: 'Location captured', value: (kyc) => yesNo(Boolean(kyc.merchant_kyc?.location_captured)) },
+    { id: 'documents', label: 'Documents', value: (kyc) => (kyc.merchant_documents || []).map((doc) => formatDocumentType(doc.document_type)).join('; ') },
+    { id: 'submitted_at', label: 'Submitted at', value: (kyc) => kyc.merchant_kyc?.submitted_at || '', selected: true },
+    { id: 'created_at', label: 'Signed up at', value: (kyc) => kyc.created_at },
+    { id: 'age_hours', label: 'Age (hours)', value: (kyc) => Math.round((Date.now() - Date.parse(slaStartedAt(kyc))) / 36e5), selected: true },
+    { id: 'sla', label: 'SLA', value: (kyc) => SLA_STYLES[slaStatus(slaStartedAt(kyc))].label, selected: true },
+    { id: 'claimed_by', label: 'Claimed by', value: (kyc) => kyc.claim?.claimed_by_name || '' }
+];
+
+export const DECISION_COLUMNS: ExportColumn<DecisionLogEntry>[] = [
+    { id: 'review_id', label: 'Review ID', value: (entry) => entry.id },
+    { id: 'reviewed_at', label: 'Reviewed at', value: (entry) => entry.reviewed_at, selected: true },
+    { id: 'merchant_id', label: 'Merchant ID', value: (entry) => entry.merchant_id, selected: true },
+    { id: 'business_name', label: 'Business name', value: (entry) => entry.business_name, selected: true },
+    { id: 'full_name', label: 'Merchant name', value: (entry) => entry.full_name },
+    { id: 'reviewer', label: 'Reviewer', value: (entry) => entry.reviewer_name, selected: true },
+    { id: 'stage', label: 'Stage', value: (entry) => (entry.stage === 'checker' ? 'Checker' : 'Maker'), selected: true },
+    { id: 'decision', label: 'Decision', value: (entry) => entry.decision, selected: true },
+    { id: 'checker_action', label: 'Checker action', value: (entry) => entry.checker_action || '' },
+    { id: 'reason_codes', label: 'Reason codes', value: (entry) => (entry.reason_codes || []).join('; '), selected: true },
+    { id: 'notes', label: 'Notes', value: (entry) => entry.review_notes }
+];
@@ -0,0 +1,97 @@
+// src/lib/geoVerification.ts
+
+import { PINCODE_CENTROIDS, REGION_CENTROIDS, LatLng } from '../data/pincodeCentroids';
+import { LocationVerificationOutcome } from './supportApi';
+
+export type LocationVerificationStatus = LocationVerificationOutcome['status'];
+
+export interface LocationVerification extends LocationVerificationOutcome {
+    message: string;
+    referencePrecision: 'pincode' | 'region' | null;
+}
+
+interface CapturedLocation {
+    location_captured: boolean;
+    latitude: number;
+    longitude: number;
+}
+
+// Generous bounding box around India, including the island territories.
+const INDIA_BOUNDS = { minLat: 6, maxLat: 37.5, minLng: 68, maxLng: 97.5 };
+
+const EARTH_RADIUS_KM = 6371;
+
+// Allowed distance between the captured point and the pincode centroid. Region
+// centroids are hundreds of km from parts of their region, so they get their own limit.
+export const LOCATION_RADIUS_KM = Number(import.meta.env.VITE_LOCATION_RADIUS_KM) || 10;
+export const REGION_RADIUS_KM = Number(import.meta.env.VITE_LOCATION_REGION_RADIUS_KM) || 300;
+
+export const haversineKm = ([lat1, lng1]: LatLng, [lat2, lng2]: LatLng): number => {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLng = toRad(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Prefers the explicit pincode field, then the last 6-digit number in the address.
+export const extractPincode = (pincode?: string | null, address?: string | null): string | null => {
+    const candidate = (pincode || '').trim();
+    if (/^[1-9]\d{5}$/.test(candidate)) return candidate;
+    const matches = (address || '').match(/\b[1-9]\d{2}\s?\d{3}\b/g);
+    return matches ? matches[matches.length - 1].replace(/\s/g, '') : null;
+};
+
+const lookupCentroid = (pincode: string): { point: LatLng; precision: 'pincode' | 'region' } | null => {
+    if (PINCODE_CENTROIDS[pincode]) return { point: PINCODE_CENTROIDS[pincode], precision: 'pincode' };
+    const region = REGION_CENTROIDS[pincode.slice(0, 2)];
+    return region ? { point: region, precision: 'region' } : null;
+};
+
+export const verifyLocation = (
+    kyc: CapturedLocation | null | undefined,
+    declared: { pincode?: string | null; business_address?: string | null },
+    radiusKm: number = LOCATION_RADIUS_KM
+): LocationVerification => {
+    const base = { distanceKm: null, radiusKm, referencePincode: null, referencePrecision: null } as const;
+
+    if (!kyc?.location_captured || kyc.latitude == null || kyc.longitude == null) {
+        return { ...base, status: 'missing', message: 'No location was captured during onboarding' };
+    }
+
+    const { latitude, longitude } = kyc;
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || (latitude === 0 && longitude === 0)) {
+        return { ...base, status: 'implausible', message: 'Captured coordinates are 0,0 — the device most likely failed to get a fix' };
+    }
+    if (latitude < INDIA_BOUNDS.minLat || latitude > INDIA_BOUNDS.maxLat || longitude < INDIA_BOUNDS.minLng || longitude > INDIA_BOUNDS.maxLng) {
+        return { ...base, status: 'implausible', message: 'Captured coordinates are outside India' };
+    }
+
+    const pincode = extractPincode(declared.pincode, declared.business_address);
+    const centroid = pincode ? lookupCentroid(pincode) : null;
+    if (!pincode || !centroid) {
+        return {
+            ...base,
+            referencePincode: pincode,
+            status: 'unverifiable',
+            message: pincode ? `No reference location for pincode ${pincode}` : 'No pincode found in the declared business address'
+        };
+    }
+
+    const limitKm = centroid.precision === 'pincode' ? radiusKm : Math.max(radiusKm, REGION_RADIUS_KM);
+    const distanceKm = Math.round(haversineKm([latitude, longitude], centroid.point) * 10) / 10;
+    const result = { distanceKm, radiusKm: limitKm, referencePincode: pincode, referencePrecision: centroid.precision };
+
+    if (distanceKm > limitKm) {
+        return { ...result, status: 'out_of_radius', message: `Captured ${distanceKm} km from pincode ${pincode}, beyond the ${limitKm} km limit` };
+    }
+    return { ...result, status: 'verified', message: `Captured ${distanceKm} km from pincode ${pincode}` };
+};
+
+// The subset of a verification that is persisted with the review.
+export const toVerificationOutcome = ({ status, distanceKm, radiusKm, referencePincode }: LocationVerification): LocationVerificationOutcome => ({
+    status,
+    distanceKm,
+    radiusKm,
+    referencePincode
+});
@@ -0,0 +1,105 @@
+// src/lib/identityValidation.ts
+
+import { AadhaarChecks } from './supportApi';
+
+export interface ValidationCheck {
+    label: string;
+    passed: boolean | null; // null when the check does not apply
+    detail: string;
+}
+
+export interface ValidationResult {
+    valid: boolean;
+    checks: ValidationCheck[];
+}
+
+// 4th character of a PAN identifies the holder's entity type.
+const PAN_ENTITY_TYPES: Record<string, string> = {
+    P: 'Individual',
+    C: 'Company',
+    H: 'Hindu Undivided Family',
+    F: 'Firm / LLP',
+    A: 'Association of Persons',
+    T: 'Trust',
+    B: 'Body of Individuals',
+    L: 'Local Authority',
+    J: 'Artificial Juridical Person',
+    G: 'Government'
+};
+
+// Entity types a merchant's declared business type can legitimately hold a PAN as.
+const BUSINESS_TYPE_ENTITIES: Record<string, string[]> = {
+    individual: ['P'],
+    proprietorship: ['P'],
+    sole_proprietorship: ['P'],
+    partnership: ['F'],
+    llp: ['F'],
+    private_limited: ['C'],
+    public_limited: ['C'],
+    company: ['C'],
+    huf: ['H'],
+    trust: ['T'],
+    society: ['A', 'T'],
+    aop: ['A']
+};
+
+const PAN_PATTERN = /^[A-Z]{3}[ABCFGHLJPT][A-Z]\d{4}[A-Z]$/;
+
+export const validatePan = (pan: string | null | undefined, businessType?: string | null): ValidationResult => {
+    const value = (pan || '').trim().toUpperCase();
+    const structureOk = PAN_PATTERN.test(value);
+    const checks: ValidationCheck[] = [
+        {
+            label: 'Format',
+            passed: structureOk,
+            detail: structureOk ? '5 letters, 4 digits, 1 letter' : 'Expected 5 letters, 4 digits and a letter (e.g. ABCPK1234F)'
+        }
+    ];
+
+    const entityCode = value.charAt(3);
+    const entity = PAN_ENTITY_TYPES[entityCode];
+    const normalizedType = (businessType || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+    const allowed = BUSINESS_TYPE_ENTITIES[normalizedType];
+
+    if (!structureOk || !entity) {
+        checks.push({ label: 'Entity type', passed: null, detail: 'Not checked: PAN format is invalid' });
+    } else if (!allowed) {
+        checks.push({ label: 'Entity type', passed: null, detail: `${entity} PAN; business type ${businessType ? `"${businessType}" is not recognised` : 'not declared'}` });
+    } else {
+        const matches = allowed.includes(entityCode);
+        checks.push({
+            label: 'Entity type',
+            passed: matches,
+            detail: matches
+                ? `${entity} PAN matches ${normalizedType.replace(/_/g, ' ')}`
+                : `${entity} PAN does not match declared business type ${normalizedType.replace(/_/g, ' ')}`
+        });
+    }
+
+    return { valid: checks.every((c) => c.passed !== false), checks };
+};
+
+export const normalizeAadhaar = (aadhaar: string | null | undefined): string => (aadhaar || '').replace(/[\s-]/g, '');
+
+// The backend checks the full number, which the portal does not hold until it is revealed.
+export const describeAadhaarChecks = (result: AadhaarChecks): ValidationResult => {
+    const checks: ValidationCheck[] = [
+        {
+            label: 'Format',
+            passed: result.format,
+            detail: result.format ? '12 digits, not starting with 0 or 1' : 'Expected 12 digits not starting with 0 or 1'
+        },
+        result.checksum === null
+            ? { label: 'Checksum', passed: null, detail: 'Not checked: Aadhaar format is invalid' }
+            : {
+                label: 'Checksum',
+                passed: result.checksum,
+                detail: result.checksum ? 'Verhoeff check digit is correct' : 'Verhoeff check digit does not match — likely a typo'
+            }
+    ];
+
+    return { valid: checks.every((c) => c.passed !== false), checks };
+};
+
+export const formatAadhaar = (aadhaar: string | null | undefined): string =>
+    normalizeAadhaar(aadhaar).replace(/(\d{4})(?=\d)/g, '$1 ');
@@ -0,0 +1,102 @@
+// src/lib/kycTimeline.ts
+
+import { KYCStatusDetail, KYCReviewRecord, BankDecisionRecord } from './supportApi';
+
+export type TimelineEventKind =
+    | 'created'
+    | 'document_uploaded'
+    | 'video_kyc'
+    | 'location_captured'
+    | 'submitted'
+    | 'question_asked'
+    | 'question_answered'
+    | 'review'
+    | 'bank_decision';
+
+export interface TimelineEvent {
+    id: string;
+    kind: TimelineEventKind;
+    at: string;
+    title: string;
+    actor?: string;
+    detail?: string;
+    reasonCodes?: string[];
+    // Set on review and bank decisions so the page can highlight rejections.
+    outcome?: 'approve' | 'reject' | 'other';
+}
+
+const REVIEW_TITLES: Record<string, string> = {
+    approve: 'KYC approved',
+    reject: 'KYC rejected',
+    request_reupload: 'Document re-upload requested',
+    needs_info: 'Sent back to merchant'
+};
+
+const reviewEvent = (review: KYCReviewRecord): TimelineEvent => {
+    const base = REVIEW_TITLES[review.decision] || review.decision;
+    const title = review.stage === 'checker'
+        ? `${base} (${review.checker_action === 'overturn' ? 'overturned' : 'confirmed'} by checker)`
+        : review.decision === 'approve' || review.decision === 'reject'
+            ? `${base} by maker`
+            : base;
+    return {
+        id: review.id,
+        kind: 'review',
+        at: review.reviewed_at,
+        title,
+        actor: review.reviewer_name,
+        detail: review.review_notes || undefined,
+        reasonCodes: review.reason_codes,
+        outcome: review.decision === 'approve' || review.decision === 'reject' ? review.decision : 'other'
+    };
+};
+
+const bankEvent = (decision: BankDecisionRecord): TimelineEvent => ({
+    id: decision.id,
+    kind: 'bank_decision',
+    at: decision.decided_at,
+    title: decision.decision === 'approve' ? 'Bank approved' : 'Bank rejected',
+    actor: `${decision.decided_by} (${decision.bank_staff_id})`,
+    detail: decision.notes || undefined,
+    reasonCodes: decision.reason_codes,
+    outcome: decision.decision
+});
+
+// Everything that happened to a merchant's KYC, oldest first.
+export const buildTimeline = (detail: KYCStatusDetail): TimelineEvent[] => {
+    const kyc = detail.merchant_kyc;
+    const events: TimelineEvent[] = [
+        { id: 'created', kind: 'created', at: detail.created_at, title: 'Application created' },
+        ...(detail.merchant_documents || []).map((doc): TimelineEvent => ({
+            id: doc.id,
+            kind: 'document_uploaded',
+            at: doc.uploaded_at,
+            title: `${doc.document_type.replace(/_/g, ' ').toUpperCase()} uploaded`
+        })),
+        ...(detail.info_requests || []).flatMap((request): TimelineEvent[] => [
+            { id: `${request.id}-q`, kind: 'question_asked', at: request.asked_at, title: 'Question sent to merchant', actor: request.asked_by, detail: request.question },
+            ...(request.response && request.responded_at
+                ? [{ id: `${request.id}-a`, kind: 'question_answered' as const, at: request.responded_at, title: 'Merchant answered', detail: request.response }]
+                : [])
+        ]),
+        ...(detail.kyc_reviews || []).map(reviewEvent),
+        ...(detail.bank_decisions || []).map(bankEvent)
+    ];
+    if (kyc?.video_kyc_completed_at) events.push({ id: 'video', kind: 'video_kyc', at: kyc.video_kyc_completed_at, title: 'Video KYC completed' });
+    if (kyc?.location_captured_at) events.push({ id: 'location', kind: 'location_captured', at: kyc.location_captured_at, title: 'Location captured' });
+    if (kyc?.submitted_at) events.push({ id: 'submitted', kind: 'submitted', at: kyc.submitted_at, title: 'KYC submitted for review' });
+
+    return events.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+};
+
+// Rejections that took effect. A maker decision counts through its checker record, and a
+// maker decision still awaiting verification is not a rejection yet.
+export const priorRejections = (detail: KYCStatusDetail): TimelineEvent[] => {
+    const superseded = new Set<string | undefined>(
+        (detail.kyc_reviews || []).filter((r) => r.stage === 'checker').map((r) => r.maker_review_id)
+    );
+    superseded.add(detail.pending_review?.id);
+    return buildTimeline(detail).filter((event) =>
+        event.outcome === 'reject' && !(event.kind === 'review' && superseded.has(event.id))
+    );
+};
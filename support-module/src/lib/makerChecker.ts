@@ -0,0 +1,20 @@
+// src/lib/makerChecker.ts
+
+import { SupportUser } from '../context/SupportAuthContext';
+import { KYCReviewRecord, FaceMatchChecklist } from './supportApi';
+import { deniedReason } from './permissions';
+
+// Explains why the current user cannot act as checker on this review, or null if they can.
+export const checkerBlockReason = (user: SupportUser | null, makerReview: KYCReviewRecord | null | undefined): string | null => {
+    if (!makerReview) return 'This case has no decision awaiting verification';
+    const denied = deniedReason(user, 'case:verify');
+    if (denied) return denied;
+    if (user?.id === makerReview.reviewer_id) return 'You made this decision, so a different user must verify it';
+    return null;
+};
+
+export const faceMatchFromRecord = (record: KYCReviewRecord['face_match']): FaceMatchChecklist => ({
+    samePerson: Boolean(record?.same_person),
+    livenessOk: Boolean(record?.liveness_ok),
+    imageQualityOk: Boolean(record?.image_quality_ok)
+});
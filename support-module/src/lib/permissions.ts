@@ -0,0 +1,62 @@
+// src/lib/permissions.ts
+// What each support role may do. The mock backend keeps the same table and enforces it; the
+// portal uses it to hide or disable what the signed-in user cannot do and to say why.
+
+import { SupportUser } from '../context/SupportAuthContext';
+
+export type Permission =
+    | 'queue:view'
+    | 'case:review'
+    | 'case:verify'
+    | 'case:reassign'
+    | 'identity:reveal'
+    | 'data:export'
+    | 'data:export_unmasked'
+    | 'analytics:view';
+
+const VIEWER: Permission[] = ['queue:view', 'data:export'];
+const REVIEWER: Permission[] = [...VIEWER, 'case:review', 'identity:reveal'];
+const CHECKER: Permission[] = [...REVIEWER, 'case:verify'];
+const SUPERVISOR: Permission[] = [...CHECKER, 'case:reassign', 'data:export_unmasked', 'analytics:view'];
+
+export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+    viewer: VIEWER,
+    reviewer: REVIEWER,
+    // Older accounts were created with `support` before the reviewer role had a name.
+    support: REVIEWER,
+    checker: CHECKER,
+    supervisor: SUPERVISOR,
+    // Admins hold every permission; for now that is the supervisor set.
+    admin: SUPERVISOR
+};
+
+export const ROLE_LABELS: Record<string, string> = {
+    viewer: 'Viewer',
+    reviewer: 'Reviewer',
+    support: 'Reviewer',
+    checker: 'Checker',
+    supervisor: 'Supervisor',
+    admin: 'Admin'
+};
+
+// Shown when a user lacks a permission, phrased so it makes sense next to a disabled control.
+const DENIED_REASONS: Record<Permission, string> = {
+    'queue:view': 'Your role does not have access to the KYC queue',
+    'case:review': 'Your role can view cases but not review them',
+    'case:verify': 'Only checkers can verify decisions',
+    'case:reassign': 'Only supervisors can reassign cases',
+    'identity:reveal': 'Your role cannot reveal full identity numbers',
+    'data:export': 'Your role cannot export data',
+    'data:export_unmasked': 'Only supervisors can export unmasked identity numbers',
+    'analytics:view': 'Analytics are available to supervisors only'
+};
+
+export const roleLabel = (role: string): string => ROLE_LABELS[role] || role;
+
+// Unknown roles get no permissions at all rather than falling back to a default.
+export const can = (user: SupportUser | null, permission: Permission): boolean =>
+    Boolean(user && ROLE_PERMISSIONS[user.role]?.includes(permission));
+
+// Explains why the user lacks `permission`, or null if they have it.
+export const deniedReason = (user: SupportUser | null, permission: Permission): string | null =>
+    can(user, permission) ? null : DENIED_REASONS[permission];
@@ -0,0 +1,92 @@
+// src/lib/queueFilters.ts
+
+import { QueueQuery } from './supportApi';
+
+export type YesNoFilter = '' | 'yes' | 'no';
+export type DocumentPresence = 'present' | 'missing';
+
+export interface QueueFilters {
+    videoKyc: YesNoFilter;
+    locationCaptured: YesNoFilter;
+    kycStatus: string;
+    createdFrom: string;
+    createdTo: string;
+    documents: Record<string, DocumentPresence>;
+}
+
+export const EMPTY_QUEUE_FILTERS: QueueFilters = {
+    videoKyc: '',
+    locationCaptured: '',
+    kycStatus: '',
+    createdFrom: '',
+    createdTo: '',
+    documents: {}
+};
+
+export const FILTER_DOCUMENT_TYPES = ['pan_card', 'aadhaar_front', 'aadhaar_back', 'bank_statement', 'gst_certificate', 'business_proof'];
+
+export const KYC_STATUS_OPTIONS = [
+    { value: 'pending', label: 'Pending review' },
+    { value: 'pending_verification', label: 'Pending verification' },
+    { value: 'awaiting_merchant', label: 'Awaiting merchant answer' },
+    { value: 'reupload_requested', label: 'Re-upload requested' }
+];
+
+// URL parameter names. Kept short because they end up in shared links and saved views.
+const PARAMS = {
+    videoKyc: 'video',
+    locationCaptured: 'location',
+    kycStatus: 'status',
+    createdFrom: 'from',
+    createdTo: 'to',
+    hasDocuments: 'has',
+    missingDocuments: 'missing'
+} as const;
+
+export const FILTER_PARAM_NAMES: string[] = Object.values(PARAMS);
+
+const yesNo = (value: string | null): YesNoFilter => (value === 'yes' || value === 'no' ? value : '');
+
+const list = (value: string | null): string[] => (value ? value.split(',').filter(Boolean) : []);
+
+export const filtersFromParams = (params: URLSearchParams): QueueFilters => {
+    const documents: Record<string, DocumentPresence> = {};
+    list(params.get(PARAMS.hasDocuments)).forEach((type) => { documents[type] = 'present'; });
+    list(params.get(PARAMS.missingDocuments)).forEach((type) => { documents[type] = 'missing'; });
+    return {
+        videoKyc: yesNo(params.get(PARAMS.videoKyc)),
+        locationCaptured: yesNo(params.get(PARAMS.locationCaptured)),
+        kycStatus: params.get(PARAMS.kycStatus) || '',
+        createdFrom: params.get(PARAMS.createdFrom) || '',
+        createdTo: params.get(PARAMS.createdTo) || '',
+        documents
+    };
+};
+
+const documentsWith = (filters: QueueFilters, presence: DocumentPresence): string[] =>
+    Object.keys(filters.documents).filter((type) => filters.documents[type] === presence);
+
+// URL parameter changes for `filters`; null removes a parameter.
+export const filtersToParams = (filters: QueueFilters): Record<string, string | null> => ({
+    [PARAMS.videoKyc]: filters.videoKyc || null,
+    [PARAMS.locationCaptured]: filters.locationCaptured || null,
+    [PARAMS.kycStatus]: filters.kycStatus || null,
+    [PARAMS.createdFrom]: filters.createdFrom || null,
+    [PARAMS.createdTo]: filters.createdTo || null,
+    [PARAMS.hasDocuments]: documentsWith(filters, 'present').join(',') || null,
+    [PARAMS.missingDocuments]: documentsWith(filters, 'missing').join(',') || null
+});
+
+export const toQueueQuery = (filters: QueueFilters): QueueQuery => ({
+    videoKyc: filters.videoKyc ? filters.videoKyc === 'yes' : undefined,
+    locationCaptured: filters.locationCaptured ? filters.locationCaptured === 'yes' : undefined,
+    kycStatus: filters.kycStatus || undefined,
+    createdFrom: filters.createdFrom || undefined,
+    createdTo: filters.createdTo || undefined,
+    hasDocuments: documentsWith(filters, 'present'),
+    missingDocuments: documentsWith(filters, 'missing')
+});
+
+export const countActiveFilters = (filters: QueueFilters): number =>
+    [filters.videoKyc, filters.locationCaptured, filters.kycStatus, filters.createdFrom, filters.createdTo].filter(Boolean).length
+    + Object.keys(filters.documents).length;
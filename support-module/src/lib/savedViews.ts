@@ -0,0 +1,32 @@
+// src/lib/savedViews.ts
+
+// Named queue views (queue, search, sort and filters) saved per reviewer in this browser.
+export interface SavedView {
+    id: string;
+    name: string;
+    // URL query string of the view, without the scroll position.
+    params: string;
+    createdAt: string;
+}
+
+const storageKey = (userId: string) => `support_saved_views_${userId}`;
+
+export const loadSavedViews = (userId: string): SavedView[] => {
+    try {
+        const stored = localStorage.getItem(storageKey(userId));
+        return stored ? JSON.parse(stored) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const storeSavedViews = (userId: string, views: SavedView[]): void => {
+    localStorage.setItem(storageKey(userId), JSON.stringify(views));
+};
+
+export const viewParams = (params: URLSearchParams): string => {
+    const next = new URLSearchParams(params);
+    next.delete('page');
+    next.sort();
+    return next.toString();
+};
@@ -0,0 +1,31 @@
+// src/lib/shortcuts.ts
+
+export interface Shortcut<A extends string> {
+    action: A;
+    // KeyboardEvent.key values; letters are matched case-insensitively.
+    keys: string[];
+    description: string;
+}
+
+export type ReviewAction = 'approve' | 'reject' | 'notes' | 'next' | 'previous' | 'document' | 'openDocument' | 'back' | 'help';
+
+export const REVIEW_SHORTCUTS: Shortcut<ReviewAction>[] = [
+    { action: 'approve', keys: ['a'], description: 'Approve the case (maker review)' },
+    { action: 'reject', keys: ['r'], description: 'Reject the case (needs a reason)' },
+    { action: 'notes', keys: ['n'], description: 'Focus the notes box' },
+    { action: 'next', keys: ['j'], description: 'Next case in the queue' },
+    { action: 'previous', keys: ['k'], description: 'Previous case in the queue' },
+    { action: 'document', keys: ['d'], description: 'Show the next document' },
+    { action: 'openDocument', keys: ['o'], description: 'Open the document in a new tab' },
+    { action: 'back', keys: ['Escape'], description: 'Leave the text box, or go back to the queue' },
+    { action: 'help', keys: ['?'], description: 'Show or hide these shortcuts' }
+];
+
+// Letter shortcuts must not fire while someone is typing notes or a search.
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+    return target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit'].includes(target.type);
+};
+
+export const formatKey = (key: string): string => (key === 'Escape' ? 'Esc' : key.length === 1 ? key.toUpperCase() : key);
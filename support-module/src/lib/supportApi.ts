@@ -1,5 +1,7 @@
 ﻿
 // src/lib/supportApi.ts
+import { authFetch } from './authFetch';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api/support';
 
 export const getDocumentUrl = (filePath: string): string => {
@@ -33,6 +35,8 @@ export interface SupportLoginResponse {
     success: boolean;
     message: string;
     token: string;
+    // Single-use; exchanged for a new pair by refreshSession.
+    refreshToken: string;
     user: {
         id: string;
         email: string;
@@ -41,14 +45,49 @@ export interface SupportLoginResponse {
     };
 }
 
+// Returned by login instead of a session when the account has two-factor authentication on.
+export interface MfaChallenge {
+    success: boolean;
+    message: string;
+    mfaRequired: true;
+    // Single-use; exchanged for a session by verifyMfaCode.
+    mfaToken: string;
+    expiresAt: string;
+}
+
+export interface MfaStatus {
+    enabled: boolean;
+    backupCodesRemaining: number;
+}
+
+export interface MfaEnrolment {
+    // Base32, for typing into an authenticator app that cannot scan.
+    secret: string;
+    otpauthUrl: string;
+}
+
+export const isMfaChallenge = (response: SupportLoginResponse | MfaChallenge): response is MfaChallenge =>
+    'mfaRequired' in response && response.mfaRequired === true;
+
+// Results of the server's Aadhaar checks; checksum is null when the format is already wrong.
+export interface AadhaarChecks {
+    format: boolean;
+    checksum: boolean | null;
+}
+
 export interface PendingKYC {
     id: string;
     full_name: string;
     email: string;
     mobile_number: string;
     business_name: string;
+    business_type?: string;
+    business_address?: string;
+    pincode?: string;
     pan_number: string;
-    aadhaar_number: string;
+    // Only the last four digits; revealAadhaar returns the full number.
+    aadhaar_masked: string;
+    aadhaar_checks: AadhaarChecks;
     created_at: string;
     merchant_kyc: {
         id: string;
@@ -58,19 +97,243 @@ export interface PendingKYC {
         longitude: number;
         selfie_file_path: string;
         kyc_status: string;
+        video_kyc_completed_at?: string | null;
+        location_captured_at?: string | null;
+        submitted_at?: string;
     };
     merchant_documents: Array<{
         id: string;
         document_type: string;
         file_path: string;
         uploaded_at: string;
+        verification_status?: 'pending' | 'accepted' | 'rejected' | 'reupload_requested';
+        rejection_reason?: string | null;
     }>;
+    info_requests?: KYCInfoRequest[];
+    // Maker's decision while the case waits for a checker (kyc_status 'pending_verification').
+    pending_review?: KYCReviewRecord | null;
+    // Set while a reviewer holds the case; expired claims are not returned.
+    claim?: KYCClaim | null;
+}
+
+export type QueueSortField = 'submitted_at' | 'created_at' | 'business_name' | 'full_name';
+
+// Paging, sorting and search for the queue endpoints. Omitted fields use the backend defaults
+// (page 1, 25 rows, oldest submission first).
+export interface QueueQuery {
+    page?: number;
+    pageSize?: number;
+    sortBy?: QueueSortField;
+    sortDir?: 'asc' | 'desc';
+    // Matches name, email, business name, mobile number and PAN.
+    search?: string;
+    videoKyc?: boolean;
+    locationCaptured?: boolean;
+    kycStatus?: string;
+    // Inclusive YYYY-MM-DD bounds on the merchant's created_at.
+    createdFrom?: string;
+    createdTo?: string;
+    hasDocuments?: string[];
+    missingDocuments?: string[];
+    // ISO timestamp; only KYCs submitted before it. Used to count SLA breaches.
+    submittedBefore?: string;
+}
+
+export interface PagedResult<T> {
+    data: T[];
+    total: number;
+    page: number;
+    pageSize: number;
+    hasMore: boolean;
+}
+
+const toQueryString = (query: QueueQuery | AnalyticsQuery | DecisionLogQuery): string => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+        if (Array.isArray(value)) {
+            if (value.length > 0) params.set(key, value.join(','));
+        } else if (value !== undefined && value !== '') {
+            params.set(key, String(value));
+        }
+    });
+    const qs = params.toString();
+    return qs ? `?${qs}` : '';
+};
+
+// Body of a paged list endpoint. Older servers answer with `data` alone, so the paging fields are optional.
+interface PagedResponse<T> {
+    data?: T[];
+    total?: number;
+    page?: number;
+    pageSize?: number;
+    hasMore?: boolean;
+}
+
+const toPagedResult = <T>(body: PagedResponse<T>): PagedResult<T> => {
+    const rows = Array.isArray(body.data) ? body.data : [];
+    return {
+        data: rows,
+        total: body.total ?? rows.length,
+        page: body.page ?? 1,
+        pageSize: body.pageSize ?? rows.length,
+        hasMore: Boolean(body.hasMore)
+    };
+};
+
+export interface KYCClaim {
+    merchant_id: string;
+    claimed_by: string;
+    claimed_by_name: string;
+    claimed_at: string;
+    expires_at: string;
+}
+
+export interface SupportStaffMember {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+}
+
+export interface KYCInfoRequest {
+    id: string;
+    question: string;
+    asked_by: string;
+    asked_at: string;
+    response: string | null;
+    responded_at: string | null;
+}
+
+export interface FaceMatchChecklist {
+    samePerson: boolean;
+    livenessOk: boolean;
+    imageQualityOk: boolean;
+}
+
+export interface LocationVerificationOutcome {
+    status: 'verified' | 'missing' | 'implausible' | 'out_of_radius' | 'unverifiable';
+    distanceKm: number | null;
+    radiusKm: number;
+    referencePincode: string | null;
+}
+
+export type DocumentVerdictStatus = 'accepted' | 'rejected' | 'reupload';
+
+export interface DocumentVerdict {
+    documentId: string;
+    verdict: DocumentVerdictStatus;
+    reason?: string;
 }
 
+export type KYCDecision = 'approve' | 'reject' | 'request_reupload' | 'needs_info';
+
 export interface KYCReviewPayload {
     merchantId: string;
-    decision: 'approve' | 'reject';
+    decision: KYCDecision;
     reviewNotes: string;
+    reasonCodes?: string[];
+    merchantQuestion?: string;
+    faceMatch?: FaceMatchChecklist;
+    locationVerification?: LocationVerificationOutcome;
+    documentVerdicts?: DocumentVerdict[];
+}
+
+// One stage of a review as stored by the backend. Approvals and rejections are made by a
+// maker and only take effect once a different user (the checker) confirms or overturns them.
+export interface KYCReviewRecord {
+    id: string;
+    merchant_id: string;
+    stage: 'maker' | 'checker';
+    reviewer_id: string;
+    reviewer_name: string;
+    decision: KYCDecision;
+    checker_action?: 'confirm' | 'overturn';
+    maker_review_id?: string;
+    review_notes: string;
+    reason_codes?: string[];
+    face_match?: { same_person: boolean; liveness_ok: boolean; image_quality_ok: boolean } | null;
+    location_verification?: { status: LocationVerificationOutcome['status']; distance_km: number | null; radius_km: number | null; reference_pincode: string | null } | null;
+    document_verdicts?: DocumentVerdict[];
+    reviewed_at: string;
+}
+
+// A decision taken by the partner bank after support approved the KYC.
+export interface BankDecisionRecord {
+    id: string;
+    merchant_id: string;
+    decision: 'approve' | 'reject';
+    notes: string;
+    reason_codes: string[];
+    decided_by: string;
+    bank_staff_id: string;
+    decided_at: string;
+}
+
+// One row of the decision log: a review record with the merchant's names joined in.
+export interface DecisionLogEntry extends KYCReviewRecord {
+    business_name: string;
+    full_name: string;
+}
+
+// Newest first. from/to are inclusive YYYY-MM-DD dates on reviewed_at.
+export interface DecisionLogQuery {
+    page?: number;
+    pageSize?: number;
+    from?: string;
+    to?: string;
+}
+
+// Full record behind getKYCStatus: the case plus every review round and bank decision so far.
+export interface KYCStatusDetail extends PendingKYC {
+    kyc_reviews: KYCReviewRecord[];
+    bank_decisions?: BankDecisionRecord[];
+}
+
+export interface KYCVerificationPayload {
+    merchantId: string;
+    action: 'confirm' | 'overturn';
+    checkerNotes: string;
+    reasonCodes?: string[];
+}
+
+// Inclusive YYYY-MM-DD dates (UTC). The backend defaults to the last 30 days.
+export interface AnalyticsQuery {
+    from?: string;
+    to?: string;
+}
+
+export interface ReviewerDayCount {
+    date: string;
+    reviewerId: string;
+    reviewerName: string;
+    count: number;
+}
+
+export interface RejectionReasonCount {
+    code: string;
+    source: 'support' | 'bank';
+    count: number;
+}
+
+export interface DecisionDuration {
+    // Hours from the merchant's created_at to the decision; null when nothing was decided.
+    medianHours: number | null;
+    count: number;
+}
+
+export type FunnelStage = 'submitted' | 'support_approved' | 'bank_approved';
+
+// Supervisor analytics. Support outcomes count the decisions that took effect (checker
+// verdicts and maker decisions that need no checker), keyed by KYCDecision.
+export interface AnalyticsReport {
+    from: string;
+    to: string;
+    decisionsByReviewer: ReviewerDayCount[];
+    supportOutcomes: Partial<Record<KYCDecision, number>>;
+    bankOutcomes: Partial<Record<'approve' | 'reject', number>>;
+    rejectionReasons: RejectionReasonCount[];
+    timeToDecision: { support: DecisionDuration; bank: DecisionDuration };
+    funnel: Array<{ stage: FunnelStage; count: number }>;
 }
 
 export interface KYCReviewResponse {
@@ -81,7 +344,7 @@ export interface KYCReviewResponse {
     merchantId: string;
 }
 
-export const supportLogin = async (payload: SupportLoginPayload): Promise<SupportLoginResponse> => {
+export const supportLogin = async (payload: SupportLoginPayload): Promise<SupportLoginResponse | MfaChallenge> => {
     const response = await fetch(`${API_BASE_URL}/auth/login`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -94,8 +357,26 @@ export const supportLogin = async (payload: SupportLoginPayload): Promise<Suppor
     return response.json();
 };
 
-export const getPendingKYCs = async (token: string): Promise<PendingKYC[]> => {
-    const response = await fetch(`${API_BASE_URL}/kyc/pending`, {
+// The challenge timed out or ran out of attempts, so the password has to be entered again.
+export class MfaChallengeExpiredError extends Error {}
+
+// Completes a login that returned an MfaChallenge. `code` is an authenticator code or a backup code.
+export const verifyMfaCode = async (mfaToken: string, code: string): Promise<SupportLoginResponse> => {
+    const response = await fetch(`${API_BASE_URL}/auth/mfa/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mfaToken, code })
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        const message = error.message || 'Verification failed';
+        throw response.status === 401 ? new MfaChallengeExpiredError(message) : new Error(message);
+    }
+    return response.json();
+};
+
+export const getMfaStatus = async (token: string): Promise<MfaStatus> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa`, {
         headers: {
             'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
@@ -103,14 +384,137 @@ export const getPendingKYCs = async (token: string): Promise<PendingKYC[]> => {
     });
     if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || 'Failed to fetch pending KYCs');
+        throw new Error(error.message || 'Failed to fetch two-factor status');
     }
     const data = await response.json();
-    return data.data || [];
+    return data.data;
+};
+
+// Starts enrolment. Nothing changes for the account until activateMfa confirms a code.
+export const enrollMfa = async (token: string): Promise<MfaEnrolment> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa/enroll`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to start two-factor setup');
+    }
+    const data = await response.json();
+    return data.data;
+};
+
+// Turns two-factor on and returns the backup codes, which are never shown again.
+export const activateMfa = async (token: string, code: string): Promise<string[]> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa/activate`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ code })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to turn on two-factor authentication');
+    }
+    const data = await response.json();
+    return data.data.backupCodes;
+};
+
+// Replaces every backup code; the old ones stop working.
+export const regenerateBackupCodes = async (token: string, code: string): Promise<string[]> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa/backup-codes`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ code })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to issue new backup codes');
+    }
+    const data = await response.json();
+    return data.data.backupCodes;
+};
+
+export const disableMfa = async (token: string, code: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/mfa/disable`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ code })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to turn off two-factor authentication');
+    }
+};
+
+// Swaps a refresh token for a new access token and refresh token.
+export const refreshSession = async (refreshToken: string): Promise<SupportLoginResponse> => {
+    const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Session refresh failed');
+    }
+    return response.json();
+};
+
+// Revokes the refresh token on logout so it cannot be used again.
+export const revokeSession = async (refreshToken: string): Promise<void> => {
+    await fetch(`${API_BASE_URL}/auth/logout`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+    });
+};
+
+export const getPendingKYCs = async (token: string, query: QueueQuery = {}): Promise<PagedResult<PendingKYC>> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/pending${toQueryString(query)}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to fetch pending KYCs');
+    }
+    const data: PagedResponse<PendingKYC> = await response.json();
+    return toPagedResult(data);
+};
+
+// Cases parked with the merchant: a question was sent or documents must be re-uploaded.
+// They return to getPendingKYCs once the merchant responds.
+export const getAwaitingMerchantKYCs = async (token: string, query: QueueQuery = {}): Promise<PagedResult<PendingKYC>> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/awaiting-merchant${toQueryString(query)}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to fetch KYCs awaiting merchant');
+    }
+    const data: PagedResponse<PendingKYC> = await response.json();
+    return toPagedResult(data);
 };
 
 export const reviewKYC = async (token: string, payload: KYCReviewPayload): Promise<KYCReviewResponse> => {
-    const response = await fetch(`${API_BASE_URL}/kyc/review`, {
+    const response = await authFetch(`${API_BASE_URL}/kyc/review`, {
         method: 'POST',
         headers: {
             'Authorization': `Bearer ${token}`,
@@ -125,15 +529,189 @@ export const reviewKYC = async (token: string, payload: KYCReviewPayload): Promi
     return response.json();
 };
 
-export const getKYCStatus = async (token: string, merchantId: string): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/kyc/status/${merchantId}`, {
+export const getPendingVerificationKYCs = async (token: string, query: QueueQuery = {}): Promise<PagedResult<PendingKYC>> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/pending-verification${toQueryString(query)}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to fetch KYCs pending verification');
+    }
+    const data: PagedResponse<PendingKYC> = await response.json();
+    return toPagedResult(data);
+};
+
+export const verifyKYCDecision = async (token: string, payload: KYCVerificationPayload): Promise<KYCReviewResponse> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/verify`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(payload)
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Verification failed');
+    }
+    return response.json();
+};
+
+// EventSource cannot send headers, so the live updates stream takes the token as a query parameter.
+export const getQueueEventsUrl = (token: string): string => `${API_BASE_URL}/events?access_token=${encodeURIComponent(token)}`;
+
+// Locks the case to the current user (or renews their lock). A claim is required before reviewKYC.
+export const claimKYC = async (token: string, merchantId: string): Promise<KYCClaim> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/claim`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ merchantId })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to claim case');
+    }
+    const data = await response.json();
+    return data.data;
+};
+
+export const releaseKYC = async (token: string, merchantId: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/release`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ merchantId })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to release case');
+    }
+};
+
+export const reassignKYC = async (token: string, merchantId: string, assigneeId: string): Promise<KYCClaim> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/reassign`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ merchantId, assigneeId })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to reassign case');
+    }
+    const data = await response.json();
+    return data.data;
+};
+
+export const getSupportStaff = async (token: string): Promise<SupportStaffMember[]> => {
+    const response = await authFetch(`${API_BASE_URL}/staff`, {
         headers: {
             'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
         }
     });
     if (!response.ok) {
-        throw new Error('Failed to fetch KYC status');
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to fetch staff');
+    }
+    const data = await response.json();
+    return data.data || [];
+};
+
+export const getKYCStatus = async (token: string, merchantId: string): Promise<KYCStatusDetail> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/status/${merchantId}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to fetch KYC status');
+    }
+    const data = await response.json();
+    return data.data;
+};
+
+export const getDecisionLog = async (token: string, query: DecisionLogQuery = {}): Promise<PagedResult<DecisionLogEntry>> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/decisions${toQueryString(query)}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to fetch decision log');
+    }
+    const data: PagedResponse<DecisionLogEntry> = await response.json();
+    return toPagedResult(data);
+};
+
+export const getAnalytics = async (token: string, query: AnalyticsQuery = {}): Promise<AnalyticsReport> => {
+    const response = await authFetch(`${API_BASE_URL}/analytics${toQueryString(query)}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        }
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to fetch analytics');
+    }
+    return response.json();
+};
+
+// Returns the merchant's full Aadhaar number. The backend records the reveal in the audit log first.
+export const revealAadhaar = async (token: string, merchantId: string): Promise<string> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/reveal-aadhaar`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ merchantId })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to reveal Aadhaar number');
+    }
+    const data = await response.json();
+    return data.data.aadhaarNumber;
+};
+
+// Full identity numbers of one merchant, for an unmasked export.
+export interface UnmaskedIdentity {
+    merchantId: string;
+    mobile_number: string;
+    pan_number: string;
+    aadhaar_number: string;
+}
+
+// Unmasked identity numbers for an export. The backend checks data:export_unmasked and records
+// `reason` in the audit log in the same request.
+export const getUnmaskedIdentities = async (token: string, merchantIds: string[], reason: string): Promise<UnmaskedIdentity[]> => {
+    const response = await authFetch(`${API_BASE_URL}/kyc/export-identities`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ merchantIds, reason })
+    });
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to fetch unmasked identity numbers');
     }
     const data = await response.json();
     return data.data;
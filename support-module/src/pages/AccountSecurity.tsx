@@ -0,0 +1,196 @@
+// src/pages/AccountSecurity.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useSupportAuth } from '../context/SupportAuthContext';
+import { useNotifications } from '../context/NotificationContext';
+import { getMfaStatus, enrollMfa, activateMfa, regenerateBackupCodes, disableMfa, MfaStatus, MfaEnrolment, handleApiError } from '../lib/supportApi';
+import { QrCode } from '../components/QrCode';
+import { BackupCodes } from '../components/BackupCodes';
+import { AlertCircle, ArrowLeft, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+
+// Changes to an enrolled account need a current code, so a stolen session alone cannot undo 2FA.
+type CodeAction = 'regenerate' | 'disable';
+
+const CodeInput: React.FC<{ value: string; onChange: (value: string) => void; disabled: boolean; allowBackupCode?: boolean }> = ({ value, onChange, disabled, allowBackupCode }) => (
+    <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        inputMode={allowBackupCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        maxLength={allowBackupCode ? 12 : 6}
+        placeholder={allowBackupCode ? '123456 or backup code' : '123456'}
+        className="w-56 px-4 py-2 border rounded-lg font-mono tracking-widest"
+        disabled={disabled}
+        aria-label="Authentication code"
+    />
+);
+
+export const AccountSecurity: React.FC = () => {
+    const { user, token } = useSupportAuth();
+    const { notify, confirm } = useNotifications();
+    const [status, setStatus] = useState<MfaStatus | null>(null);
+    const [enrolment, setEnrolment] = useState<MfaEnrolment | null>(null);
+    const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+    const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+    const [code, setCode] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState('');
+
+    const loadStatus = async () => {
+        if (!token) return;
+        try {
+            setStatus(await getMfaStatus(token));
+        } catch (err) {
+            setError(handleApiError(err));
+        }
+    };
+
+    useEffect(() => {
+        loadStatus();
+    }, [token]);
+
+    // Runs one request with the shared busy/error handling; the code field is cleared either way.
+    const run = async (action: (authToken: string) => Promise<void>) => {
+        try {
+            setBusy(true);
+            setError('');
+            if (!token) throw new Error('No authentication token');
+            await action(token);
+        } catch (err) {
+            setError(handleApiError(err));
+        } finally {
+            setCode('');
+            setBusy(false);
+        }
+    };
+
+    const startEnrolment = () => run(async (authToken) => {
+        setEnrolment(await enrollMfa(authToken));
+    });
+
+    const confirmEnrolment = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async (authToken) => {
+            const codes = await activateMfa(authToken, code.trim());
+            setEnrolment(null);
+            setBackupCodes(codes);
+            notify('Two-factor authentication is on');
+            await loadStatus();
+        });
+    };
+
+    const submitCodeAction = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (codeAction === 'disable') {
+            const confirmed = await confirm({
+                title: 'Turn off two-factor authentication?',
+                message: 'Signing in will only need your password, and your backup codes stop working.',
+                confirmLabel: 'Turn off',
+                tone: 'danger'
+            });
+            if (!confirmed) return;
+        }
+        run(async (authToken) => {
+            if (codeAction === 'disable') {
+                await disableMfa(authToken, code.trim());
+                notify('Two-factor authentication is off');
+            } else {
+                setBackupCodes(await regenerateBackupCodes(authToken, code.trim()));
+                notify('New backup codes issued; the old ones no longer work');
+            }
+            setCodeAction(null);
+            await loadStatus();
+        });
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="bg-white shadow sticky top-0 z-40">
+                <div className="max-w-3xl mx-auto px-6 py-4 flex items-center gap-4">
+                    <Link to="/dashboard" className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border border-gray-300">
+                        <ArrowLeft className="w-5 h-5" /> Dashboard
+                    </Link>
+                    <h1 className="text-2xl font-bold text-gray-900">Account Security</h1>
+                </div>
+            </div>
+
+            <div className="max-w-3xl mx-auto px-6 py-8 space-y-6">
+                {error && <div className="p-4 bg-red-50 border border-red-200 rounded-lg"><AlertCircle className="w-5 h-5 text-red-600 inline" /> {error}</div>}
+
+                <div className="bg-white rounded-lg shadow p-6 space-y-4">
+                    <div className="flex items-start justify-between gap-4">
+                        <div>
+                            <h2 className="text-lg font-semibold">Two-factor authentication</h2>
+                            <p className="text-sm text-gray-600">
+                                Ask for a code from an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password…) after your password.
+                            </p>
+                        </div>
+                        {status && (
+                            <span className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm shrink-0 ${status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+                                {status.enabled ? <ShieldCheck className="w-4 h-4" /> : <ShieldOff className="w-4 h-4" />}
+                                {status.enabled ? 'On' : 'Off'}
+                            </span>
+                        )}
+                    </div>
+
+                    {!status ? (
+                        <div className="flex justify-center p-6"><Loader2 className="w-8 h-8 animate-spin text-blue-600" /></div>
+                    ) : backupCodes ? (
+                        <BackupCodes codes={backupCodes} account={user?.email || ''} onDone={() => setBackupCodes(null)} />
+                    ) : enrolment ? (
+                        <form onSubmit={confirmEnrolment} className="space-y-4">
+                            <ol className="list-decimal list-inside text-sm text-gray-700 space-y-1">
+                                <li>Scan this QR code with your authenticator app.</li>
+                                <li>Enter the 6-digit code the app shows to finish.</li>
+                            </ol>
+                            <div className="flex items-center gap-6">
+                                <div className="border rounded-lg p-2">
+                                    <QrCode value={enrolment.otpauthUrl} label="QR code for your authenticator app" />
+                                </div>
+                                <div className="space-y-1 min-w-0">
+                                    <p className="text-sm text-gray-600">Can't scan? Enter this key instead:</p>
+                                    <p className="font-mono text-sm break-all select-all bg-gray-50 border rounded px-2 py-1">{enrolment.secret.replace(/(.{4})/g, '$1 ').trim()}</p>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <CodeInput value={code} onChange={setCode} disabled={busy} />
+                                <button type="submit" disabled={busy || code.trim().length !== 6} className="px-6 py-2 bg-blue-600 text-white rounded-lg disabled:opacity-50">Turn on</button>
+                                <button type="button" onClick={() => setEnrolment(null)} disabled={busy} className="px-4 py-2 border rounded-lg">Cancel</button>
+                            </div>
+                        </form>
+                    ) : status.enabled ? (
+                        <div className="space-y-4">
+                            <p className="text-sm text-gray-700">
+                                {status.backupCodesRemaining} backup {status.backupCodesRemaining === 1 ? 'code' : 'codes'} left.
+                                {status.backupCodesRemaining <= 2 && ' Issue new ones before you run out.'}
+                            </p>
+                            {codeAction ? (
+                                <form onSubmit={submitCodeAction} className="space-y-3">
+                                    <p className="text-sm text-gray-600">Enter a current code from your authenticator app or a backup code to continue.</p>
+                                    <div className="flex items-center gap-3">
+                                        <CodeInput value={code} onChange={setCode} disabled={busy} allowBackupCode />
+                                        <button type="submit" disabled={busy || !code.trim()} className={`px-6 py-2 text-white rounded-lg disabled:opacity-50 ${codeAction === 'disable' ? 'bg-red-600' : 'bg-blue-600'}`}>
+                                            {codeAction === 'disable' ? 'Turn off' : 'Issue new codes'}
+                                        </button>
+                                        <button type="button" onClick={() => setCodeAction(null)} disabled={busy} className="px-4 py-2 border rounded-lg">Cancel</button>
+                                    </div>
+                                </form>
+                            ) : (
+                                <div className="flex gap-3">
+                                    <button onClick={() => setCodeAction('regenerate')} className="px-4 py-2 border rounded-lg hover:bg-gray-100">New backup codes</button>
+                                    <button onClick={() => setCodeAction('disable')} className="px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50">Turn off</button>
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <button onClick={startEnrolment} disabled={busy} className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg disabled:opacity-50">
+                            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />} Set up two-factor authentication
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
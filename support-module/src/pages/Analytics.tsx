@@ -0,0 +1,197 @@
+// src/pages/Analytics.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useSupportAuth } from '../context/SupportAuthContext';
+import { getAnalytics, AnalyticsReport, KYCDecision, handleApiError } from '../lib/supportApi';
+import { presetRange, reviewerSeries, percent, formatHours, RANGE_PRESETS, FUNNEL_LABELS, SERIES_COLOURS } from '../lib/analytics';
+import { getReasonCode } from '../data/reasonCodes';
+import { StackedBarChart, HorizontalBarChart, ProportionBar, FunnelChart, ChartLegend, ChartSegment } from '../components/Charts';
+import { AlertCircle, ArrowLeft, Loader2 } from 'lucide-react';
+
+const DEFAULT_DAYS = 30;
+
+const SUPPORT_OUTCOMES: Array<{ decision: KYCDecision; label: string; colour: string }> = [
+    { decision: 'approve', label: 'Approved', colour: '#16a34a' },
+    { decision: 'reject', label: 'Rejected', colour: '#dc2626' },
+    { decision: 'request_reupload', label: 'Re-upload requested', colour: '#d97706' },
+    { decision: 'needs_info', label: 'Sent back to merchant', colour: '#2563eb' }
+];
+
+const SOURCE_COLOURS = { support: '#dc2626', bank: '#9333ea' };
+
+const shortDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString([], { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h3 className="font-semibold">{title}</h3>
+        {children}
+    </div>
+);
+
+const OutcomeSummary: React.FC<{ segments: ChartSegment[] }> = ({ segments }) => {
+    const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+    return (
+        <div className="space-y-2">
+            <ProportionBar segments={segments} />
+            <ChartLegend items={segments.map((segment) => ({ label: `${segment.label}: ${segment.value} (${percent(segment.value, total)})`, colour: segment.colour }))} />
+        </div>
+    );
+};
+
+export const Analytics: React.FC = () => {
+    const { token } = useSupportAuth();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [report, setReport] = useState<AnalyticsReport | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    // The range lives in the URL so a report can be shared; it defaults to the last 30 days.
+    const fallback = presetRange(DEFAULT_DAYS);
+    const from = searchParams.get('from') || fallback.from;
+    const to = searchParams.get('to') || fallback.to;
+
+    useEffect(() => {
+        if (!token) return;
+        setLoading(true);
+        setError('');
+        getAnalytics(token, { from, to })
+            .then(setReport)
+            .catch((err) => setError(handleApiError(err)))
+            .finally(() => setLoading(false));
+    }, [token, from, to]);
+
+    const setRange = (next: { from: string; to: string }) => setSearchParams(next, { replace: true });
+
+    const reviewers = report ? reviewerSeries(report) : null;
+    const supportSegments = SUPPORT_OUTCOMES.map((outcome) => ({ label: outcome.label, value: report?.supportOutcomes[outcome.decision] || 0, colour: outcome.colour }));
+    const bankSegments = [
+        { label: 'Approved', value: report?.bankOutcomes.approve || 0, colour: '#16a34a' },
+        { label: 'Rejected', value: report?.bankOutcomes.reject || 0, colour: '#dc2626' }
+    ];
+    const supportFinal = (report?.supportOutcomes.approve || 0) + (report?.supportOutcomes.reject || 0);
+    const totalReviews = report?.decisionsByReviewer.reduce((sum, entry) => sum + entry.count, 0) || 0;
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="bg-white shadow sticky top-0 z-40">
+                <div className="max-w-7xl mx-auto px-6 py-4 flex items-center gap-4">
+                    <Link to="/dashboard" className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border border-gray-300">
+                        <ArrowLeft className="w-5 h-5" /> Dashboard
+                    </Link>
+                    <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+                </div>
+            </div>
+
+            <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+                <div className="bg-white p-4 rounded-lg shadow flex flex-wrap items-center gap-3">
+                    {RANGE_PRESETS.map((days) => {
+                        const range = presetRange(days);
+                        const active = range.from === from && range.to === to;
+                        return (
+                            <button
+                                key={days}
+                                onClick={() => setRange(range)}
+                                className={`px-4 py-2 rounded-lg border ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white hover:bg-gray-100'}`}
+                            >
+                                Last {days} days
+                            </button>
+                        );
+                    })}
+                    <label className="flex items-center gap-2 ml-auto text-sm text-gray-700">
+                        From
+                        <input type="date" value={from} max={to} onChange={(e) => e.target.value && setRange({ from: e.target.value, to })} className="px-3 py-2 border rounded-lg" />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        To
+                        <input type="date" value={to} min={from} onChange={(e) => e.target.value && setRange({ from, to: e.target.value })} className="px-3 py-2 border rounded-lg" />
+                    </label>
+                </div>
+
+                {error && <div className="p-4 bg-red-50 border border-red-200 rounded-lg"><AlertCircle className="w-5 h-5 text-red-600 inline" /> {error}</div>}
+
+                {loading && !report ? (
+                    <div className="flex justify-center p-12"><Loader2 className="w-10 h-10 animate-spin text-blue-600" /></div>
+                ) : report && reviewers && (
+                    <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+                        <div className="grid grid-cols-4 gap-4">
+                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Review actions</p><p className="text-3xl font-bold">{totalReviews}</p></div>
+                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Support approval rate</p><p className="text-3xl font-bold">{percent(report.supportOutcomes.approve || 0, supportFinal)}</p></div>
+                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Median to support decision</p><p className="text-3xl font-bold">{formatHours(report.timeToDecision.support.medianHours)}</p></div>
+                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Median to bank decision</p><p className="text-3xl font-bold">{formatHours(report.timeToDecision.bank.medianHours)}</p></div>
+                        </div>
+
+                        <Section title="👥 Decisions per reviewer per day">
+                            {reviewers.series.length === 0 ? (
+                                <p className="text-sm text-gray-500">No review activity in this range.</p>
+                            ) : (
+                                <>
+                                    <StackedBarChart
+                                        labels={reviewers.dates}
+                                        formatLabel={shortDate}
+                                        series={reviewers.series.map((s, index) => ({ name: s.name, values: s.values, colour: SERIES_COLOURS[index % SERIES_COLOURS.length] }))}
+                                    />
+                                    <ChartLegend
+                                        items={reviewers.series.map((s, index) => ({
+                                            label: `${s.name}: ${s.values.reduce((sum, value) => sum + value, 0)}`,
+                                            colour: SERIES_COLOURS[index % SERIES_COLOURS.length]
+                                        }))}
+                                    />
+                                    <p className="text-xs text-gray-500">Maker decisions and checker verifications both count as review actions.</p>
+                                </>
+                            )}
+                        </Section>
+
+                        <div className="grid grid-cols-2 gap-6">
+                            <Section title="✅ Support outcomes">
+                                <OutcomeSummary segments={supportSegments} />
+                            </Section>
+                            <Section title="🏦 Bank outcomes">
+                                <OutcomeSummary segments={bankSegments} />
+                            </Section>
+                        </div>
+
+                        <Section title="🏷️ Top rejection reasons">
+                            {report.rejectionReasons.length === 0 ? (
+                                <p className="text-sm text-gray-500">No rejections in this range.</p>
+                            ) : (
+                                <>
+                                    <HorizontalBarChart
+                                        rows={report.rejectionReasons.map((reason) => ({
+                                            label: getReasonCode(reason.code).label,
+                                            value: reason.count,
+                                            colour: SOURCE_COLOURS[reason.source]
+                                        }))}
+                                    />
+                                    <ChartLegend items={[{ label: 'Support rejection', colour: SOURCE_COLOURS.support }, { label: 'Bank rejection', colour: SOURCE_COLOURS.bank }]} />
+                                </>
+                            )}
+                        </Section>
+
+                        <div className="grid grid-cols-2 gap-6">
+                            <Section title="⏱️ Time from sign-up to decision">
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="p-4 bg-gray-50 rounded-lg">
+                                        <p className="text-xs text-gray-600">Support (median)</p>
+                                        <p className="text-2xl font-bold">{formatHours(report.timeToDecision.support.medianHours)}</p>
+                                        <p className="text-xs text-gray-500">{report.timeToDecision.support.count} approvals and rejections</p>
+                                    </div>
+                                    <div className="p-4 bg-gray-50 rounded-lg">
+                                        <p className="text-xs text-gray-600">Bank (median)</p>
+                                        <p className="text-2xl font-bold">{formatHours(report.timeToDecision.bank.medianHours)}</p>
+                                        <p className="text-xs text-gray-500">{report.timeToDecision.bank.count} bank decisions</p>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-gray-500">Measured from the merchant's sign-up (created_at) to the decision.</p>
+                            </Section>
+                            <Section title="🔻 Onboarding funnel">
+                                <FunnelChart stages={report.funnel.map((stage) => ({ label: FUNNEL_LABELS[stage.stage], count: stage.count }))} />
+                                <p className="text-xs text-gray-500">Merchants who submitted KYC in this range, by the furthest stage reached so far.</p>
+                            </Section>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,123 @@
+// src/pages/MerchantHistory.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useSupportAuth } from '../context/SupportAuthContext';
+import { getKYCStatus, KYCStatusDetail, handleApiError } from '../lib/supportApi';
+import { buildTimeline, priorRejections, TimelineEvent, TimelineEventKind } from '../lib/kycTimeline';
+import { ReasonCodeBadges } from '../components/ReasonCodePicker';
+import { PriorRejectionsNotice } from '../components/PriorRejectionsNotice';
+import { AlertCircle, ArrowLeft, Building2, Camera, CheckCircle, FileText, Landmark, Loader2, MapPin, MessageCircle, Send, UserPlus, Video, XCircle } from 'lucide-react';
+
+const EVENT_ICONS: Record<TimelineEventKind, React.ComponentType<{ className?: string }>> = {
+    created: UserPlus,
+    document_uploaded: FileText,
+    video_kyc: Video,
+    location_captured: MapPin,
+    submitted: Send,
+    question_asked: MessageCircle,
+    question_answered: MessageCircle,
+    review: Camera,
+    bank_decision: Landmark
+};
+
+const eventIcon = (event: TimelineEvent) => {
+    if (event.outcome === 'approve') return CheckCircle;
+    if (event.outcome === 'reject') return XCircle;
+    return EVENT_ICONS[event.kind];
+};
+
+const eventColour = (event: TimelineEvent): string =>
+    event.outcome === 'approve'
+        ? 'bg-green-100 text-green-700'
+        : event.outcome === 'reject'
+            ? 'bg-red-100 text-red-700'
+            : event.kind === 'bank_decision' || event.kind === 'review'
+                ? 'bg-indigo-100 text-indigo-700'
+                : 'bg-gray-100 text-gray-600';
+
+export const MerchantHistory: React.FC = () => {
+    const { merchantId } = useParams<{ merchantId: string }>();
+    const { token } = useSupportAuth();
+    const [detail, setDetail] = useState<KYCStatusDetail | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!token || !merchantId) return;
+        setLoading(true);
+        setError('');
+        getKYCStatus(token, merchantId)
+            .then(setDetail)
+            .catch((err) => setError(handleApiError(err)))
+            .finally(() => setLoading(false));
+    }, [token, merchantId]);
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <Loader2 className="w-12 h-12 animate-spin text-blue-600" />
+            </div>
+        );
+    }
+
+    const timeline = detail ? buildTimeline(detail) : [];
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="bg-white shadow sticky top-0 z-40">
+                <div className="max-w-4xl mx-auto px-6 py-4 flex items-center gap-4">
+                    <Link to="/dashboard" className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border border-gray-300">
+                        <ArrowLeft className="w-5 h-5" /> Dashboard
+                    </Link>
+                    <h1 className="text-2xl font-bold text-gray-900">KYC History</h1>
+                </div>
+            </div>
+
+            <div className="max-w-4xl mx-auto px-6 py-8 space-y-6">
+                {error && <div className="p-4 bg-red-50 border border-red-200 rounded-lg"><AlertCircle className="w-5 h-5 text-red-600 inline" /> {error}</div>}
+
+                {detail && (
+                    <>
+                        <div className="bg-white rounded-lg shadow p-6 flex justify-between items-start">
+                            <div>
+                                <h2 className="text-xl font-bold flex items-center gap-2"><Building2 className="w-5 h-5" /> {detail.business_name}</h2>
+                                <p className="text-gray-600">{detail.full_name} • {detail.email} • {detail.mobile_number}</p>
+                            </div>
+                            <span className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700">
+                                {detail.merchant_kyc?.kyc_status.replace(/_/g, ' ') || 'unknown'}
+                            </span>
+                        </div>
+
+                        <PriorRejectionsNotice merchantId={detail.id} rejections={priorRejections(detail)} showHistoryLink={false} />
+
+                        <div className="bg-white rounded-lg shadow p-6">
+                            <h3 className="font-semibold mb-6">🕒 Timeline</h3>
+                            <ol className="relative border-l border-gray-200 ml-4 space-y-6">
+                                {timeline.map((event) => {
+                                    const Icon = eventIcon(event);
+                                    return (
+                                        <li key={`${event.kind}-${event.id}`} className="ml-8">
+                                            <span className={`absolute -left-4 flex items-center justify-center w-8 h-8 rounded-full ${eventColour(event)}`}>
+                                                <Icon className="w-4 h-4" />
+                                            </span>
+                                            <p className="font-medium">{event.title}</p>
+                                            <p className="text-xs text-gray-500">
+                                                {new Date(event.at).toLocaleString()}
+                                                {event.actor && ` • ${event.actor}`}
+                                            </p>
+                                            {event.detail && <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{event.detail}</p>}
+                                            {event.reasonCodes && event.reasonCodes.length > 0 && (
+                                                <div className="mt-2"><ReasonCodeBadges codes={event.reasonCodes} /></div>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ol>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,121 +1,718 @@
 
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useSupportAuth } from '../context/SupportAuthContext';
-import { getPendingKYCs, reviewKYC, PendingKYC, handleApiError, getDocumentUrl } from '../lib/supportApi';
-import { CheckCircle, XCircle, Eye, Loader2, LogOut, AlertCircle, Search, Clock, FileText, Camera, MapPin } from 'lucide-react';
+import { useNotifications } from '../context/NotificationContext';
+import { getPendingKYCs, getAwaitingMerchantKYCs, getPendingVerificationKYCs, reviewKYC, verifyKYCDecision, getKYCStatus, KYCStatusDetail, claimKYC, releaseKYC, reassignKYC, getSupportStaff, getDocumentUrl, PendingKYC, SupportStaffMember, QueueQuery, QueueSortField, FaceMatchChecklist, DocumentVerdict, KYCDecision, KYCReviewPayload, handleApiError } from '../lib/supportApi';
+import { DocumentViewer, formatDocumentType } from '../components/DocumentViewer';
+import { FaceMatchPanel, EMPTY_FACE_MATCH, isFaceMatchComplete } from '../components/FaceMatchPanel';
+import { LocationPanel } from '../components/LocationPanel';
+import { IdentityChecks } from '../components/IdentityChecks';
+import { DocumentVerdictControl } from '../components/DocumentVerdictControl';
+import { ReasonCodePicker } from '../components/ReasonCodePicker';
+import { CheckerPanel } from '../components/CheckerPanel';
+import { VirtualList } from '../components/VirtualList';
+import { QueueFilterPanel } from '../components/QueueFilterPanel';
+import { SavedViewsBar } from '../components/SavedViewsBar';
+import { PriorRejectionsNotice } from '../components/PriorRejectionsNotice';
+import { LiveStatusIndicator } from '../components/LiveStatusIndicator';
+import { ExportDialog } from '../components/ExportDialog';
+import { ShortcutHelp } from '../components/ShortcutHelp';
+import { usePagedList } from '../hooks/usePagedList';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { useNow } from '../hooks/useNow';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { useUndoWindow, UNDO_WINDOW_MS } from '../hooks/useUndoWindow';
+import { getReasonCode } from '../data/reasonCodes';
+import { filtersFromParams, filtersToParams, toQueueQuery, countActiveFilters, FILTER_PARAM_NAMES, QueueFilters } from '../lib/queueFilters';
+import { viewParams } from '../lib/savedViews';
+import { priorRejections } from '../lib/kycTimeline';
+import { QueueEvent } from '../lib/liveUpdates';
+import { can, deniedReason, roleLabel } from '../lib/permissions';
+import { REVIEW_SHORTCUTS } from '../lib/shortcuts';
+import { slaStartedAt, slaStatus, slaBreachCutoff, formatAge, SLA_HOURS, SLA_STYLES } from '../lib/sla';
+import { deriveDecision, missingReasons, DocumentVerdictMap, DOCUMENT_VERDICT_LABELS } from '../lib/documentVerdicts';
+import { verifyLocation, toVerificationOutcome } from '../lib/geoVerification';
+import { checkerBlockReason, faceMatchFromRecord } from '../lib/makerChecker';
+import { isClaimActive, isClaimedByOther, formatClaimExpiry, CLAIM_RENEW_INTERVAL_MS } from '../lib/caseClaims';
+import { CheckCircle, XCircle, Eye, Loader2, LogOut, AlertCircle, Search, Clock, FileText, Camera, MapPin, RefreshCw, Lock, SlidersHorizontal, BarChart3, Download, Keyboard, ShieldCheck } from 'lucide-react';
+
+type QueueId = 'pending' | 'pending_verification' | 'awaiting_merchant';
+
+const QUEUE_FETCHERS: Record<QueueId, (token: string, query: QueueQuery) => ReturnType<typeof getPendingKYCs>> = {
+    pending: getPendingKYCs,
+    pending_verification: getPendingVerificationKYCs,
+    awaiting_merchant: getAwaitingMerchantKYCs
+};
+
+const QUEUE_LABELS: Record<QueueId, string> = {
+    pending: 'Pending review',
+    pending_verification: 'Pending verification',
+    awaiting_merchant: 'Awaiting merchant'
+};
+
+const SORT_OPTIONS: Array<{ value: string; label: string }> = [
+    { value: 'submitted_at:asc', label: 'Oldest submission first (SLA risk)' },
+    { value: 'submitted_at:desc', label: 'Newest submission first' },
+    { value: 'business_name:asc', label: 'Business name A–Z' },
+    { value: 'full_name:asc', label: 'Merchant name A–Z' }
+];
+
+// kyc_status values that place a case in each queue, used to tell whether a pushed event adds to the open one.
+const QUEUE_STATUSES: Record<QueueId, string[]> = {
+    pending: ['pending'],
+    pending_verification: ['pending_verification'],
+    awaiting_merchant: ['awaiting_merchant', 'reupload_requested']
+};
+
+// Queues where the case is waiting on support, so its age counts against the SLA.
+const SLA_QUEUES: QueueId[] = ['pending', 'pending_verification'];
+
+// The reviewer's work on a case, kept while its decision waits out the undo window so Undo can put it back.
+interface ReviewDraft {
+    notes: string;
+    reasonCodes: string[];
+    faceMatch: FaceMatchChecklist;
+    documentVerdicts: DocumentVerdictMap;
+}
+
+const PAGE_SIZE = 25;
+const ROW_HEIGHT = 140;
 
 export const SupportDashboard: React.FC = () => {
     const navigate = useNavigate();
     const { user, token, logout } = useSupportAuth();
-    const [pendingKYCs, setPendingKYCs] = useState<PendingKYC[]>([]);
-    const [filteredKYCs, setFilteredKYCs] = useState<PendingKYC[]>([]);
-    const [loading, setLoading] = useState(true);
+    const { notify, confirm } = useNotifications();
+    // Viewers open cases read-only: they never claim one, so there is no lock to renew or hand back.
+    const reviewDenied = deniedReason(user, 'case:review');
+    const canReview = !reviewDenied;
+    const [searchParams, setSearchParams] = useSearchParams();
+    const location = useLocation();
+    const { merchantId: routeMerchantId } = useParams<{ merchantId: string }>();
+    const [queueTotals, setQueueTotals] = useState<Record<QueueId, number>>({ pending: 0, pending_verification: 0, awaiting_merchant: 0 });
     const [selectedMerchant, setSelectedMerchant] = useState<PendingKYC | null>(null);
     const [reviewing, setReviewing] = useState(false);
     const [error, setError] = useState('');
-    const [searchTerm, setSearchTerm] = useState('');
     const [reviewNotes, setReviewNotes] = useState('');
+    const [activeDocIndex, setActiveDocIndex] = useState(0);
+    const [faceMatch, setFaceMatch] = useState<FaceMatchChecklist>(EMPTY_FACE_MATCH);
+    const [documentVerdicts, setDocumentVerdicts] = useState<DocumentVerdictMap>({});
+    const [reasonCodes, setReasonCodes] = useState<string[]>([]);
+    const [merchantQuestion, setMerchantQuestion] = useState('');
+    const [staff, setStaff] = useState<SupportStaffMember[]>([]);
+    const [history, setHistory] = useState<KYCStatusDetail | null>(null);
+    const [newCount, setNewCount] = useState(0);
+    const [slaBreached, setSlaBreached] = useState(0);
+    const [showExport, setShowExport] = useState(false);
+    // Review mode moves straight on to the next case after each decision.
+    const [reviewMode, setReviewMode] = useState(false);
+    const [showShortcuts, setShowShortcuts] = useState(false);
+    const [notice, setNotice] = useState('');
+    const notesRef = useRef<HTMLTextAreaElement>(null);
+    const checkerNotesRef = useRef<HTMLTextAreaElement>(null);
+    const now = useNow();
+    const { schedule, pendingKeys } = useUndoWindow();
+    const totalsLoaded = useRef(false);
+
+    // Queue, search, sort and scroll depth live in the URL so a reload or shared link restores the view.
+    const queue: QueueId = (['pending', 'pending_verification', 'awaiting_merchant'] as const).find((id) => id === searchParams.get('queue')) || 'pending';
+    const searchTerm = searchParams.get('q') || '';
+    const sortValue = SORT_OPTIONS.some((option) => option.value === searchParams.get('sort')) ? searchParams.get('sort')! : SORT_OPTIONS[0].value;
+    const [sortBy, sortDir] = sortValue.split(':') as [QueueSortField, 'asc' | 'desc'];
+    const [searchInput, setSearchInput] = useState(searchTerm);
+    const filters = filtersFromParams(searchParams);
+    const filterKey = FILTER_PARAM_NAMES.map((name) => searchParams.get(name) || '').join('|');
+    const [showFilters, setShowFilters] = useState(countActiveFilters(filters) > 0);
+
+    const updateParams = (changes: Record<string, string | null>) => {
+        setSearchParams((current) => {
+            const next = new URLSearchParams(current);
+            Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+            return next;
+        }, { replace: true });
+    };
+
+    const listKey = `${queue}|${searchTerm}|${sortValue}|${filterKey}`;
+    const list = usePagedList<PendingKYC>(
+        async (page) => {
+            if (!token) throw new Error('No authentication token');
+            return QUEUE_FETCHERS[queue](token, { ...toQueueQuery(filters), page, pageSize: PAGE_SIZE, sortBy, sortDir, search: searchTerm });
+        },
+        listKey,
+        Number(searchParams.get('page')) || 1
+    );
+
+    useEffect(() => setNewCount(0), [listKey]);
+
+    const updateFilters = (next: QueueFilters) => updateParams({ ...filtersToParams(next), page: null });
+
+    const applyView = (params: string) => {
+        const next = new URLSearchParams(params);
+        setSearchParams(next);
+        setSearchInput(next.get('q') || '');
+    };
+
+    useEffect(() => {
+        const timer = window.setTimeout(() => {
+            if (searchInput.trim() !== searchTerm) updateParams({ q: searchInput.trim() || null, page: null });
+        }, 300);
+        return () => window.clearTimeout(timer);
+    }, [searchInput]);
+
+    useEffect(() => {
+        if (list.pagesLoaded > 0) updateParams({ page: list.pagesLoaded > 1 ? String(list.pagesLoaded) : null });
+    }, [list.pagesLoaded]);
+
+    const locationVerification = useMemo(
+        () => (selectedMerchant ? verifyLocation(selectedMerchant.merchant_kyc, selectedMerchant) : null),
+        [selectedMerchant]
+    );
 
     useEffect(() => {
         if (!token) {
             navigate('/login');
             return;
         }
-        fetchPendingKYCs();
+        fetchQueueTotals();
     }, [token, navigate]);
 
     useEffect(() => {
-        const filtered = pendingKYCs.filter(kyc =>
-            (kyc?.full_name?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-            (kyc?.email?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-            (kyc?.business_name?.toLowerCase() || '').includes(searchTerm.toLowerCase())
-        );
-        setFilteredKYCs(filtered);
-    }, [searchTerm, pendingKYCs]);
-
-    const fetchPendingKYCs = async () => {
+        if (!token || !can(user, 'case:reassign')) return;
+        getSupportStaff(token).then(setStaff).catch((err) => setError(handleApiError(err)));
+    }, [token, user]);
+
+    // Opens the case the route names. Cases picked from the queue arrive already claimed; a shared
+    // link, a refresh or browser back/forward loads and claims the case here.
+    useEffect(() => {
+        if (!token) return;
+        if (!routeMerchantId) {
+            // Left with the browser's back button: hand the case back, as the Back button does.
+            if (selectedMerchant) {
+                if (canReview) releaseKYC(token, selectedMerchant.id).catch(() => undefined);
+                closeReview();
+                setReviewMode(false);
+                refreshQueues();
+            }
+            return;
+        }
+        if (selectedMerchant?.id === routeMerchantId) return;
+        if (pendingKeys.includes(routeMerchantId)) {
+            setNotice('A decision on this case is about to be sent — use Undo on its notification to reopen it');
+            navigate(dashboardUrl, { replace: true });
+            return;
+        }
+        if (claimedCase.current?.kyc.id === routeMerchantId) {
+            const { kyc, draft } = claimedCase.current;
+            claimedCase.current = null;
+            // Undo can reopen a case while the next one is on screen.
+            if (selectedMerchant && canReview) releaseKYC(token, selectedMerchant.id).catch(() => undefined);
+            openReview(kyc);
+            if (draft) applyDraft(draft);
+            return;
+        }
+        if (selectedMerchant && canReview) releaseKYC(token, selectedMerchant.id).catch(() => undefined);
+        closeReview();
+        let cancelled = false;
+        getKYCStatus(token, routeMerchantId)
+            .then(async (detail) => {
+                const claim = canReview ? await claimKYC(token, routeMerchantId) : detail.claim;
+                if (!cancelled) openReview({ ...detail, claim }, detail);
+            })
+            .catch((err) => {
+                if (cancelled) return;
+                setError(`Cannot open ${routeMerchantId}: ${handleApiError(err)}`);
+                navigate(dashboardUrl, { replace: true });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [token, routeMerchantId]);
+
+    // Keep the lock on the open case alive for as long as the review screen is open.
+    const openMerchantId = selectedMerchant?.id;
+    useEffect(() => {
+        if (!token || !openMerchantId || !canReview) return;
+        const timer = window.setInterval(() => {
+            claimKYC(token, openMerchantId)
+                .then((claim) => setSelectedMerchant((current) => (current?.id === claim.merchant_id ? { ...current, claim } : current)))
+                .catch((err) => setError(`Your claim on this case was lost: ${handleApiError(err)}`));
+        }, CLAIM_RENEW_INTERVAL_MS);
+        return () => window.clearInterval(timer);
+    }, [token, openMerchantId, canReview]);
+
+    // Tab badges and the SLA card only need totals, so ask for the smallest page.
+    const fetchQueueTotals = async (): Promise<Record<QueueId, number> | null> => {
+        try {
+            if (!token) throw new Error('No authentication token');
+            const ids = Object.keys(QUEUE_FETCHERS) as QueueId[];
+            const overdue = { pageSize: 1, submittedBefore: slaBreachCutoff() };
+            const [results, breached] = await Promise.all([
+                Promise.all(ids.map((id) => QUEUE_FETCHERS[id](token, { pageSize: 1 }))),
+                // Time spent waiting on the merchant does not count against support's SLA.
+                Promise.all(SLA_QUEUES.map((id) => QUEUE_FETCHERS[id](token, overdue)))
+            ]);
+            const totals = Object.fromEntries(ids.map((id, index) => [id, results[index].total])) as Record<QueueId, number>;
+            setQueueTotals(totals);
+            setSlaBreached(breached.reduce((sum, result) => sum + result.total, 0));
+            totalsLoaded.current = true;
+            return totals;
+        } catch (err) {
+            setError(handleApiError(err));
+            return null;
+        }
+    };
+
+    const refreshQueues = async () => {
+        setNewCount(0);
+        await Promise.all([list.reload(), fetchQueueTotals()]);
+    };
+
+    // New cases are announced in a banner rather than inserted, so rows do not jump while someone is reading.
+    const handleQueueEvent = (event: QueueEvent) => {
+        if (event.type === 'queue.reset') {
+            refreshQueues();
+            return;
+        }
+        if (!event.merchantId) return;
+        const merchantId = event.merchantId;
+        const byOther = event.actor?.id !== user?.id;
+        if (event.type === 'kyc.claimed' || event.type === 'kyc.released') {
+            const claim = event.type === 'kyc.claimed' ? event.claim : null;
+            list.updateItem(merchantId, (item) => ({ ...item, claim }));
+            if (claim && selectedMerchant?.id === merchantId && claim.claimed_by !== user?.id) {
+                setError(`This case was reassigned to ${claim.claimed_by_name}`);
+            }
+            return;
+        }
+        list.removeItem(merchantId);
+        fetchQueueTotals();
+        if (byOther && event.kycStatus && QUEUE_STATUSES[queue].includes(event.kycStatus)) {
+            setNewCount((count) => count + 1);
+        }
+        if (event.type === 'kyc.decided' && byOther && selectedMerchant?.id === merchantId) {
+            setError(`${event.actor?.name || 'Someone else'} has already decided this case`);
+        }
+    };
+
+    // Fallback while the push channel is down: compare totals and surface growth through the same banner.
+    const pollQueues = async () => {
+        const before = totalsLoaded.current ? queueTotals[queue] : null;
+        const totals = await fetchQueueTotals();
+        if (!totals || before === null) return;
+        if (totals[queue] > before) setNewCount((count) => count + totals[queue] - before);
+        else if (totals[queue] < before) list.reload();
+    };
+
+    const liveStatus = useLiveUpdates(token, handleQueueEvent, pollQueues);
+
+    const showNewItems = () => {
+        setNewCount(0);
+        list.reload();
+    };
+
+    // The open case lives in the route (/kyc/:merchantId); the queue's search, sort and filters
+    // ride along in the query string so Back returns to the same view.
+    const dashboardUrl = `/dashboard${location.search}`;
+    const caseUrl = (merchantId: string) => `/kyc/${encodeURIComponent(merchantId)}${location.search}`;
+    // A case claimed from the queue, handed to the route effect so it is not claimed and fetched again.
+    // After an Undo it carries the review as it was left.
+    const claimedCase = useRef<{ kyc: PendingKYC; draft?: ReviewDraft } | null>(null);
+
+    const showCase = (kyc: PendingKYC, draft?: ReviewDraft) => {
+        claimedCase.current = { kyc, draft };
+        navigate(caseUrl(kyc.id));
+    };
+
+    const applyDraft = (draft: ReviewDraft) => {
+        setReviewNotes(draft.notes);
+        setReasonCodes(draft.reasonCodes);
+        setFaceMatch(draft.faceMatch);
+        setDocumentVerdicts(draft.documentVerdicts);
+    };
+
+    const openReview = (kyc: PendingKYC, detail?: KYCStatusDetail) => {
+        setSelectedMerchant(kyc);
+        setHistory(detail || null);
+        // Earlier rejections are shown above the case; failing to load them does not block the review.
+        if (token && !detail) {
+            getKYCStatus(token, kyc.id)
+                .then(setHistory)
+                .catch(() => setHistory(null));
+        }
+        setActiveDocIndex(0);
+        setReasonCodes([]);
+        setMerchantQuestion('');
+        // A case awaiting verification opens read-only with the maker's checks filled in.
+        if (kyc.pending_review) {
+            setFaceMatch(faceMatchFromRecord(kyc.pending_review.face_match));
+            setDocumentVerdicts(Object.fromEntries((kyc.pending_review.document_verdicts || []).map((verdict) => [verdict.documentId, verdict])));
+            return;
+        }
+        setFaceMatch(EMPTY_FACE_MATCH);
+        // Documents accepted in an earlier review round stay accepted after a re-upload.
+        setDocumentVerdicts(Object.fromEntries(
+            (kyc.merchant_documents || [])
+                .filter((doc) => doc.verification_status === 'accepted')
+                .map((doc) => [doc.id, { documentId: doc.id, verdict: 'accepted' as const }])
+        ));
+    };
+
+    const claimAndOpen = async (kyc: PendingKYC) => {
         try {
-            setLoading(true);
             setError('');
+            setNotice('');
             if (!token) throw new Error('No authentication token');
-            const data = await getPendingKYCs(token);
-            setPendingKYCs(data);
-            setFilteredKYCs(data);
+            const claim = canReview ? await claimKYC(token, kyc.id) : kyc.claim;
+            showCase({ ...kyc, claim });
         } catch (err) {
             const errorMessage = handleApiError(err);
             setError(errorMessage);
+            notify(errorMessage, { kind: 'error' });
+            await refreshQueues();
+        }
+    };
+
+    // Cases after (or before) `fromId` in `items`, nearest first, that nobody else is working on
+    // and that have no decision waiting to be sent.
+    const neighbours = (items: PendingKYC[], fromId: string | null, direction: 1 | -1): PendingKYC[] => {
+        const index = items.findIndex((item) => item.id === fromId);
+        const candidates = direction === 1 ? items.slice(index + 1) : items.slice(0, Math.max(0, index)).reverse();
+        return candidates.filter((item) => !isClaimedByOther(item.claim, user) && !pendingKeys.includes(item.id));
+    };
+
+    // Claims and opens the nearest neighbour, skipping any that someone claims in the meantime.
+    const openNeighbour = async (items: PendingKYC[], fromId: string | null, direction: 1 | -1): Promise<boolean> => {
+        if (!token) return false;
+        for (const kyc of neighbours(items, fromId, direction)) {
+            try {
+                const claim = canReview ? await claimKYC(token, kyc.id) : kyc.claim;
+                showCase({ ...kyc, claim });
+                return true;
+            } catch {
+                // Taken by someone else since the list loaded; try the one after.
+            }
+        }
+        return false;
+    };
+
+    const releaseOpenCase = async () => {
+        if (!token || !selectedMerchant || !canReview) return;
+        try {
+            await releaseKYC(token, selectedMerchant.id);
+        } catch (err) {
+            setError(handleApiError(err));
+        }
+    };
+
+    // Leaving a case without deciding it hands it back to the queue.
+    const handleBack = async () => {
+        await releaseOpenCase();
+        closeReview();
+        setReviewMode(false);
+        setNotice('');
+        navigate(dashboardUrl);
+        await refreshQueues();
+    };
+
+    const startReviewMode = async () => {
+        setError('');
+        setNotice('');
+        setReviewMode(true);
+        if (!(await openNeighbour(list.items, null, 1))) {
+            setReviewMode(false);
+            setNotice('There are no unclaimed cases loaded in this queue');
+        }
+    };
+
+    // Next/previous hands the open case back and claims its neighbour in the loaded queue.
+    const goToCase = async (direction: 1 | -1) => {
+        if (!selectedMerchant || reviewing) return;
+        const items = list.items;
+        const fromId = selectedMerchant.id;
+        setError('');
+        setNotice('');
+        if (neighbours(items, fromId, direction).length === 0) {
+            setNotice(direction === 1 ? 'This is the last loaded case' : 'This is the first case in the queue');
+            return;
+        }
+        setReviewing(true);
+        try {
+            await releaseOpenCase();
+            closeReview();
+            if (!(await openNeighbour(items, fromId, direction))) {
+                setReviewMode(false);
+                setNotice('The other cases were claimed by colleagues in the meantime');
+                navigate(dashboardUrl);
+                await refreshQueues();
+            }
         } finally {
-            setLoading(false);
+            setReviewing(false);
         }
     };
 
-    const handleApprove = async (merchantId: string) => {
-        if (!window.confirm('Are you sure you want to APPROVE this KYC?')) return;
+    // After a decision: back to the queue, or in review mode straight on to the next case.
+    // `message` is null when the undo toast already tells the user what happened.
+    const finishCase = async (message: string | null, merchantId: string, items: PendingKYC[]) => {
+        closeReview();
+        if (!reviewMode) {
+            navigate(dashboardUrl);
+            if (message) notify(message);
+            await refreshQueues();
+            return;
+        }
+        const opened = await openNeighbour(items, merchantId, 1);
+        if (!opened) {
+            setReviewMode(false);
+            navigate(dashboardUrl);
+        }
+        const outcome = opened ? 'next case opened' : 'no more loaded cases, review mode ended';
+        setNotice(`${message || 'Decision queued'} — ${outcome}`);
+        await refreshQueues();
+    };
+
+    const handleReassign = async (merchantId: string, assigneeId: string) => {
+        const assignee = staff.find((member) => member.id === assigneeId);
+        if (!assignee) return;
+        if (!(await confirm({ title: 'Reassign case?', message: `Assign this case to ${assignee.name}? They take over the claim.`, confirmLabel: 'Assign' }))) return;
+        try {
+            setError('');
+            if (!token) throw new Error('No authentication token');
+            await reassignKYC(token, merchantId, assigneeId);
+            await refreshQueues();
+        } catch (err) {
+            const errorMessage = handleApiError(err);
+            setError(errorMessage);
+            notify(errorMessage, { kind: 'error' });
+        }
+    };
+
+    const closeReview = () => {
+        setSelectedMerchant(null);
+        setHistory(null);
+        setReviewNotes('');
+        setFaceMatch(EMPTY_FACE_MATCH);
+        setDocumentVerdicts({});
+        setReasonCodes([]);
+        setMerchantQuestion('');
+    };
+
+    // The review with the checks gathered on screen.
+    const reviewPayload = (merchantId: string, decision: KYCDecision, notes: string): KYCReviewPayload => ({
+        merchantId,
+        decision,
+        reviewNotes: notes,
+        reasonCodes: decision === 'approve' ? [] : reasonCodes,
+        merchantQuestion: decision === 'needs_info' ? merchantQuestion.trim() : undefined,
+        faceMatch,
+        locationVerification: locationVerification ? toVerificationOutcome(locationVerification) : undefined,
+        documentVerdicts: Object.values(documentVerdicts)
+    });
+
+    const submitReview = async (merchantId: string, decision: KYCDecision, notes: string, successMessage: string) => {
+        const items = list.items;
         try {
             setReviewing(true);
             setError('');
+            setNotice('');
             if (!token) throw new Error('No authentication token');
-            await reviewKYC(token, {
-                merchantId,
-                decision: 'approve',
-                reviewNotes: reviewNotes || 'Approved by support staff'
-            });
-            alert('✅ KYC Approved Successfully!');
-            await fetchPendingKYCs();
-            setSelectedMerchant(null);
-            setReviewNotes('');
+            await reviewKYC(token, reviewPayload(merchantId, decision, notes));
+            await finishCase(successMessage, merchantId, items);
         } catch (err) {
             const errorMessage = handleApiError(err);
             setError(errorMessage);
-            alert(`❌ Error: ${errorMessage}`);
+            notify(errorMessage, { kind: 'error' });
+        } finally {
+            setReviewing(false);
+        }
+    };
+
+    // Approvals and rejections wait out the undo window before they are sent. The case closes at
+    // once and stays claimed meanwhile; Undo reopens it with the review as it was left.
+    const holdReview = async (kyc: PendingKYC, decision: 'approve' | 'reject', notes: string) => {
+        if (!token) return;
+        const payload = reviewPayload(kyc.id, decision, notes);
+        const draft: ReviewDraft = { notes: reviewNotes, reasonCodes, faceMatch, documentVerdicts };
+        const label = decision === 'approve' ? 'Approval' : 'Rejection';
+        schedule({
+            key: kyc.id,
+            message: `${label} of ${kyc.business_name} will be sent in ${UNDO_WINDOW_MS / 1000} seconds`,
+            commit: async () => {
+                try {
+                    await reviewKYC(token, payload);
+                    notify(`${label} of ${kyc.business_name} sent for checker verification`);
+                } catch (err) {
+                    notify(`${label} of ${kyc.business_name} was not sent: ${handleApiError(err)}`, { kind: 'error' });
+                    releaseKYC(token, kyc.id).catch(() => undefined);
+                }
+                await refreshQueues();
+            },
+            onUndo: () => showCase(kyc, draft)
+        });
+        try {
+            setReviewing(true);
+            setError('');
+            setNotice('');
+            await finishCase(null, kyc.id, list.items);
         } finally {
             setReviewing(false);
         }
     };
 
+    // What the confirmation shows before a maker decision goes out.
+    const decisionSummary = (kyc: PendingKYC, decision: 'approve' | 'reject') => {
+        const verdicts = Object.values(documentVerdicts);
+        const counts = (Object.keys(DOCUMENT_VERDICT_LABELS) as DocumentVerdict['verdict'][])
+            .map((verdict) => [DOCUMENT_VERDICT_LABELS[verdict], verdicts.filter((v) => v.verdict === verdict).length] as const)
+            .filter(([, count]) => count > 0)
+            .map(([label, count]) => `${count} ${label.toLowerCase()}`);
+        return [
+            { label: 'Merchant', value: `${kyc.business_name} (${kyc.full_name})` },
+            { label: 'Decision', value: decision === 'approve' ? 'Approve' : 'Reject' },
+            { label: 'Documents', value: counts.join(', ') || 'No verdicts' },
+            ...(decision === 'reject' ? [{ label: 'Reasons', value: reasonCodes.map((code) => getReasonCode(code).label).join(', ') }] : []),
+            { label: 'Notes', value: reviewNotes.trim() || '—' }
+        ];
+    };
+
+    const handleApprove = async (merchantId: string) => {
+        if (!selectedMerchant || selectedMerchant.id !== merchantId) return;
+        const confirmed = await confirm({
+            title: 'Approve this KYC?',
+            message: `A checker must verify it before it takes effect. You can undo for ${UNDO_WINDOW_MS / 1000} seconds after confirming.`,
+            summary: decisionSummary(selectedMerchant, 'approve'),
+            confirmLabel: 'Approve',
+            tone: 'success'
+        });
+        if (!confirmed) return;
+        await holdReview(selectedMerchant, 'approve', reviewNotes || 'Approved by support staff');
+    };
+
     const handleReject = async (merchantId: string) => {
-        if (!reviewNotes.trim()) {
-            alert('⚠️ Please provide a rejection reason');
+        if (!selectedMerchant || selectedMerchant.id !== merchantId) return;
+        if (reasonCodes.length === 0) {
+            notify('Please select at least one rejection reason', { kind: 'error' });
+            return;
+        }
+        if (missingReasons(documentVerdicts).length > 0) {
+            notify('Please give a reason for every rejected or re-upload document', { kind: 'error' });
             return;
         }
-        if (!window.confirm('Are you sure you want to REJECT this KYC?')) return;
+        const confirmed = await confirm({
+            title: 'Reject this KYC?',
+            message: `A checker must verify it before it takes effect. You can undo for ${UNDO_WINDOW_MS / 1000} seconds after confirming.`,
+            summary: decisionSummary(selectedMerchant, 'reject'),
+            confirmLabel: 'Reject',
+            tone: 'danger'
+        });
+        if (!confirmed) return;
+        await holdReview(selectedMerchant, 'reject', reviewNotes);
+    };
+
+    const submitVerification = async (merchantId: string, action: 'confirm' | 'overturn', checkerNotes: string, checkerReasonCodes: string[] = []) => {
+        const confirmed = await confirm(action === 'confirm'
+            ? { title: 'Confirm the maker\'s decision?', message: 'It will take effect immediately.', confirmLabel: 'Confirm decision', tone: 'success' }
+            : { title: 'Overturn the maker\'s decision?', message: 'The opposite decision will take effect immediately.', confirmLabel: 'Overturn', tone: 'danger' });
+        if (!confirmed) return;
+        const items = list.items;
         try {
             setReviewing(true);
             setError('');
+            setNotice('');
             if (!token) throw new Error('No authentication token');
-            await reviewKYC(token, {
-                merchantId,
-                decision: 'reject',
-                reviewNotes
-            });
-            alert('❌ KYC Rejected Successfully!');
-            await fetchPendingKYCs();
-            setSelectedMerchant(null);
-            setReviewNotes('');
+            const result = await verifyKYCDecision(token, { merchantId, action, checkerNotes, reasonCodes: checkerReasonCodes });
+            await finishCase(`✅ ${result.message}`, merchantId, items);
         } catch (err) {
             const errorMessage = handleApiError(err);
             setError(errorMessage);
-            alert(`❌ Error: ${errorMessage}`);
+            notify(errorMessage, { kind: 'error' });
         } finally {
             setReviewing(false);
         }
     };
 
-    const handleLogout = () => {
-        if (window.confirm('Are you sure you want to logout?')) {
+    const handleRequestReupload = async (merchantId: string) => {
+        if (missingReasons(documentVerdicts).length > 0) {
+            notify('Please tell the merchant what to fix for every re-upload document', { kind: 'error' });
+            return;
+        }
+        const count = Object.values(documentVerdicts).filter((v) => v.verdict === 'reupload').length;
+        if (!(await confirm({ title: 'Request re-upload?', message: `Ask the merchant to re-upload ${count} document(s).`, confirmLabel: 'Request re-upload' }))) return;
+        await submitReview(merchantId, 'request_reupload', reviewNotes || 'Re-upload requested by support staff', '🔁 Re-upload Requested!');
+    };
+
+    const handleNeedsInfo = async (merchantId: string) => {
+        if (!merchantQuestion.trim()) {
+            notify('Please write the question for the merchant', { kind: 'error' });
+            return;
+        }
+        const confirmed = await confirm({
+            title: 'Send this question to the merchant?',
+            message: 'The KYC will wait in the "Awaiting merchant" queue until they respond.',
+            summary: [{ label: 'Question', value: merchantQuestion.trim() }],
+            confirmLabel: 'Send question'
+        });
+        if (!confirmed) return;
+        await submitReview(merchantId, 'needs_info', reviewNotes || 'Clarification requested from merchant', '💬 Question Sent to Merchant!');
+    };
+
+    const setDocumentVerdict = (documentId: string, verdict: DocumentVerdict | undefined) => {
+        setDocumentVerdicts((current) => {
+            const next = { ...current };
+            if (verdict) next[documentId] = verdict;
+            else delete next[documentId];
+            return next;
+        });
+    };
+
+    const handleLogout = async () => {
+        if (await confirm({ title: 'Log out?', message: 'Decisions still in their undo window are sent first.', confirmLabel: 'Log out' })) {
             logout();
             navigate('/login');
         }
     };
 
-    if (loading) {
-        return (
-            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-                <Loader2 className="w-12 h-12 animate-spin text-blue-600" />
-            </div>
-        );
-    }
+    const makerReview = selectedMerchant?.pending_review || null;
+    const checkerMode = Boolean(makerReview);
+    const derivedDecision = selectedMerchant ? deriveDecision(selectedMerchant.merchant_documents || [], documentVerdicts) : null;
+    const faceMatchReady = !selectedMerchant?.merchant_kyc?.selfie_file_path || isFaceMatchComplete(faceMatch);
+    // Approval needs every document accepted and the selfie checked whenever one was captured.
+    const approvalReady = derivedDecision === 'approve' && faceMatchReady;
+    const approvalHint = derivedDecision === 'reject'
+        ? 'A document is rejected — reject the KYC or change the verdict'
+        : derivedDecision === 'request_reupload'
+            ? 'Some documents need a re-upload'
+            : derivedDecision === null
+                ? 'Mark every document to approve'
+                : !faceMatchReady
+                    ? 'Complete the face match checklist to approve'
+                    : '';
+
+    const activeDocument = selectedMerchant?.merchant_documents?.[activeDocIndex];
+    useShortcuts(REVIEW_SHORTCUTS, {
+        approve: () => {
+            if (!selectedMerchant || checkerMode || !canReview || reviewing) return;
+            if (approvalReady) handleApprove(selectedMerchant.id);
+            else setError(approvalHint);
+        },
+        reject: () => {
+            if (selectedMerchant && !checkerMode && canReview && !reviewing) handleReject(selectedMerchant.id);
+        },
+        notes: () => (checkerMode ? checkerNotesRef : notesRef).current?.focus(),
+        next: () => goToCase(1),
+        previous: () => goToCase(-1),
+        document: () => {
+            const count = selectedMerchant?.merchant_documents?.length || 0;
+            if (count > 0) setActiveDocIndex((activeDocIndex + 1) % count);
+        },
+        openDocument: () => {
+            if (activeDocument) window.open(getDocumentUrl(activeDocument.file_path), '_blank', 'noopener,noreferrer');
+        },
+        back: () => {
+            if (showShortcuts) setShowShortcuts(false);
+            else if (!reviewing) handleBack();
+        },
+        help: () => setShowShortcuts(!showShortcuts)
+    }, Boolean(selectedMerchant));
 
     return (
         <div className="min-h-screen bg-gray-50">
@@ -123,16 +720,28 @@ export const SupportDashboard: React.FC = () => {
                 <div className="max-w-7xl mx-auto px-6 py-4 flex justify-between items-center">
                     <div>
                         <h1 className="text-2xl font-bold text-gray-900">KYC Review Portal</h1>
-                        <p className="text-sm text-gray-600">Welcome, {user?.name} • {user?.email}</p>
+                        <p className="text-sm text-gray-600">Welcome, {user?.name} • {user?.email}{user && ` • ${roleLabel(user.role)}`}</p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                        <LiveStatusIndicator status={liveStatus} />
+                        {can(user, 'analytics:view') && (
+                            <Link to="/analytics" className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border border-gray-300">
+                                <BarChart3 className="w-5 h-5" /> Analytics
+                            </Link>
+                        )}
+                        <Link to="/account/security" className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border border-gray-300">
+                            <ShieldCheck className="w-5 h-5" /> Security
+                        </Link>
+                        <button onClick={handleLogout} className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border border-gray-300">
+                            <LogOut className="w-5 h-5" /> Logout
+                        </button>
                     </div>
-                    <button onClick={handleLogout} className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg border border-gray-300">
-                        <LogOut className="w-5 h-5" /> Logout
-                    </button>
                 </div>
             </div>
 
             <div className="max-w-7xl mx-auto px-6 py-8">
-                {error && <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg"><AlertCircle className="w-5 h-5 text-red-600 inline" /> {error}</div>}
+                {(error || list.error) && <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg"><AlertCircle className="w-5 h-5 text-red-600 inline" /> {error || list.error}</div>}
+                {notice && <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800">{notice}</div>}
 
                 {selectedMerchant ? (
                     <div className="bg-white rounded-lg shadow-lg">
@@ -140,11 +749,33 @@ export const SupportDashboard: React.FC = () => {
                             <div>
                                 <h2 className="text-2xl font-bold">{selectedMerchant.business_name}</h2>
                                 <p className="text-blue-100">{selectedMerchant.full_name}</p>
+                                {canReview && isClaimActive(selectedMerchant.claim) && (
+                                    <p className="text-sm text-blue-100 mt-1 flex items-center gap-1">
+                                        <Lock className="w-4 h-4" /> Claimed by you • lock renews while this case is open
+                                    </p>
+                                )}
+                                {reviewMode && (
+                                    <p className="text-sm text-blue-100 mt-1 flex items-center gap-1">
+                                        <Keyboard className="w-4 h-4" /> Review mode • the next case opens after each decision • J / K to move, Esc to stop
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex items-start gap-4">
+                                <Link to={`/merchants/${selectedMerchant.id}`} target="_blank" rel="noreferrer" className="text-sm text-blue-100 hover:text-white underline mt-2">
+                                    History ↗
+                                </Link>
+                                <button onClick={() => setShowShortcuts(true)} className="flex items-center gap-1 text-sm text-blue-100 hover:text-white mt-2" title="Keyboard shortcuts (?)">
+                                    <Keyboard className="w-4 h-4" /> ?
+                                </button>
+                                <button onClick={handleBack} className="text-2xl" disabled={reviewing}>✕</button>
                             </div>
-                            <button onClick={() => { setSelectedMerchant(null); setReviewNotes(''); }} className="text-2xl">✕</button>
                         </div>
 
                         <div className="p-6 space-y-6">
+                            {history?.id === selectedMerchant.id && (
+                                <PriorRejectionsNotice merchantId={selectedMerchant.id} rejections={priorRejections(history)} />
+                            )}
+
                             <div>
                                 <h3 className="font-semibold mb-4">📋 Merchant Information</h3>
                                 <div className="grid grid-cols-2 gap-4">
@@ -167,74 +798,317 @@ export const SupportDashboard: React.FC = () => {
                                 </div>
                             </div>
 
+                            <div>
+                                <h3 className="font-semibold mb-4">🪪 Identity Numbers</h3>
+                                <IdentityChecks merchant={selectedMerchant} />
+                            </div>
+
                             {selectedMerchant.merchant_documents && selectedMerchant.merchant_documents.length > 0 && (
                                 <div>
                                     <h3 className="font-semibold mb-4">📄 Documents</h3>
-                                    <div className="space-y-2">
-                                        {selectedMerchant.merchant_documents.map((doc) => (
-                                            <div key={doc.id} className="flex justify-between items-center p-4 bg-gray-50 rounded-lg">
-                                                <div>
-                                                    <p className="font-medium">{doc.document_type.replace(/_/g, ' ').toUpperCase()}</p>
-                                                    <p className="text-xs text-gray-600">{new Date(doc.uploaded_at).toLocaleDateString()}</p>
-                                                </div>
+                                    <div className="flex flex-wrap gap-2 mb-4">
+                                        {selectedMerchant.merchant_documents.map((doc, index) => {
+                                            const verdict = documentVerdicts[doc.id];
+                                            return (
                                                 <button
-                                                    onClick={() => {
-                                                        const url = getDocumentUrl(doc.file_path);
-                                                        console.log('Opening:', url);
-                                                        window.open(url, '_blank');
-                                                    }}
-                                                    className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                                                    key={doc.id}
+                                                    onClick={() => setActiveDocIndex(index)}
+                                                    className={`px-3 py-2 rounded-lg text-left border ${index === activeDocIndex ? 'bg-blue-600 text-white border-blue-600' : 'bg-gray-50 hover:bg-gray-100'}`}
                                                 >
-                                                    View
+                                                    <p className="text-sm font-medium flex items-center gap-1">
+                                                        {verdict?.verdict === 'accepted' && <CheckCircle className="w-4 h-4 text-green-500" />}
+                                                        {verdict?.verdict === 'rejected' && <XCircle className="w-4 h-4 text-red-500" />}
+                                                        {verdict?.verdict === 'reupload' && <RefreshCw className="w-4 h-4 text-amber-500" />}
+                                                        {formatDocumentType(doc.document_type)}
+                                                    </p>
+                                                    <p className={`text-xs ${index === activeDocIndex ? 'text-blue-100' : 'text-gray-600'}`}>
+                                                        {verdict ? DOCUMENT_VERDICT_LABELS[verdict.verdict] : new Date(doc.uploaded_at).toLocaleDateString()}
+                                                    </p>
                                                 </button>
+                                            );
+                                        })}
+                                    </div>
+                                    <DocumentViewer merchant={selectedMerchant} activeIndex={activeDocIndex} onActiveIndexChange={setActiveDocIndex}>
+                                        {!checkerMode && canReview && selectedMerchant.merchant_documents[activeDocIndex] && (
+                                            <DocumentVerdictControl
+                                                documentId={selectedMerchant.merchant_documents[activeDocIndex].id}
+                                                verdict={documentVerdicts[selectedMerchant.merchant_documents[activeDocIndex].id]}
+                                                onChange={(verdict) => setDocumentVerdict(selectedMerchant.merchant_documents[activeDocIndex].id, verdict)}
+                                                disabled={reviewing}
+                                            />
+                                        )}
+                                    </DocumentViewer>
+                                </div>
+                            )}
+
+                            {selectedMerchant.merchant_kyc?.selfie_file_path && (
+                                <div>
+                                    <h3 className="font-semibold mb-4">🤳 Face Match</h3>
+                                    <FaceMatchPanel merchant={selectedMerchant} checklist={faceMatch} onChecklistChange={setFaceMatch} disabled={reviewing || checkerMode || !canReview} />
+                                </div>
+                            )}
+
+                            {locationVerification && (
+                                <div>
+                                    <h3 className="font-semibold mb-4">📍 Location</h3>
+                                    <LocationPanel merchant={selectedMerchant} verification={locationVerification} />
+                                </div>
+                            )}
+
+                            {selectedMerchant.info_requests && selectedMerchant.info_requests.length > 0 && (
+                                <div>
+                                    <h3 className="font-semibold mb-4">💬 Merchant Clarifications</h3>
+                                    <div className="space-y-3">
+                                        {selectedMerchant.info_requests.map((request) => (
+                                            <div key={request.id} className="p-4 bg-gray-50 rounded-lg space-y-2">
+                                                <p className="text-xs text-gray-600">Asked by {request.asked_by} • {new Date(request.asked_at).toLocaleString()}</p>
+                                                <p className="font-medium">{request.question}</p>
+                                                {request.response ? (
+                                                    <div className="pl-3 border-l-4 border-blue-300">
+                                                        <p className="text-xs text-gray-600">Merchant replied • {request.responded_at && new Date(request.responded_at).toLocaleString()}</p>
+                                                        <p>{request.response}</p>
+                                                    </div>
+                                                ) : (
+                                                    <p className="text-sm text-gray-500 italic">No response yet</p>
+                                                )}
                                             </div>
                                         ))}
                                     </div>
                                 </div>
                             )}
 
-                            <div>
-                                <label className="block text-sm font-semibold mb-2">📝 Review Notes</label>
-                                <textarea value={reviewNotes} onChange={(e) => setReviewNotes(e.target.value)} placeholder="Add review notes..." rows={5} className="w-full px-4 py-3 border rounded-lg" disabled={reviewing} />
-                            </div>
-                        </div>
+                            {makerReview ? (
+                                <div>
+                                    <h3 className="font-semibold mb-4">🛡️ Checker Verification</h3>
+                                    <CheckerPanel
+                                        merchant={selectedMerchant}
+                                        makerReview={makerReview}
+                                        blockReason={checkerBlockReason(user, makerReview)}
+                                        busy={reviewing}
+                                        onConfirm={(notes) => submitVerification(selectedMerchant.id, 'confirm', notes)}
+                                        onOverturn={(notes, codes) => submitVerification(selectedMerchant.id, 'overturn', notes, codes)}
+                                        notesRef={checkerNotesRef}
+                                    />
+                                </div>
+                            ) : canReview ? (
+                                <>
+                                    <div>
+                                        <h3 className="font-semibold mb-2">❓ Ask the Merchant</h3>
+                                        <p className="text-sm text-gray-600 mb-3">Need clarification before deciding? Send a question and park the case until the merchant responds.</p>
+                                        <textarea value={merchantQuestion} onChange={(e) => setMerchantQuestion(e.target.value)} placeholder="e.g. Please confirm the registered address of your shop" rows={2} className="w-full px-4 py-3 border rounded-lg" disabled={reviewing} />
+                                    </div>
+
+                                    <div>
+                                        <h3 className="font-semibold mb-2">🏷️ Reasons</h3>
+                                        <p className="text-sm text-gray-600 mb-3">Required to reject; also sent with re-upload requests.</p>
+                                        <ReasonCodePicker selected={reasonCodes} onChange={setReasonCodes} disabled={reviewing} />
+                                    </div>
 
-                        <div className="p-6 border-t bg-gray-50 flex justify-end gap-3">
-                            <button onClick={() => { setSelectedMerchant(null); setReviewNotes(''); }} className="px-6 py-3 border rounded-lg" disabled={reviewing}>← Back</button>
-                            <button onClick={() => handleReject(selectedMerchant.id)} className="px-6 py-3 bg-red-600 text-white rounded-lg" disabled={reviewing || !reviewNotes.trim()}>Reject</button>
-                            <button onClick={() => handleApprove(selectedMerchant.id)} className="px-6 py-3 bg-green-600 text-white rounded-lg" disabled={reviewing}>Approve</button>
+                                    <div>
+                                        <label className="block text-sm font-semibold mb-2">📝 Review Notes</label>
+                                        <textarea ref={notesRef} value={reviewNotes} onChange={(e) => setReviewNotes(e.target.value)} placeholder="Add review notes (optional)..." rows={5} className="w-full px-4 py-3 border rounded-lg" disabled={reviewing} />
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="p-4 bg-gray-50 border rounded-lg text-sm text-gray-700 flex items-center gap-2">
+                                    <Lock className="w-4 h-4 shrink-0" /> {reviewDenied}. This case is open read-only and is not claimed.
+                                </div>
+                            )}
                         </div>
+
+                        {checkerMode || !canReview ? (
+                            <div className="p-6 border-t bg-gray-50 flex justify-end">
+                                <button onClick={handleBack} className="px-6 py-3 border rounded-lg" disabled={reviewing}>← Back</button>
+                            </div>
+                        ) : (
+                            <div className="p-6 border-t bg-gray-50 flex justify-end items-center gap-3">
+                                {approvalHint && <p className="text-sm text-gray-600 mr-auto">{approvalHint}</p>}
+                                <button onClick={handleBack} className="px-6 py-3 border rounded-lg" disabled={reviewing}>← Back</button>
+                                <button
+                                    onClick={() => handleNeedsInfo(selectedMerchant.id)}
+                                    className="px-6 py-3 bg-blue-600 text-white rounded-lg disabled:opacity-50"
+                                    disabled={reviewing || !merchantQuestion.trim() || derivedDecision === 'reject' || derivedDecision === 'request_reupload'}
+                                    title={derivedDecision === 'reject'
+                                        ? 'A document is rejected — reject the KYC instead'
+                                        : derivedDecision === 'request_reupload'
+                                            ? 'A document needs re-uploading — use Request Re-upload instead'
+                                            : undefined}
+                                >
+                                    Send Back to Merchant
+                                </button>
+                                {derivedDecision === 'request_reupload' && (
+                                    <button onClick={() => handleRequestReupload(selectedMerchant.id)} className="px-6 py-3 bg-amber-500 text-white rounded-lg" disabled={reviewing}>Request Re-upload</button>
+                                )}
+                                <button onClick={() => handleReject(selectedMerchant.id)} className="px-6 py-3 bg-red-600 text-white rounded-lg" disabled={reviewing || reasonCodes.length === 0}>Reject</button>
+                                <button onClick={() => handleApprove(selectedMerchant.id)} className="px-6 py-3 bg-green-600 text-white rounded-lg disabled:opacity-50" disabled={reviewing || !approvalReady}>Approve</button>
+                            </div>
+                        )}
                     </div>
+                ) : routeMerchantId ? (
+                    <div className="flex justify-center p-12"><Loader2 className="w-10 h-10 animate-spin text-blue-600" /></div>
                 ) : (
                     <div className="space-y-6">
                         <div className="grid grid-cols-3 gap-4">
-                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Pending</p><p className="text-3xl font-bold">{filteredKYCs.length}</p></div>
-                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Total</p><p className="text-3xl font-bold">{pendingKYCs.length}</p></div>
-                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Search</p><p className="text-3xl font-bold">{searchTerm ? '🔍' : '-'}</p></div>
+                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Pending</p><p className="text-3xl font-bold">{list.total}</p></div>
+                            <div className="bg-white p-6 rounded-lg shadow"><p className="text-gray-600">Total</p><p className="text-3xl font-bold">{queueTotals.pending}</p></div>
+                            <div className="bg-white p-6 rounded-lg shadow">
+                                <p className="text-gray-600">SLA breached ({SLA_HOURS}h)</p>
+                                <p className={`text-3xl font-bold ${slaBreached > 0 ? 'text-red-600' : ''}`}>{slaBreached}</p>
+                            </div>
                         </div>
 
-                        <div className="bg-white p-4 rounded-lg shadow">
-                            <input type="text" placeholder="Search..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="w-full px-4 py-3 border rounded-lg" />
+                        <div className="bg-white p-4 rounded-lg shadow space-y-4">
+                            <div className="flex gap-3">
+                                <input type="text" placeholder="Search name, email, business, mobile or PAN..." value={searchInput} onChange={(e) => setSearchInput(e.target.value)} className="flex-1 px-4 py-3 border rounded-lg" />
+                                <select value={sortValue} onChange={(e) => updateParams({ sort: e.target.value === SORT_OPTIONS[0].value ? null : e.target.value, page: null })} className="px-4 py-3 border rounded-lg">
+                                    {SORT_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => setShowFilters(!showFilters)}
+                                    className={`flex items-center gap-2 px-4 py-3 border rounded-lg ${showFilters ? 'bg-blue-50 border-blue-300' : ''}`}
+                                >
+                                    <SlidersHorizontal className="w-5 h-5" /> Filters{countActiveFilters(filters) > 0 && ` (${countActiveFilters(filters)})`}
+                                </button>
+                                {can(user, 'data:export') && (
+                                    <button onClick={() => setShowExport(true)} className="flex items-center gap-2 px-4 py-3 border rounded-lg hover:bg-gray-100">
+                                        <Download className="w-5 h-5" /> Export
+                                    </button>
+                                )}
+                                <button
+                                    onClick={startReviewMode}
+                                    disabled={list.items.length === 0 || !canReview}
+                                    className="flex items-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg disabled:opacity-50"
+                                    title={reviewDenied || 'Work through the queue with keyboard shortcuts'}
+                                >
+                                    <Keyboard className="w-5 h-5" /> Review mode
+                                </button>
+                            </div>
+                            {showFilters && <QueueFilterPanel filters={filters} onChange={updateFilters} />}
+                            {user && <SavedViewsBar userId={user.id} currentParams={viewParams(searchParams)} onApply={applyView} />}
+                        </div>
+
+                        <div className="flex gap-2">
+                            {([
+                                { id: 'pending', label: QUEUE_LABELS.pending, count: queueTotals.pending },
+                                { id: 'pending_verification', label: QUEUE_LABELS.pending_verification, count: queueTotals.pending_verification },
+                                { id: 'awaiting_merchant', label: QUEUE_LABELS.awaiting_merchant, count: queueTotals.awaiting_merchant }
+                            ] as const).map((tab) => (
+                                <button
+                                    key={tab.id}
+                                    onClick={() => updateParams({ queue: tab.id === 'pending' ? null : tab.id, page: null })}
+                                    className={`px-4 py-2 rounded-lg border ${queue === tab.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white hover:bg-gray-100'}`}
+                                >
+                                    {tab.label} ({tab.count})
+                                </button>
+                            ))}
                         </div>
 
-                        {filteredKYCs.length > 0 ? (
-                            <div className="space-y-3">
-                                {filteredKYCs.map((kyc) => (
-                                    <div key={kyc.id} className="bg-white p-4 rounded-lg shadow flex justify-between items-center">
-                                        <div>
-                                            <h3 className="font-semibold">{kyc.business_name}</h3>
-                                            <p className="text-sm text-gray-600">{kyc.full_name}</p>
+                        {newCount > 0 && (
+                            <button onClick={showNewItems} className="w-full p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg hover:bg-blue-100">
+                                {newCount} new {newCount === 1 ? 'application' : 'applications'} — Show
+                            </button>
+                        )}
+
+                        {list.loading && list.items.length === 0 ? (
+                            <div className="flex justify-center p-12"><Loader2 className="w-10 h-10 animate-spin text-blue-600" /></div>
+                        ) : list.items.length > 0 ? (
+                            <VirtualList
+                                items={list.items}
+                                rowHeight={ROW_HEIGHT}
+                                getKey={(kyc) => kyc.id}
+                                onEndReached={list.loadMore}
+                                className="h-[70vh]"
+                                footer={
+                                    <p className="text-center text-sm text-gray-500 py-3">
+                                        {list.loadingMore ? 'Loading more…' : list.hasMore ? '' : `All ${list.total} loaded`}
+                                    </p>
+                                }
+                                renderRow={(kyc) => {
+                                    const openQuestion = kyc.info_requests?.find((request) => !request.response);
+                                    const lockedByOther = isClaimedByOther(kyc.claim, user);
+                                    const startedAt = slaStartedAt(kyc);
+                                    const sla = SLA_QUEUES.includes(queue) ? slaStatus(startedAt, now) : null;
+                                    const heldByMe = isClaimActive(kyc.claim) && !lockedByOther;
+                                    const decisionPending = pendingKeys.includes(kyc.id);
+                                    return (
+                                        <div className="pb-3 h-full">
+                                            <div className="bg-white p-4 rounded-lg shadow flex justify-between items-center gap-4 h-full">
+                                                <div className="min-w-0">
+                                                    <div className="flex items-center gap-2 min-w-0">
+                                                        <h3 className="font-semibold truncate">{kyc.business_name}</h3>
+                                                        <span
+                                                            className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full shrink-0 ${sla ? SLA_STYLES[sla].badge : 'bg-gray-100 text-gray-700'}`}
+                                                            title={sla ? `${SLA_STYLES[sla].label} (${SLA_HOURS}h)` : 'Waiting on the merchant'}
+                                                        >
+                                                            <Clock className="w-3 h-3" /> {formatAge(startedAt, now)}
+                                                        </span>
+                                                    </div>
+                                                    <p className="text-sm text-gray-600 truncate">{kyc.full_name}</p>
+                                                    {isClaimActive(kyc.claim) && (
+                                                        <p className={`text-sm mt-1 flex items-center gap-1 ${lockedByOther ? 'text-red-700' : 'text-green-700'}`}>
+                                                            <Lock className="w-4 h-4" />
+                                                            {lockedByOther ? `Being reviewed by ${kyc.claim.claimed_by_name}` : 'Assigned to you'} • until {formatClaimExpiry(kyc.claim)}
+                                                        </p>
+                                                    )}
+                                                    {queue === 'pending_verification' && kyc.pending_review && (
+                                                        <p className="text-sm text-indigo-700 mt-1 truncate">
+                                                            {kyc.pending_review.decision === 'approve' ? 'Approved' : 'Rejected'} by {kyc.pending_review.reviewer_name} • {new Date(kyc.pending_review.reviewed_at).toLocaleString()}
+                                                        </p>
+                                                    )}
+                                                    {queue === 'awaiting_merchant' && (
+                                                        <p className="text-sm text-amber-700 mt-1 truncate">
+                                                            {openQuestion
+                                                                ? `Question sent ${new Date(openQuestion.asked_at).toLocaleString()}: “${openQuestion.question}”`
+                                                                : 'Waiting for document re-upload'}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                                {queue !== 'awaiting_merchant' && (
+                                                    <div className="flex items-center gap-2">
+                                                        {can(user, 'case:reassign') && staff.length > 0 && (
+                                                            <select
+                                                                value=""
+                                                                onChange={(e) => handleReassign(kyc.id, e.target.value)}
+                                                                className="px-3 py-2 border rounded-lg text-sm"
+                                                            >
+                                                                <option value="">Assign to…</option>
+                                                                {staff.filter((member) => member.id !== kyc.claim?.claimed_by && can(member, 'case:review')).map((member) => (
+                                                                    <option key={member.id} value={member.id}>{member.name}</option>
+                                                                ))}
+                                                            </select>
+                                                        )}
+                                                        <button
+                                                            onClick={() => claimAndOpen(kyc)}
+                                                            disabled={(lockedByOther && canReview) || decisionPending}
+                                                            className={`px-4 py-2 text-white rounded-lg disabled:opacity-50 ${queue === 'pending' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+                                                        >
+                                                            {decisionPending ? 'Sending…' : !canReview ? 'View' : lockedByOther ? 'Locked' : heldByMe ? 'Resume' : queue === 'pending' ? 'Claim & Review' : 'Claim & Verify'}
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </div>
                                         </div>
-                                        <button onClick={() => setSelectedMerchant(kyc)} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">Review</button>
-                                    </div>
-                                ))}
-                            </div>
+                                    );
+                                }}
+                            />
                         ) : (
-                            <div className="text-center p-12 bg-white rounded-lg">No pending applications</div>
+                            <div className="text-center p-12 bg-white rounded-lg">{queue === 'pending' ? 'No pending applications' : queue === 'pending_verification' ? 'No decisions awaiting verification' : 'Nothing is waiting on merchants'}</div>
                         )}
                     </div>
                 )}
             </div>
+
+            {showShortcuts && <ShortcutHelp shortcuts={REVIEW_SHORTCUTS} onClose={() => setShowShortcuts(false)} />}
+
+            {showExport && token && (
+                <ExportDialog
+                    queueLabel={QUEUE_LABELS[queue]}
+                    fetchQueuePage={(page, pageSize) => QUEUE_FETCHERS[queue](token, { ...toQueueQuery(filters), page, pageSize, sortBy, sortDir, search: searchTerm })}
+                    onClose={() => setShowExport(false)}
+                />
+            )}
         </div>
     );
 };
@@ -1,17 +1,26 @@
 // src/pages/SupportLogin.tsx
 
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Location, useLocation, useNavigate } from 'react-router-dom';
 import { useSupportAuth } from '../context/SupportAuthContext';
-import { Lock, Mail, AlertCircle, Loader2 } from 'lucide-react';
+import { Lock, Mail, AlertCircle, Loader2, ShieldCheck } from 'lucide-react';
 
 export const SupportLogin: React.FC = () => {
     const navigate = useNavigate();
-    const { login, loading, error, clearError } = useSupportAuth();
+    const location = useLocation();
+    const { login, verifyMfa, cancelMfa, mfaPending, loading, error, clearError } = useSupportAuth();
     const [email, setEmail] = useState('support@sabbpe.com');
     const [password, setPassword] = useState('support123');
+    const [code, setCode] = useState('');
+    const [useBackupCode, setUseBackupCode] = useState(false);
     const [localError, setLocalError] = useState('');
 
+    // Back to the page that sent us here, e.g. a shared /kyc/:merchantId link.
+    const goToDestination = () => {
+        const from = (location.state as { from?: Location } | null)?.from;
+        navigate(from ? `${from.pathname}${from.search}` : '/dashboard', { replace: true });
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setLocalError('');
@@ -23,13 +32,43 @@ export const SupportLogin: React.FC = () => {
         }
 
         try {
-            await login(email, password);
-            navigate('/dashboard');
+            if ((await login(email, password)) === 'authenticated') {
+                goToDestination();
+                return;
+            }
+            setCode('');
+            setUseBackupCode(false);
         } catch (err) {
             setLocalError(err instanceof Error ? err.message : 'Login failed');
         }
     };
 
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLocalError('');
+        clearError();
+
+        if (!code.trim()) {
+            setLocalError(useBackupCode ? 'Enter one of your backup codes' : 'Enter the 6-digit code from your authenticator app');
+            return;
+        }
+
+        try {
+            await verifyMfa(code.trim());
+            goToDestination();
+        } catch {
+            // The context has the message; a wrong code is cleared so the next one can be typed.
+            setCode('');
+        }
+    };
+
+    const handleCancelMfa = () => {
+        cancelMfa();
+        clearError();
+        setLocalError('');
+        setCode('');
+    };
+
     return (
         <div className="min-h-screen bg-gradient-to-br from-blue-600 via-blue-700 to-blue-900 flex items-center justify-center p-4">
             <div className="w-full max-w-md">
@@ -52,68 +91,139 @@ export const SupportLogin: React.FC = () => {
                         </div>
                     )}
 
-                    {/* Form */}
-                    <form onSubmit={handleSubmit} className="space-y-4">
-                        {/* Email Input */}
-                        <div>
-                            <label className="block text-sm font-semibold text-gray-700 mb-2">
-                                Email Address
-                            </label>
-                            <div className="relative">
-                                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                    {/* Form; once the password is accepted, accounts with two-factor on are asked for a code */}
+                    {mfaPending ? (
+                        <form onSubmit={handleVerify} className="space-y-4">
+                            <div className="flex items-start gap-3">
+                                <ShieldCheck className="w-6 h-6 text-blue-600 flex-shrink-0" />
+                                <div>
+                                    <h2 className="font-semibold text-gray-900">Two-factor authentication</h2>
+                                    <p className="text-sm text-gray-600">
+                                        {useBackupCode
+                                            ? `Enter one of the backup codes you saved for ${mfaPending.email}. Each code works once.`
+                                            : `Enter the 6-digit code from your authenticator app for ${mfaPending.email}.`}
+                                    </p>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label htmlFor="mfa-code" className="block text-sm font-semibold text-gray-700 mb-2">
+                                    {useBackupCode ? 'Backup code' : 'Authentication code'}
+                                </label>
                                 <input
-                                    type="email"
-                                    value={email}
+                                    id="mfa-code"
+                                    type="text"
+                                    value={code}
                                     onChange={(e) => {
-                                        setEmail(e.target.value);
+                                        setCode(e.target.value);
                                         setLocalError('');
                                         clearError();
                                     }}
-                                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                                    placeholder="support@sabbpe.com"
+                                    inputMode={useBackupCode ? 'text' : 'numeric'}
+                                    autoComplete="one-time-code"
+                                    autoFocus
+                                    maxLength={useBackupCode ? 12 : 6}
+                                    className="w-full px-4 py-3 border border-gray-300 rounded-lg font-mono text-lg tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                                    placeholder={useBackupCode ? 'xxxx-xxxx' : '123456'}
                                     disabled={loading}
                                 />
                             </div>
-                        </div>
 
-                        {/* Password Input */}
-                        <div>
-                            <label className="block text-sm font-semibold text-gray-700 mb-2">
-                                Password
-                            </label>
-                            <div className="relative">
-                                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                                <input
-                                    type="password"
-                                    value={password}
-                                    onChange={(e) => {
-                                        setPassword(e.target.value);
-                                        setLocalError('');
-                                        clearError();
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold py-3 px-4 rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg"
+                            >
+                                {loading ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        Verifying...
+                                    </>
+                                ) : (
+                                    'Verify'
+                                )}
+                            </button>
+
+                            <div className="flex justify-between text-sm">
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setUseBackupCode(!useBackupCode);
+                                        setCode('');
                                     }}
-                                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                                    placeholder="••••••••"
+                                    className="text-blue-600 hover:underline"
                                     disabled={loading}
-                                />
+                                >
+                                    {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+                                </button>
+                                <button type="button" onClick={handleCancelMfa} className="text-gray-600 hover:underline" disabled={loading}>
+                                    Sign in as someone else
+                                </button>
+                            </div>
+                        </form>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            {/* Email Input */}
+                            <div>
+                                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                    Email Address
+                                </label>
+                                <div className="relative">
+                                    <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                                    <input
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => {
+                                            setEmail(e.target.value);
+                                            setLocalError('');
+                                            clearError();
+                                        }}
+                                        className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                                        placeholder="support@sabbpe.com"
+                                        disabled={loading}
+                                    />
+                                </div>
                             </div>
-                        </div>
 
-                        {/* Submit Button */}
-                        <button
-                            type="submit"
-                            disabled={loading}
-                            className="w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold py-3 px-4 rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg"
-                        >
-                            {loading ? (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                    Signing in...
-                                </>
-                            ) : (
-                                'Sign In to Portal'
-                            )}
-                        </button>
-                    </form>
+                            {/* Password Input */}
+                            <div>
+                                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                    Password
+                                </label>
+                                <div className="relative">
+                                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                                    <input
+                                        type="password"
+                                        value={password}
+                                        onChange={(e) => {
+                                            setPassword(e.target.value);
+                                            setLocalError('');
+                                            clearError();
+                                        }}
+                                        className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                                        placeholder="••••••••"
+                                        disabled={loading}
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Submit Button */}
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold py-3 px-4 rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg"
+                            >
+                                {loading ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        Signing in...
+                                    </>
+                                ) : (
+                                    'Sign In to Portal'
+                                )}
+                            </button>
+                        </form>
+                    )}
 
                     {/* Demo Credentials Info */}
                     <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">